@@ -0,0 +1,212 @@
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import session from "express-session";
+import type { Express, Request, Response, NextFunction } from "express";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { storage } from "./storage";
+import { resolveSite } from "./sites";
+import { type User as SelectUser, type UserRole } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+// Passwords created before hashing was introduced are stored as plain text
+function isHashed(stored: string): boolean {
+  return /^[0-9a-f]{128}\.[0-9a-f]{32}$/.test(stored);
+}
+
+async function verifyPassword(user: SelectUser, supplied: string): Promise<boolean> {
+  if (isHashed(user.password)) {
+    return comparePasswords(supplied, user.password);
+  }
+
+  const storedBuf = Buffer.from(user.password);
+  const suppliedBuf = Buffer.from(supplied);
+  const matches = storedBuf.length === suppliedBuf.length && timingSafeEqual(storedBuf, suppliedBuf);
+  if (matches) {
+    // Upgrade the legacy plain text password on first successful login
+    await storage.updateUserPassword(user.id, await hashPassword(supplied));
+  }
+  return matches;
+}
+
+export type Permission =
+  | "config:write"
+  | "content:write"
+  | "messages:read"
+  | "messages:reply"
+  | "users:manage"
+  | "sites:manage"
+  | "audit:read"
+  | "orders:read"
+  | "orders:manage"
+  | "webhooks:manage";
+
+// What each role may do on the sites it is a member of. sites:manage is left out: adding
+// and changing sites is for platform admins, who have every permission on every site.
+const rolePermissions: Record<UserRole, Permission[]> = {
+  owner: ["config:write", "content:write", "messages:read", "messages:reply", "users:manage", "audit:read", "orders:read", "orders:manage", "webhooks:manage"],
+  editor: ["content:write"],
+  support: ["messages:read", "messages:reply", "orders:read"],
+};
+const adminPermissions: Permission[] = [...rolePermissions.owner, "sites:manage"];
+
+export function isPlatformAdmin(user: SelectUser): boolean {
+  return user.role === "admin";
+}
+
+// siteRole is the user's role on the site of the request, set by resolveSite
+export function getPermissions(user: SelectUser, siteRole?: UserRole): Permission[] {
+  if (isPlatformAdmin(user)) return adminPermissions;
+  return siteRole ? rolePermissions[siteRole] ?? [] : [];
+}
+
+export function hasPermission(req: Request, permission: Permission): boolean {
+  return !!req.user && getPermissions(req.user, req.siteRole).includes(permission);
+}
+
+export function toPublicUser(user: SelectUser, siteRole?: UserRole) {
+  const { password, ...publicUser } = user;
+  return { ...publicUser, siteRole: siteRole ?? null, permissions: getPermissions(user, siteRole) };
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Authentication required" });
+  }
+  next();
+}
+
+export function requirePermission(permission: Permission) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    if (!hasPermission(req, permission)) {
+      return res.status(403).json({ message: "Insufficient permissions" });
+    }
+    next();
+  };
+}
+
+async function ensureAdminUser() {
+  const username = process.env.ADMIN_USERNAME;
+  const password = process.env.ADMIN_PASSWORD;
+  if (!username || !password) return;
+
+  const existingUser = await storage.getUserByUsername(username);
+  if (!existingUser) {
+    await storage.createUser({ username, password: await hashPassword(password), role: "admin" });
+  } else if (!isPlatformAdmin(existingUser)) {
+    await storage.updateUserRole(existingUser.id, "admin");
+  }
+}
+
+export function setupAuth(app: Express) {
+  if (!process.env.SESSION_SECRET) {
+    throw new Error(
+      "SESSION_SECRET must be set. Did you forget to configure the session secret?",
+    );
+  }
+
+  const sessionSettings: session.SessionOptions = {
+    secret: process.env.SESSION_SECRET,
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: 7 * 24 * 60 * 60 * 1000, // 1 week
+    },
+  };
+
+  app.use(session(sessionSettings));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await verifyPassword(user, password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user || false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  ensureAdminUser().catch((error) => {
+    console.error("Failed to create admin user", error);
+  });
+
+  // Login and /me answer with the permissions the user has on the site of the request
+  app.post("/api/auth/login", resolveSite, (req, res, next) => {
+    passport.authenticate("local", (err: Error | null, user: SelectUser | false) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ message: "Invalid username or password" });
+      }
+      req.login(user, async (err) => {
+        if (err) return next(err);
+        try {
+          const member = await storage.getSiteMember(req.site!.id, user.id);
+          res.json(toPublicUser(user, member?.role as UserRole | undefined));
+        } catch (error) {
+          next(error);
+        }
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      req.session.destroy((err) => {
+        if (err) return next(err);
+        res.clearCookie("connect.sid");
+        res.json({ message: "Logged out successfully" });
+      });
+    });
+  });
+
+  app.get("/api/auth/me", resolveSite, (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    res.json(toPublicUser(req.user, req.siteRole));
+  });
+}
@@ -0,0 +1,26 @@
+// Renders the public pages of one site to static files, see server/static-site.ts:
+//
+//   npm run static:build -- <hostname>
+import { storage } from "./storage";
+import { buildStaticSite } from "./static-site";
+
+async function main() {
+  const [hostname] = process.argv.slice(2);
+  if (!hostname) {
+    throw new Error("Usage: npm run static:build -- <hostname>");
+  }
+  const site = await storage.getSiteByHostname(hostname);
+  if (!site) {
+    throw new Error(`No site with hostname ${hostname}`);
+  }
+
+  const report = await buildStaticSite(site);
+  console.log(`Built ${site.name} in ${report.outputDir}: ${report.written.length} written, ${report.unchanged} unchanged, ${report.removed.length} removed (${report.durationMs} ms).`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Building the static site failed", error);
+    process.exit(1);
+  });
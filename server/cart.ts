@@ -0,0 +1,121 @@
+import type { Request, Response } from "express";
+import { randomBytes } from "crypto";
+import { storage } from "./storage";
+import { formatMoney } from "./money";
+import { type Cart, type CartItem, type InsertOrderLine } from "@shared/schema";
+
+const cartCookie = "cart";
+const cartCookieMaxAge = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+function readCookie(req: Request, name: string): string | undefined {
+  for (const part of (req.headers.cookie ?? "").split(";")) {
+    const [key, ...value] = part.trim().split("=");
+    if (key === name) return decodeURIComponent(value.join("="));
+  }
+  return undefined;
+}
+
+// The visitor's cart for the current site, if their cookie points at one
+export async function findCart(req: Request): Promise<Cart | undefined> {
+  const token = readCookie(req, cartCookie);
+  return token ? storage.getCartByToken(req.site!.id, token) : undefined;
+}
+
+export async function findOrCreateCart(req: Request, res: Response): Promise<Cart> {
+  const existing = await findCart(req);
+  if (existing) return existing;
+
+  const cart = await storage.createCart(req.site!.id, randomBytes(24).toString("hex"));
+  res.cookie(cartCookie, cart.token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: req.app.get("env") === "production",
+    maxAge: cartCookieMaxAge,
+  });
+  return cart;
+}
+
+export interface PricedCartLine extends InsertOrderLine {
+  cartItemId: number;
+  problem?: string; // why the line cannot be ordered as it is
+}
+
+export interface PricedCart {
+  lines: PricedCartLine[];
+  currency: string | null;
+  totalAmount: number;
+  problems: string[];
+}
+
+// Prices cart items from the current catalog. Prices sent by the client are never used.
+export async function priceCartItems(siteId: number, items: CartItem[]): Promise<PricedCart> {
+  const lines: PricedCartLine[] = [];
+  const currencies = new Set<string>();
+
+  for (const item of items) {
+    const product = await storage.getProduct(siteId, item.productId);
+    const variant = item.variantId ? await storage.getProductVariant(siteId, item.variantId) : undefined;
+    if (!product || product.status !== "active" || (item.variantId && variant?.productId !== product.id)) {
+      lines.push({
+        cartItemId: item.id,
+        productId: item.productId,
+        variantId: item.variantId,
+        title: product?.title ?? "",
+        unitAmount: 0,
+        quantity: item.quantity,
+        totalAmount: 0,
+        problem: "This product is no longer available",
+      });
+      continue;
+    }
+
+    const unitAmount = variant?.priceAmount ?? product.priceAmount;
+    const stock = variant ? variant.stock : product.stock;
+    let problem: string | undefined;
+    if (!variant && product.options.length > 0) {
+      problem = "Choose the options of this product";
+    } else if (stock !== null && stock < item.quantity) {
+      problem = stock === 0 ? "This product is out of stock" : `Only ${stock} left in stock`;
+    }
+
+    currencies.add(product.currency);
+    lines.push({
+      cartItemId: item.id,
+      productId: product.id,
+      variantId: variant?.id ?? null,
+      title: product.title,
+      options: variant?.optionValues ?? {},
+      sku: variant?.sku ?? product.sku,
+      unitAmount,
+      quantity: item.quantity,
+      totalAmount: unitAmount * item.quantity,
+      problem,
+    });
+  }
+
+  const problems = lines.flatMap((line) => (line.problem ? [`${line.title}: ${line.problem}`] : []));
+  if (currencies.size > 1) problems.push("The cart contains products in different currencies");
+
+  return {
+    lines,
+    currency: currencies.size === 1 ? Array.from(currencies)[0] : null,
+    totalAmount: lines.reduce((sum, line) => sum + line.totalAmount, 0),
+    problems,
+  };
+}
+
+export function presentCart(priced: PricedCart, locale: string) {
+  const format = (amount: number) => (priced.currency ? formatMoney(amount, priced.currency, locale) : null);
+  return {
+    items: priced.lines.map(({ cartItemId, ...line }) => ({
+      id: cartItemId,
+      ...line,
+      formattedUnitPrice: format(line.unitAmount),
+      formattedTotal: format(line.totalAmount),
+    })),
+    currency: priced.currency,
+    totalAmount: priced.totalAmount,
+    formattedTotal: format(priced.totalAmount),
+    problems: priced.problems,
+  };
+}
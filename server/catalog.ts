@@ -0,0 +1,61 @@
+import { storage } from "./storage";
+import { formatMoney } from "./money";
+import { type Site, type Product, type ProductVariant, type ProductCategory } from "@shared/schema";
+
+export type PresentedVariant = ProductVariant & { formattedPrice: string };
+
+export type PresentedProduct<T extends Product> = T & {
+  formattedPrice: string;
+  category: Pick<ProductCategory, "id" | "name" | "slug"> | null;
+  variants: PresentedVariant[];
+};
+
+// Adds locale-formatted prices, the category and the variants to products for output
+export async function presentProducts<T extends Product>(
+  site: Site,
+  locale: string,
+  rows: T[],
+): Promise<PresentedProduct<T>[]> {
+  if (rows.length === 0) return [];
+
+  const categories = new Map((await storage.getProductCategories(site.id)).map((category) => [category.id, category]));
+  const variants = await storage.getProductVariants(site.id, rows.length === 1 ? rows[0].id : undefined);
+
+  return rows.map((product) => {
+    const category = product.categoryId === null ? undefined : categories.get(product.categoryId);
+    return {
+      ...product,
+      formattedPrice: formatMoney(product.priceAmount, product.currency, locale),
+      category: category ? { id: category.id, name: category.name, slug: category.slug } : null,
+      variants: variants
+        .filter((variant) => variant.productId === product.id)
+        .map((variant) => ({ ...variant, formattedPrice: formatMoney(variant.priceAmount, product.currency, locale) })),
+    };
+  });
+}
+
+// Checks that a variant picks exactly one listed value for every option of its product
+export function variantOptionsError(product: Product, optionValues: Record<string, string>): string | undefined {
+  const names = Object.keys(optionValues);
+  for (const name of names) {
+    const option = product.options.find((candidate) => candidate.name === name);
+    if (!option) return `Unknown option "${name}"`;
+    if (!option.values.includes(optionValues[name])) return `"${optionValues[name]}" is not a value of option "${name}"`;
+  }
+  const missing = product.options.find((option) => !names.includes(option.name));
+  return missing ? `Missing a value for option "${missing.name}"` : undefined;
+}
+
+// Whether another variant of the product already has the same option values
+export async function hasDuplicateVariant(
+  siteId: number,
+  productId: number,
+  optionValues: Record<string, string>,
+  excludeId?: number,
+): Promise<boolean> {
+  const key = JSON.stringify(Object.entries(optionValues).sort(([a], [b]) => a.localeCompare(b)));
+  const variants = await storage.getProductVariants(siteId, productId);
+  return variants.some((variant) =>
+    variant.id !== excludeId &&
+    JSON.stringify(Object.entries(variant.optionValues).sort(([a], [b]) => a.localeCompare(b))) === key);
+}
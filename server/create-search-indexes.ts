@@ -0,0 +1,32 @@
+// Creates the GIN indexes behind /api/search and /api/search/messages for the text search
+// configuration of every site. Pages are few and searched without an index.
+//
+//   npm run search:index
+import { sql } from "drizzle-orm";
+import { db, connectDatabase } from "./db";
+import { storage } from "./storage";
+import { documentVector, searchConfigsInUse } from "./search";
+
+async function main() {
+  connectDatabase();
+
+  for (const config of searchConfigsInUse(await storage.getSites())) {
+    const indexes = [
+      { name: `projects_search_${config}_idx`, table: "projects", vector: documentVector(config, "title", "description") },
+      { name: `products_search_${config}_idx`, table: "products", vector: documentVector(config, "title", "description") },
+      { name: `messages_search_${config}_idx`, table: "messages", vector: documentVector(config, "subject", "message") },
+      { name: `message_replies_search_${config}_idx`, table: "message_replies", vector: `to_tsvector('${config}', reply)` },
+    ];
+    for (const index of indexes) {
+      await db.execute(sql.raw(`CREATE INDEX IF NOT EXISTS ${index.name} ON ${index.table} USING gin ((${index.vector}))`));
+      console.log(`${index.name} ready`);
+    }
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Creating search indexes failed", error);
+    process.exit(1);
+  });
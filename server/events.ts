@@ -0,0 +1,35 @@
+import { EventEmitter } from "events";
+import { randomUUID } from "crypto";
+import { type SiteEventType } from "@shared/schema";
+
+export interface SiteEvent {
+  id: string;
+  siteId: number;
+  type: SiteEventType;
+  data: Record<string, unknown>; // the entity as JSON, or just its id once deleted
+  createdAt: string;
+}
+
+// In-process bus from the routes that change things to the subscribers that pass changes on
+const bus = new EventEmitter();
+bus.setMaxListeners(0);
+
+export function emitSiteEvent(siteId: number, type: SiteEventType, data: object): SiteEvent {
+  const event: SiteEvent = {
+    id: randomUUID(),
+    siteId,
+    type,
+    data: JSON.parse(JSON.stringify(data)),
+    createdAt: new Date().toISOString(),
+  };
+  bus.emit("event", event);
+  return event;
+}
+
+// Returns a function that unsubscribes the listener
+export function onSiteEvent(listener: (event: SiteEvent) => void): () => void {
+  bus.on("event", listener);
+  return () => {
+    bus.off("event", listener);
+  };
+}
@@ -0,0 +1,30 @@
+// Writes a backup archive of one site, see server/site-archive.ts:
+//
+//   npm run site:export -- <hostname> [file.tar.gz]
+import fs from "fs";
+import { storage } from "./storage";
+import { exportSiteArchive } from "./site-archive";
+
+async function main() {
+  const [hostname, file = `${hostname}-${new Date().toISOString().slice(0, 10)}.tar.gz`] = process.argv.slice(2);
+  if (!hostname) {
+    throw new Error("Usage: npm run site:export -- <hostname> [file.tar.gz]");
+  }
+  const site = await storage.getSiteByHostname(hostname);
+  if (!site) {
+    throw new Error(`No site with hostname ${hostname}`);
+  }
+
+  const { missingFiles } = await exportSiteArchive(site, fs.createWriteStream(file));
+  for (const key of missingFiles) {
+    console.warn(`Missing upload left out: ${key}`);
+  }
+  console.log(`Exported ${site.name} to ${file}.`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Exporting the site failed", error);
+    process.exit(1);
+  });
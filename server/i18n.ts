@@ -0,0 +1,139 @@
+import type { Request, Response } from "express";
+import { storage } from "./storage";
+import {
+  translatableFields, translatableBlockFields,
+  type Site, type Page, type Translation, type TranslatableEntityType
+} from "@shared/schema";
+
+// Picks the locale from ?lang=, then Accept-Language, falling back to the site's default locale.
+// Also sets Content-Language so caches and crawlers can tell the variants apart.
+export function resolveLocale(req: Request, res: Response): string {
+  const site = req.site!;
+  const requested = typeof req.query.lang === "string" ? req.query.lang : undefined;
+
+  let locale = site.defaultLocale;
+  if (requested && site.locales.includes(requested)) {
+    locale = requested;
+  } else {
+    // Without a real preference (no header, or only "*") acceptsLanguages would pick the first
+    // locale it is given, so crawlers get the default. It comes first for wildcards, too.
+    const header = req.get("Accept-Language")?.trim();
+    if (header && header !== "*") {
+      const accepted = req.acceptsLanguages(site.defaultLocale, ...site.locales.filter((other) => other !== site.defaultLocale));
+      if (accepted) locale = accepted;
+    }
+  }
+
+  res.set("Content-Language", locale);
+  res.vary("Accept-Language");
+  return locale;
+}
+
+function applyTranslations<T extends object>(row: T, rowTranslations: Translation[]): T {
+  const translated = { ...row } as Record<string, unknown>;
+
+  for (const translation of rowTranslations) {
+    if (translation.field.startsWith("blocks.") && Array.isArray(translated.blocks)) {
+      const [, blockId, property] = translation.field.split(".");
+      translated.blocks = (translated.blocks as Page["blocks"]).map((block) =>
+        block.id === blockId ? { ...block, [property]: translation.value } : block,
+      );
+    } else if (translation.field in translated) {
+      translated[translation.field] = translation.value;
+    }
+  }
+  return translated as T;
+}
+
+// Overlays the translations for `locale` on the given rows; untranslated fields keep the default-locale text
+export async function localize<T extends { id: number }>(
+  site: Site,
+  locale: string,
+  entityType: TranslatableEntityType,
+  rows: T[],
+): Promise<T[]> {
+  if (locale === site.defaultLocale || rows.length === 0) return rows;
+
+  const found = await storage.getTranslations(site.id, entityType, rows.map((row) => row.id), locale);
+  return rows.map((row) =>
+    applyTranslations(row, found.filter((translation) => translation.entityId === row.id)),
+  );
+}
+
+export async function localizeOne<T extends { id: number }>(
+  site: Site,
+  locale: string,
+  entityType: TranslatableEntityType,
+  row: T,
+): Promise<T> {
+  const [localized] = await localize(site, locale, entityType, [row]);
+  return localized;
+}
+
+// Lists the text fields of a row that have content and can be translated
+export function translatableValues(entityType: TranslatableEntityType, row: object): Map<string, string> {
+  const record = row as Record<string, unknown>;
+  const values = new Map<string, string>();
+
+  for (const field of translatableFields[entityType]) {
+    const value = record[field];
+    if (typeof value === "string" && value.trim()) values.set(field, value);
+  }
+
+  if (entityType === "page") {
+    for (const block of (row as Page).blocks) {
+      const blockRecord = block as Record<string, unknown>;
+      for (const property of translatableBlockFields) {
+        const value = blockRecord[property];
+        if (typeof value === "string" && value.trim()) values.set(`blocks.${block.id}.${property}`, value);
+      }
+    }
+  }
+  return values;
+}
+
+export function isTranslatableField(entityType: TranslatableEntityType, row: object, field: string): boolean {
+  if ((translatableFields[entityType] as readonly string[]).includes(field)) return true;
+  if (entityType !== "page") return false;
+
+  const [prefix, blockId, property, ...rest] = field.split(".");
+  return prefix === "blocks" && rest.length === 0 &&
+    (translatableBlockFields as readonly string[]).includes(property) &&
+    (row as Page).blocks.some((block) => block.id === blockId);
+}
+
+export interface MissingTranslation {
+  entityType: TranslatableEntityType;
+  entityId: number;
+  field: string;
+  locale: string;
+  defaultValue: string;
+}
+
+export async function findMissingTranslations(site: Site, locales: string[]): Promise<MissingTranslation[]> {
+  const config = await storage.getSiteConfig(site.id);
+  const entities: [TranslatableEntityType, { id: number }[]][] = [
+    ["siteConfig", config ? [config] : []],
+    ["page", await storage.getPages(site.id)],
+    ["project", await storage.getProjects(site.id)],
+    ["product", await storage.getProducts(site.id)],
+  ];
+  const existing = await storage.getTranslations(site.id);
+  const translated = new Set(
+    existing.map((t) => `${t.entityType}:${t.entityId}:${t.field}:${t.locale}`),
+  );
+
+  const missing: MissingTranslation[] = [];
+  for (const [entityType, rows] of entities) {
+    for (const row of rows) {
+      for (const [field, defaultValue] of Array.from(translatableValues(entityType, row))) {
+        for (const locale of locales) {
+          if (!translated.has(`${entityType}:${row.id}:${field}:${locale}`)) {
+            missing.push({ entityType, entityId: row.id, field, locale, defaultValue });
+          }
+        }
+      }
+    }
+  }
+  return missing;
+}
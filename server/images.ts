@@ -0,0 +1,104 @@
+import fs from "fs";
+import path from "path";
+import sharp from "sharp";
+import { type ImageVariant } from "@shared/schema";
+
+export class InvalidImageError extends Error {}
+
+// Formats we accept, keyed by what sharp detects from the file content
+const acceptedFormats: Record<string, { mimeType: string; extension: string; output: keyof sharp.FormatEnum }> = {
+  jpeg: { mimeType: "image/jpeg", extension: "jpg", output: "jpeg" },
+  png: { mimeType: "image/png", extension: "png", output: "png" },
+  webp: { mimeType: "image/webp", extension: "webp", output: "webp" },
+  gif: { mimeType: "image/gif", extension: "gif", output: "gif" },
+  heif: { mimeType: "image/avif", extension: "avif", output: "avif" }, // sharp reports AVIF as heif
+};
+
+const variantWidths: Record<ImageVariant["name"], number> = {
+  thumbnail: 320,
+  medium: 800,
+  large: 1600,
+};
+
+export interface ProcessedImage {
+  mimeType: string;
+  extension: string;
+  size: number;
+  width: number;
+  height: number;
+  variants: Omit<ImageVariant, "url">[]; // written next to the upload, named by `filename`
+}
+
+function openImage(filePath: string, format: string) {
+  const image = sharp(filePath, { animated: format === "gif" });
+  // Applies the EXIF orientation before the metadata is dropped
+  return format === "gif" ? image : image.rotate();
+}
+
+// The format of an upload going by its content, or undefined when it is no supported image
+async function detectFormat(file: Express.Multer.File): Promise<string | undefined> {
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(file.path).metadata();
+  } catch (error) {
+    return undefined;
+  }
+  return metadata.format && acceptedFormats[metadata.format] && metadata.width && metadata.height ? metadata.format : undefined;
+}
+
+const invalidImageMessage = "The file is not a supported image (JPEG, PNG, WebP, GIF or AVIF)";
+
+// Checks a batch of uploads before any of them is processed, so one bad file rejects the
+// batch without leaving media items behind for the others
+export async function assertImages(files: Express.Multer.File[]) {
+  for (const file of files) {
+    if (!await detectFormat(file)) throw new InvalidImageError(`${file.originalname}: ${invalidImageMessage}`);
+  }
+}
+
+// Checks an upload by its content, re-encodes it without metadata (EXIF, GPS, comments) and
+// writes WebP variants next to it. Removes the upload and throws InvalidImageError if it is no image.
+export async function processUploadedImage(file: Express.Multer.File): Promise<ProcessedImage> {
+  const format = await detectFormat(file);
+  if (!format) {
+    await fs.promises.rm(file.path, { force: true });
+    throw new InvalidImageError(invalidImageMessage);
+  }
+
+  const accepted = acceptedFormats[format];
+  const directory = path.dirname(file.path);
+  const sanitizedPath = `${file.path}.tmp`;
+  const original = await openImage(file.path, format)
+    .toFormat(accepted.output)
+    .toFile(sanitizedPath);
+  await fs.promises.rename(sanitizedPath, file.path);
+
+  const variants: ProcessedImage["variants"] = [];
+  for (const [name, width] of Object.entries(variantWidths) as [ImageVariant["name"], number][]) {
+    // Larger variants would only upscale; the thumbnail is always made so lists have something small
+    if (name !== "thumbnail" && width >= original.width) continue;
+
+    const filename = `${file.filename}-${name}.webp`;
+    const output = await openImage(file.path, format)
+      .resize({ width, withoutEnlargement: true })
+      .webp({ quality: 80 })
+      .toFile(path.join(directory, filename));
+    variants.push({
+      name,
+      filename,
+      width: output.width,
+      height: output.height,
+      mimeType: "image/webp",
+      size: output.size,
+    });
+  }
+
+  return {
+    mimeType: accepted.mimeType,
+    extension: accepted.extension,
+    size: original.size,
+    width: original.width,
+    height: original.height,
+    variants,
+  };
+}
@@ -0,0 +1,47 @@
+// Adds replies from a local maildir (e.g. filled by fetchmail or the mail server) to their
+// threads. Handled emails move from new/ to cur/ so the next run skips them:
+//
+//   npm run email:import-maildir -- /var/mail/replies
+import { promises as fs } from "fs";
+import path from "path";
+import { simpleParser, type AddressObject } from "mailparser";
+import { receiveReply } from "./email";
+
+function addresses(value: AddressObject | AddressObject[] | undefined): string {
+  return (Array.isArray(value) ? value : value ? [value] : []).map((address) => address.text).join(", ");
+}
+
+async function main() {
+  const maildir = process.argv[2];
+  if (!maildir) {
+    throw new Error("Usage: npm run email:import-maildir -- <maildir>");
+  }
+
+  const files = await fs.readdir(path.join(maildir, "new"));
+  for (const file of files) {
+    const source = path.join(maildir, "new", file);
+    const email = await simpleParser(await fs.readFile(source));
+    const references = Array.isArray(email.references) ? email.references.join(" ") : email.references;
+
+    const result = await receiveReply({
+      from: email.from?.value[0]?.address ?? "",
+      to: [addresses(email.to), addresses(email.cc), addresses(email.bcc)].join(", "),
+      subject: email.subject,
+      text: email.text ?? "",
+      inReplyTo: email.inReplyTo,
+      references,
+    });
+    console.log(`${file}: ${result.status === "added" ? `added reply ${result.reply.id}` : result.status}`);
+
+    // Marked as seen, the maildir way
+    await fs.rename(source, path.join(maildir, "cur", `${file}:2,S`));
+  }
+  console.log(`Processed ${files.length} emails.`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Importing the maildir failed", error);
+    process.exit(1);
+  });
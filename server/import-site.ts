@@ -0,0 +1,43 @@
+// Imports a backup archive into an existing site, next to its current content. To clone a
+// site for a new client, create the new site first and import into it:
+//
+//   npm run site:import -- <hostname> <file.tar.gz> [--dry-run]
+import { storage } from "./storage";
+import { importSiteArchive, SiteArchiveError } from "./site-archive";
+
+async function main() {
+  const dryRun = process.argv.includes("--dry-run");
+  const [hostname, file] = process.argv.slice(2).filter((arg) => !arg.startsWith("--"));
+  if (!hostname || !file) {
+    throw new Error("Usage: npm run site:import -- <hostname> <file.tar.gz> [--dry-run]");
+  }
+  const site = await storage.getSiteByHostname(hostname);
+  if (!site) {
+    throw new Error(`No site with hostname ${hostname}`);
+  }
+
+  let report;
+  try {
+    report = await importSiteArchive(site, file, { dryRun });
+  } catch (error) {
+    if (error instanceof SiteArchiveError) {
+      for (const issue of error.issues) console.error(`  ${issue}`);
+    }
+    throw error;
+  }
+
+  for (const warning of report.warnings) console.warn(`Warning: ${warning}`);
+  for (const conflict of report.conflicts) console.error(`Conflict: ${conflict}`);
+  const counts = Object.entries(report.imported).map(([name, count]) => `${count} ${name}`).join(", ");
+  if (report.conflicts.length > 0) {
+    throw new Error(`${report.conflicts.length} conflicts; nothing was imported`);
+  }
+  console.log(`${dryRun ? "Would import" : "Imported"} ${counts} into ${site.name}.`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Importing the site failed", error);
+    process.exit(1);
+  });
@@ -1,9 +1,21 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
-import { setupVite, serveStatic, log } from "./vite";
+import { setupVite, serveStatic } from "./vite";
+import { log } from "./log";
+import { captureRawBody } from "./payments";
+import { scheduleMediaCleanup } from "./media";
+import { scheduleWebhookDeliveries } from "./webhooks";
+import { scheduleStaticBuilds } from "./static-site";
+import { scheduleTrashPurge } from "./trash";
 
 const app = express();
-app.use(express.json());
+// Behind a reverse proxy, TRUST_PROXY (the number of proxies) makes req.ip the visitor's
+// address, which the contact form rate limits on, and lets secure session cookies be set.
+// Without it X-Forwarded-For is ignored, so clients cannot pick their own address.
+if (process.env.TRUST_PROXY) {
+  app.set("trust proxy", parseInt(process.env.TRUST_PROXY, 10));
+}
+app.use(express.json({ verify: captureRawBody }));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -38,6 +50,10 @@ app.use((req, res, next) => {
 
 (async () => {
   const server = await registerRoutes(app);
+  scheduleMediaCleanup();
+  scheduleWebhookDeliveries();
+  scheduleStaticBuilds();
+  scheduleTrashPurge();
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
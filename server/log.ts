@@ -0,0 +1,11 @@
+// Timestamped server log lines, e.g. "10:42:07 AM [express] serving on port 5000"
+export function log(message: string, source = "express") {
+  const formattedTime = new Date().toLocaleTimeString("en-US", {
+    hour: "numeric",
+    minute: "2-digit",
+    second: "2-digit",
+    hour12: true,
+  });
+
+  console.log(`${formattedTime} [${source}] ${message}`);
+}
@@ -0,0 +1,248 @@
+import fs from "fs";
+import path from "path";
+import { storage } from "./storage";
+import { log } from "./log";
+import { processUploadedImage } from "./images";
+import { uploads } from "./uploads";
+import { type Media, type Site } from "@shared/schema";
+
+// Runs an upload through the image pipeline and stores it in the media library
+export async function createMediaFromUpload(siteId: number, file: Express.Multer.File, actorId?: number): Promise<Media> {
+  const image = await processUploadedImage(file);
+  const filename = `${file.filename}.${image.extension}`;
+  const directory = path.dirname(file.path);
+
+  // Multer and the image pipeline work in a temporary directory; move the results to the upload driver
+  try {
+    await uploads.put(filename, file.path, image.mimeType);
+    for (const variant of image.variants) {
+      await uploads.put(variant.filename, path.join(directory, variant.filename), variant.mimeType);
+    }
+  } finally {
+    await fs.promises.rm(file.path, { force: true });
+    for (const variant of image.variants) {
+      await fs.promises.rm(path.join(directory, variant.filename), { force: true });
+    }
+  }
+
+  return storage.createMediaItem(siteId, {
+    filename,
+    originalName: file.originalname,
+    mimeType: image.mimeType,
+    size: image.size,
+    url: uploads.urlFor(filename),
+    width: image.width,
+    height: image.height,
+    variants: image.variants.map((variant) => ({ ...variant, url: uploads.urlFor(variant.filename) })),
+    uploadedBy: actorId ?? null,
+  }, actorId);
+}
+
+// The media record for an image field: a fresh upload wins over an existing media id.
+// Returns null when the referenced media item does not exist for this site.
+export async function resolveImage(
+  siteId: number,
+  file: Express.Multer.File | undefined,
+  mediaId: number | undefined,
+  actorId?: number,
+): Promise<Media | null | undefined> {
+  if (file) return createMediaFromUpload(siteId, file, actorId);
+  if (mediaId === undefined) return undefined;
+  return (await storage.getMediaItem(siteId, mediaId)) ?? null;
+}
+
+export type ImageDetails = Pick<Media, "id" | "url" | "alt" | "width" | "height" | "variants">;
+
+// Adds the dimensions and responsive variants of each row's image, for building srcset attributes
+export async function withImages<T extends { imageMediaId: number | null }>(
+  siteId: number,
+  rows: T[],
+): Promise<(T & { image: ImageDetails | null })[]> {
+  const ids = new Set(rows.map((row) => row.imageMediaId));
+  const items = ids.size > 0 ? await storage.getMediaItems(siteId) : [];
+  const byId = new Map(items.filter((item) => ids.has(item.id)).map((item) => [item.id, item]));
+
+  return rows.map((row) => {
+    const item = row.imageMediaId === null ? undefined : byId.get(row.imageMediaId);
+    const image = item
+      ? { id: item.id, url: item.url, alt: item.alt, width: item.width, height: item.height, variants: item.variants }
+      : null;
+    return { ...row, image };
+  });
+}
+
+export interface MediaUsage {
+  entityType: "siteConfig" | "page" | "project" | "product";
+  entityId: number;
+  field: string;
+}
+
+// Something in a site that can point at media: a media id, an image URL, or rich text
+// that embeds upload URLs, possibly of one of the responsive variants
+interface MediaReference extends MediaUsage {
+  mediaId?: number | null;
+  url?: string | null;
+  text?: string | null;
+}
+
+// Reads the site once and lists every field that can refer to media
+async function collectMediaReferences(siteId: number): Promise<MediaReference[]> {
+  const references: MediaReference[] = [];
+
+  const config = await storage.getSiteConfig(siteId);
+  const draft = await storage.getSiteConfigDraft(siteId);
+  // The unpublished draft counts too: publishing it must not end up with a missing logo
+  for (const [prefix, values] of [["", config], ["draft.", draft?.data]] as const) {
+    if (!values) continue;
+    const entityId = config?.id ?? draft!.id;
+    references.push(
+      { entityType: "siteConfig", entityId, field: `${prefix}logo`, mediaId: values.logoMediaId, url: values.logoUrl },
+      { entityType: "siteConfig", entityId, field: `${prefix}favicon`, mediaId: values.faviconMediaId, url: values.faviconUrl },
+    );
+  }
+
+  // Trashed projects and products keep their image, gallery and body so they can be restored
+  const trash = (await storage.getTrash(siteId)).filter((trashed) => trashed.type !== "message");
+  const projects = [...await storage.getProjects(siteId), ...trash.flatMap((trashed) => trashed.type === "project" ? [trashed.item] : [])];
+  const products = [...await storage.getProducts(siteId), ...trash.flatMap((trashed) => trashed.type === "product" ? [trashed.item] : [])];
+
+  for (const project of projects) {
+    references.push(
+      { entityType: "project", entityId: project.id, field: "image", mediaId: project.imageMediaId, url: project.imageUrl },
+      { entityType: "project", entityId: project.id, field: "body", text: project.body },
+    );
+    for (const image of await storage.getProjectImages(siteId, project.id)) {
+      references.push({ entityType: "project", entityId: project.id, field: `gallery.${image.id}`, mediaId: image.imageMediaId, url: image.imageUrl });
+    }
+  }
+
+  for (const product of products) {
+    references.push({ entityType: "product", entityId: product.id, field: "image", mediaId: product.imageMediaId, url: product.imageUrl });
+  }
+
+  for (const page of await storage.getPages(siteId)) {
+    for (const block of page.blocks) {
+      if (block.type === "hero" || block.type === "image") {
+        references.push({ entityType: "page", entityId: page.id, field: `blocks.${block.id}.imageUrl`, url: block.imageUrl });
+      }
+      if (block.type === "richText") {
+        references.push({ entityType: "page", entityId: page.id, field: `blocks.${block.id}.content`, text: block.content });
+      }
+    }
+  }
+
+  // Translated rich text can link other images than the original
+  for (const translation of await storage.getTranslations(siteId)) {
+    references.push({
+      entityType: translation.entityType as MediaUsage["entityType"],
+      entityId: translation.entityId,
+      field: `translations.${translation.locale}.${translation.field}`,
+      text: translation.value,
+    });
+  }
+  return references;
+}
+
+function usagesOf(references: MediaReference[], item: Media): MediaUsage[] {
+  const urls = [item.url, ...item.variants.map((variant) => variant.url)];
+  return references
+    .filter((reference) =>
+      (reference.mediaId != null && reference.mediaId === item.id) ||
+      (!!reference.url && reference.url === item.url) ||
+      (!!reference.text && urls.some((url) => reference.text!.includes(url))))
+    .map(({ entityType, entityId, field }) => ({ entityType, entityId, field }));
+}
+
+// Finds everything in a site that points at a media item, by id or by URL
+export async function findMediaUsages(siteId: number, item: Media): Promise<MediaUsage[]> {
+  return usagesOf(await collectMediaReferences(siteId), item);
+}
+
+// The upload keys a reference names by URL: /uploads/<key>, which content from before the
+// upload migration still uses, or the URL the current driver serves the key from
+function referencedKeys(references: MediaReference[]): Set<string> {
+  const bases = Array.from(new Set(["/uploads/", uploads.urlFor("")]))
+    .map((base) => base.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  const pattern = new RegExp(`(?:${bases.join("|")})([\\w.-]+)`, "g");
+  const keys = new Set<string>();
+  for (const reference of references) {
+    for (const value of [reference.url, reference.text]) {
+      for (const match of Array.from((value ?? "").matchAll(pattern))) keys.add(match[1]);
+    }
+  }
+  return keys;
+}
+
+export async function removeMediaFiles(item: Media) {
+  await uploads.delete(item.filename);
+  for (const variant of item.variants) {
+    await uploads.delete(variant.filename);
+  }
+}
+
+export interface MediaCleanupResult {
+  removedMedia: Media[];
+  removedFiles: string[];
+}
+
+function isOlderThan(date: Date, days: number): boolean {
+  return Date.now() - date.getTime() > days * 24 * 60 * 60 * 1000;
+}
+
+// Removes media items that nothing references anymore. Items younger than the grace period are
+// kept so a file that was just uploaded to the library is not removed before it is used.
+export async function cleanupSiteMedia(site: Site, options: { dryRun: boolean; graceDays: number }): Promise<Media[]> {
+  const removed: Media[] = [];
+  const references = await collectMediaReferences(site.id);
+
+  for (const item of await storage.getMediaItems(site.id)) {
+    if (!item.createdAt || !isOlderThan(item.createdAt, options.graceDays)) continue;
+    if (usagesOf(references, item).length > 0) continue;
+
+    removed.push(item);
+    if (!options.dryRun) {
+      await storage.deleteMediaItem(site.id, item.id);
+      await removeMediaFiles(item);
+    }
+  }
+  return removed;
+}
+
+// Cleans every site, then removes stored files that neither a media item nor any content
+// refers to. Content can name uploads by URL alone, e.g. images in a project body.
+export async function cleanupUnusedMedia(options: { dryRun: boolean; graceDays: number }): Promise<MediaCleanupResult> {
+  const removedMedia: Media[] = [];
+  const known = new Set<string>();
+  for (const site of await storage.getSites()) {
+    removedMedia.push(...(await cleanupSiteMedia(site, options)));
+    referencedKeys(await collectMediaReferences(site.id)).forEach((key) => known.add(key));
+  }
+
+  const removedFiles: string[] = [];
+  for (const filename of await storage.getAllMediaFilenames()) known.add(filename);
+  for (const file of await uploads.list()) {
+    if (known.has(file.key) || !isOlderThan(file.lastModified, options.graceDays)) continue;
+
+    removedFiles.push(file.key);
+    if (!options.dryRun) await uploads.delete(file.key);
+  }
+  return { removedMedia, removedFiles };
+}
+
+export const mediaCleanupGraceDays = parseInt(process.env.MEDIA_CLEANUP_GRACE_DAYS || "7", 10);
+
+// Runs the cleanup every MEDIA_CLEANUP_INTERVAL_HOURS hours; disabled when the variable is not set
+export function scheduleMediaCleanup() {
+  const intervalHours = parseFloat(process.env.MEDIA_CLEANUP_INTERVAL_HOURS || "0");
+  if (!intervalHours) return;
+
+  const timer = setInterval(async () => {
+    try {
+      const result = await cleanupUnusedMedia({ dryRun: false, graceDays: mediaCleanupGraceDays });
+      log(`media cleanup removed ${result.removedMedia.length} media items and ${result.removedFiles.length} files`);
+    } catch (error) {
+      console.error("Media cleanup failed", error);
+    }
+  }, intervalHours * 60 * 60 * 1000);
+  timer.unref();
+}
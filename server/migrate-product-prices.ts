@@ -0,0 +1,46 @@
+// Converts the old free-text products.price column ("€2.500") to price_amount in cents.
+// Run it against an existing database before pushing the schema, which drops the old column:
+//
+//   npm run products:migrate-prices
+import { sql } from "drizzle-orm";
+import { db, connectDatabase } from "./db";
+import { parseMoney } from "./money";
+
+async function main() {
+  connectDatabase();
+
+  const { rows: columns } = await db.execute(sql`
+    SELECT column_name FROM information_schema.columns
+    WHERE table_name = 'products' AND column_name = 'price'
+  `);
+  if (columns.length === 0) {
+    console.log("products.price does not exist; nothing to migrate.");
+    return;
+  }
+
+  await db.execute(sql`ALTER TABLE products ADD COLUMN IF NOT EXISTS price_amount integer`);
+  await db.execute(sql`ALTER TABLE products ADD COLUMN IF NOT EXISTS currency text NOT NULL DEFAULT 'EUR'`);
+
+  const { rows } = await db.execute(sql`SELECT id, price FROM products WHERE price_amount IS NULL`);
+  for (const row of rows as { id: number; price: string }[]) {
+    const amount = parseMoney(row.price);
+    if (amount === undefined) {
+      // Kept at 0 and taken offline so nothing is sold for free by accident
+      console.warn(`product ${row.id}: could not read price "${row.price}"; set to 0 and made inactive`);
+      await db.execute(sql`UPDATE products SET price_amount = 0, status = 'inactive' WHERE id = ${row.id}`);
+      continue;
+    }
+    console.log(`product ${row.id}: "${row.price}" -> ${amount}`);
+    await db.execute(sql`UPDATE products SET price_amount = ${amount} WHERE id = ${row.id}`);
+  }
+
+  await db.execute(sql`ALTER TABLE products ALTER COLUMN price_amount SET NOT NULL`);
+  console.log(`Migrated ${rows.length} products.`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Price migration failed", error);
+    process.exit(1);
+  });
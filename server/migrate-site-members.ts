@@ -0,0 +1,38 @@
+// Users used to have one role (owner, editor or support) that applied to every site. This gives
+// each of them a membership with that role on every existing site, so nobody loses access, and
+// makes them platform members. Remove the memberships they should not have afterwards through
+// DELETE /api/sites/:id/members/:userId. Run it once after pushing the schema:
+//
+//   npm run users:migrate-sites
+import { eq, inArray } from "drizzle-orm";
+import { db, connectDatabase } from "./db";
+import { users, sites, siteMembers, userRoles } from "@shared/schema";
+
+async function main() {
+  connectDatabase();
+
+  const legacyUsers = await db.select().from(users).where(inArray(users.role, [...userRoles]));
+  if (legacyUsers.length === 0) {
+    console.log("No users with a site role; nothing to migrate.");
+    return;
+  }
+
+  const allSites = await db.select({ id: sites.id }).from(sites);
+  for (const user of legacyUsers) {
+    await db.transaction(async (tx) => {
+      for (const site of allSites) {
+        await tx.insert(siteMembers).values({ siteId: site.id, userId: user.id, role: user.role }).onConflictDoNothing();
+      }
+      await tx.update(users).set({ role: "member" }).where(eq(users.id, user.id));
+    });
+    console.log(`user ${user.username}: ${user.role} of ${allSites.length} sites`);
+  }
+  console.log(`Migrated ${legacyUsers.length} users.`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Site member migration failed", error);
+    process.exit(1);
+  });
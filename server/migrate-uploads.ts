@@ -0,0 +1,168 @@
+// Moves files from the local uploads/ directory to the configured upload driver and rewrites
+// the /uploads/... references in site content to the driver's URLs.
+//
+//   UPLOAD_STORAGE=s3 S3_BUCKET=... S3_PREFIX=uploads/ npm run uploads:migrate -- [--dry-run] [--delete-local]
+import sharp from "sharp";
+import path from "path";
+import { storage } from "./storage";
+import { uploads, uploadsDir, LocalUploadDriver, rewriteUploadUrls } from "./uploads";
+import { type PageBlock } from "@shared/schema";
+
+const dryRun = process.argv.includes("--dry-run");
+const deleteLocal = process.argv.includes("--delete-local");
+
+// The new URL for a /uploads/<key> reference, or undefined when it does not change
+function migratedUrl(url: string | null | undefined): string | undefined {
+  const match = url?.match(/^\/uploads\/([\w.-]+)$/);
+  if (!match) return undefined;
+  const next = uploads.urlFor(match[1]);
+  return next === url ? undefined : next;
+}
+
+async function detectContentType(key: string, knownTypes: Map<string, string>): Promise<string> {
+  const known = knownTypes.get(key);
+  if (known) return known;
+  try {
+    const { format } = await sharp(path.join(uploadsDir, key)).metadata();
+    if (format) return format === "heif" ? "image/avif" : `image/${format}`;
+  } catch (error) {
+    // Not an image; stored without a specific type
+  }
+  return "application/octet-stream";
+}
+
+async function copyFiles() {
+  const local = new LocalUploadDriver();
+  const knownTypes = new Map<string, string>();
+  for (const site of await storage.getSites()) {
+    for (const item of await storage.getMediaItems(site.id)) {
+      knownTypes.set(item.filename, item.mimeType);
+      for (const variant of item.variants) knownTypes.set(variant.filename, variant.mimeType);
+    }
+  }
+
+  const files = await local.list();
+  for (const file of files) {
+    const contentType = await detectContentType(file.key, knownTypes);
+    console.log(`copy ${file.key} (${contentType})`);
+    if (dryRun) continue;
+
+    await uploads.put(file.key, path.join(uploadsDir, file.key), contentType);
+    if (deleteLocal) await local.delete(file.key);
+  }
+  return files.length;
+}
+
+function migrateBlocks(blocks: PageBlock[]): PageBlock[] | undefined {
+  let changed = false;
+  const migrated = blocks.map((block) => {
+    if (block.type !== "hero" && block.type !== "image") return block;
+    const imageUrl = migratedUrl(block.imageUrl);
+    if (!imageUrl) return block;
+    changed = true;
+    return { ...block, imageUrl };
+  });
+  return changed ? migrated : undefined;
+}
+
+async function rewriteReferences() {
+  let updated = 0;
+  const update = async (description: string, apply: () => Promise<unknown>) => {
+    console.log(`update ${description}`);
+    updated++;
+    if (!dryRun) await apply();
+  };
+
+  for (const site of await storage.getSites()) {
+    for (const item of await storage.getMediaItems(site.id)) {
+      const url = migratedUrl(item.url);
+      if (!url && !item.variants.some((variant) => migratedUrl(variant.url))) continue;
+      const variants = item.variants.map((variant) => ({ ...variant, url: migratedUrl(variant.url) ?? variant.url }));
+      await update(`media ${item.id} of site ${site.id}`, () =>
+        storage.updateMediaItem(site.id, item.id, { url: url ?? item.url, variants }));
+    }
+
+    const config = await storage.getSiteConfig(site.id);
+    if (config) {
+      const logoUrl = migratedUrl(config.logoUrl);
+      const faviconUrl = migratedUrl(config.faviconUrl);
+      if (logoUrl || faviconUrl) {
+        await update(`site configuration of site ${site.id}`, () =>
+          storage.updateSiteConfig(site.id, { companyName: config.companyName, logoUrl, faviconUrl }));
+      }
+    }
+
+    const draft = await storage.getSiteConfigDraft(site.id);
+    if (draft) {
+      const logoUrl = migratedUrl(draft.data.logoUrl);
+      const faviconUrl = migratedUrl(draft.data.faviconUrl);
+      if (logoUrl || faviconUrl) {
+        await update(`draft configuration of site ${site.id}`, () =>
+          storage.saveSiteConfigDraft(site.id, {
+            ...draft.data,
+            logoUrl: logoUrl ?? draft.data.logoUrl,
+            faviconUrl: faviconUrl ?? draft.data.faviconUrl,
+          }));
+      }
+    }
+
+    for (const project of await storage.getProjects(site.id)) {
+      const imageUrl = migratedUrl(project.imageUrl);
+      const body = project.body ? rewriteUploadUrls(project.body, migratedUrl) : undefined;
+      if (imageUrl || body) {
+        await update(`project ${project.id} of site ${site.id}`, () =>
+          storage.updateProject(site.id, project.id, { imageUrl, body }));
+      }
+
+      for (const image of await storage.getProjectImages(site.id, project.id)) {
+        const imageUrl = migratedUrl(image.imageUrl);
+        if (imageUrl) {
+          await update(`gallery image ${image.id} of project ${project.id}`, () =>
+            storage.updateProjectImage(site.id, image.id, { imageUrl }));
+        }
+      }
+    }
+
+    for (const product of await storage.getProducts(site.id)) {
+      const imageUrl = migratedUrl(product.imageUrl);
+      if (imageUrl) {
+        await update(`product ${product.id} of site ${site.id}`, () =>
+          storage.updateProduct(site.id, product.id, { imageUrl }));
+      }
+    }
+
+    // Trashed rows cannot be updated; they keep their reference until restored and migrated again
+    for (const trashed of await storage.getTrash(site.id)) {
+      if (trashed.type !== "message" && migratedUrl(trashed.item.imageUrl)) {
+        console.warn(`skip ${trashed.type} ${trashed.id} of site ${site.id}: it is in the trash`);
+      }
+    }
+
+    for (const page of await storage.getPages(site.id)) {
+      const blocks = migrateBlocks(page.blocks);
+      if (blocks) {
+        await update(`page ${page.id} of site ${site.id}`, () =>
+          storage.updatePage(site.id, page.id, { blocks }));
+      }
+    }
+  }
+  return updated;
+}
+
+async function main() {
+  if (uploads.name === "local") {
+    console.log("UPLOAD_STORAGE is local; there is nothing to migrate to.");
+    return;
+  }
+
+  const copied = await copyFiles();
+  const updated = await rewriteReferences();
+  console.log(`${dryRun ? "Would copy" : "Copied"} ${copied} files and ${dryRun ? "update" : "updated"} ${updated} records.`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Upload migration failed", error);
+    process.exit(1);
+  });
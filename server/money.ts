@@ -0,0 +1,31 @@
+// Prices are stored as integers in the currency's minor unit (cents for EUR)
+
+export function minorUnitDigits(currency: string): number {
+  return new Intl.NumberFormat("en", { style: "currency", currency }).resolvedOptions().maximumFractionDigits ?? 2;
+}
+
+export function formatMoney(amount: number, currency: string, locale: string): string {
+  const digits = minorUnitDigits(currency);
+  return new Intl.NumberFormat(locale, { style: "currency", currency }).format(amount / 10 ** digits);
+}
+
+// Reads a free-text price such as "€2.500", "€ 1.250,50" or "€450,-" into minor units. Dutch
+// notation comes first: a dot followed by exactly three digits is a thousands separator.
+export function parseMoney(text: string, currency = "EUR"): number | undefined {
+  const cleaned = text.replace(/[^\d.,]/g, "");
+  if (!/\d/.test(cleaned)) return undefined;
+
+  const lastComma = cleaned.lastIndexOf(",");
+  const lastDot = cleaned.lastIndexOf(".");
+  let decimalIndex = -1;
+  if (lastComma > lastDot) {
+    decimalIndex = lastComma;
+  } else if (lastDot >= 0 && cleaned.length - lastDot - 1 !== 3) {
+    decimalIndex = lastDot;
+  }
+
+  const whole = (decimalIndex >= 0 ? cleaned.slice(0, decimalIndex) : cleaned).replace(/[.,]/g, "");
+  const fraction = decimalIndex >= 0 ? cleaned.slice(decimalIndex + 1).replace(/[.,]/g, "") : "";
+  const value = parseFloat(`${whole || "0"}.${fraction || "0"}`);
+  return Math.round(value * 10 ** minorUnitDigits(currency));
+}
@@ -0,0 +1,121 @@
+import type { Request } from "express";
+import { randomBytes } from "crypto";
+import { storage, InsufficientStockError } from "./storage";
+import { priceCartItems } from "./cart";
+import { paymentProvider, type PaymentEvent } from "./payments";
+import { siteOrigin } from "./seo";
+import { emitSiteEvent } from "./events";
+import { type Cart, type CheckoutInput, type Order, type OrderStatus } from "@shared/schema";
+
+// Statuses an order can move to from each status
+export const orderTransitions: Record<OrderStatus, OrderStatus[]> = {
+  pending: ["paid", "failed", "cancelled"],
+  paid: ["fulfilled", "cancelled", "refunded"],
+  fulfilled: ["refunded"],
+  failed: [],
+  cancelled: [],
+  refunded: [],
+};
+
+export class OrderError extends Error {
+  constructor(public status: number, message: string, public details?: unknown) {
+    super(message);
+  }
+}
+
+// Re-prices the cart, places the order and starts the payment
+export async function checkout(req: Request, cart: Cart, input: CheckoutInput): Promise<{ order: Order; checkoutUrl: string }> {
+  if (!paymentProvider) {
+    throw new OrderError(503, "Payments are not configured");
+  }
+  const site = req.site!;
+  const priced = await priceCartItems(site.id, await storage.getCartItems(site.id, cart.id));
+  if (priced.lines.length === 0) {
+    throw new OrderError(400, "The cart is empty");
+  }
+  if (priced.problems.length > 0 || !priced.currency) {
+    throw new OrderError(409, "The cart cannot be ordered as it is", priced.problems);
+  }
+  if (input.expectedTotalAmount !== undefined && input.expectedTotalAmount !== priced.totalAmount) {
+    throw new OrderError(409, "Prices have changed since the cart was shown", { totalAmount: priced.totalAmount });
+  }
+
+  const { expectedTotalAmount, ...customer } = input;
+  let order: Order;
+  try {
+    order = await storage.placeOrder(site.id, {
+      ...customer,
+      reference: randomBytes(6).toString("hex").toUpperCase(),
+      status: "pending",
+      currency: priced.currency,
+      totalAmount: priced.totalAmount,
+    }, priced.lines.map(({ cartItemId, problem, ...line }) => line));
+  } catch (error) {
+    if (error instanceof InsufficientStockError) {
+      throw new OrderError(409, "A product in the cart just went out of stock");
+    }
+    throw error;
+  }
+  await storage.clearCart(site.id, cart.id);
+  emitSiteEvent(site.id, "order.created", order);
+
+  const origin = siteOrigin(req, site);
+  try {
+    const payment = await paymentProvider.createPayment(order, {
+      returnUrl: `${origin}/checkout/complete?order=${order.reference}`,
+      webhookUrl: `${origin}/api/payments/${paymentProvider.name}/webhook`,
+    });
+    const updated = await storage.updateOrder(site.id, order.id, {
+      paymentProvider: paymentProvider.name,
+      paymentId: payment.paymentId,
+    });
+    return { order: updated!, checkoutUrl: payment.checkoutUrl };
+  } catch (error) {
+    const failed = await storage.updateOrder(site.id, order.id, { status: "failed" });
+    await storage.restockOrder(site.id, order.id);
+    emitSiteEvent(site.id, "order.updated", failed!);
+    throw new OrderError(502, "The payment could not be started");
+  }
+}
+
+// Moves an order to a new status, refunding or cancelling the payment and returning
+// the items to stock where that applies
+export async function changeOrderStatus(
+  siteId: number,
+  order: Order,
+  status: OrderStatus,
+  options: { actorId?: number; reportedByProvider?: boolean } = {},
+): Promise<Order> {
+  if (!orderTransitions[order.status as OrderStatus]?.includes(status)) {
+    throw new OrderError(409, `An order that is ${order.status} cannot become ${status}`);
+  }
+
+  // Status changes made here are passed on to the provider, unless the provider reported them
+  if (paymentProvider && order.paymentProvider === paymentProvider.name && order.paymentId && !options.reportedByProvider) {
+    try {
+      if (status === "refunded" || (status === "cancelled" && order.status !== "pending")) {
+        await paymentProvider.refundPayment(order);
+      } else if (status === "cancelled") {
+        await paymentProvider.cancelPayment(order);
+      }
+    } catch (error) {
+      throw new OrderError(502, "The payment provider refused the change");
+    }
+  }
+
+  const updated = await storage.updateOrder(siteId, order.id, { status }, options.actorId);
+  if (status === "cancelled" || status === "failed") {
+    await storage.restockOrder(siteId, order.id);
+  }
+  emitSiteEvent(siteId, "order.updated", updated!);
+  return updated!;
+}
+
+export async function handlePaymentEvent(siteId: number, providerName: string, event: PaymentEvent): Promise<Order | undefined> {
+  const order = await storage.getOrderByPayment(siteId, providerName, event.paymentId);
+  if (!order || order.status === event.status) return order;
+
+  // Providers may repeat or reorder webhooks; events that no longer apply are ignored
+  if (!orderTransitions[order.status as OrderStatus]?.includes(event.status)) return order;
+  return changeOrderStatus(siteId, order, event.status, { reportedByProvider: true });
+}
@@ -0,0 +1,135 @@
+import type { Request } from "express";
+import type { IncomingMessage } from "http";
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { type Order } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface Request {
+      rawBody?: Buffer; // the JSON body as received, for checking webhook signatures
+    }
+  }
+}
+
+// The verify hook of express.json(): providers sign the bytes they send, which re-serializing
+// the parsed body does not reproduce
+export function captureRawBody(req: IncomingMessage, _res: unknown, buf: Buffer) {
+  (req as Request).rawBody = buf;
+}
+
+export type PaymentStatus = "paid" | "failed" | "cancelled" | "refunded";
+
+export interface PaymentEvent {
+  paymentId: string;
+  status: PaymentStatus;
+}
+
+export interface CreatedPayment {
+  paymentId: string;
+  checkoutUrl: string; // where the customer completes the payment
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+  createPayment(order: Order, urls: { returnUrl: string; webhookUrl: string }): Promise<CreatedPayment>;
+  cancelPayment(order: Order): Promise<void>;
+  refundPayment(order: Order): Promise<void>;
+  // Verifies a webhook request; returns undefined when it is not authentic
+  parseWebhook(req: Request): PaymentEvent | undefined;
+}
+
+interface MockPayment {
+  paymentId: string;
+  orderReference: string;
+  amount: number;
+  currency: string;
+  status: "open" | PaymentStatus;
+  returnUrl: string;
+  webhookUrl: string;
+}
+
+// Keeps payments in memory and signs its webhooks with MOCK_PAYMENT_SECRET. The simulator
+// stands in for the provider's hosted payment page in development and tests.
+export class MockPaymentProvider implements PaymentProvider {
+  readonly name = "mock";
+  private secret = process.env.MOCK_PAYMENT_SECRET || randomBytes(32).toString("hex");
+  private payments = new Map<string, MockPayment>();
+
+  async createPayment(order: Order, urls: { returnUrl: string; webhookUrl: string }): Promise<CreatedPayment> {
+    const paymentId = `mock_${randomBytes(12).toString("hex")}`;
+    this.payments.set(paymentId, {
+      paymentId,
+      orderReference: order.reference,
+      amount: order.totalAmount,
+      currency: order.currency,
+      status: "open",
+      ...urls,
+    });
+    return { paymentId, checkoutUrl: `/api/payments/mock/${paymentId}` };
+  }
+
+  async cancelPayment(order: Order) {
+    const payment = order.paymentId ? this.payments.get(order.paymentId) : undefined;
+    if (payment?.status === "open") payment.status = "cancelled";
+  }
+
+  async refundPayment(order: Order) {
+    const payment = order.paymentId ? this.payments.get(order.paymentId) : undefined;
+    if (!payment || payment.status !== "paid") {
+      throw new Error("Only paid payments can be refunded");
+    }
+    payment.status = "refunded";
+  }
+
+  sign(body: string | Buffer): string {
+    return createHmac("sha256", this.secret).update(body).digest("hex");
+  }
+
+  parseWebhook(req: Request): PaymentEvent | undefined {
+    if (!req.rawBody) return undefined;
+    const signature = Buffer.from(String(req.get("x-mock-signature") ?? ""));
+    const expected = Buffer.from(this.sign(req.rawBody));
+    if (signature.length !== expected.length || !timingSafeEqual(signature, expected)) return undefined;
+
+    const { paymentId, status } = req.body ?? {};
+    if (typeof paymentId !== "string" || !["paid", "failed", "cancelled", "refunded"].includes(status)) {
+      return undefined;
+    }
+    return { paymentId, status };
+  }
+
+  getPayment(paymentId: string): MockPayment | undefined {
+    return this.payments.get(paymentId);
+  }
+
+  // Completes an open payment and delivers the signed webhook the way a real provider would
+  async simulate(paymentId: string, status: "paid" | "failed" | "cancelled"): Promise<MockPayment | undefined> {
+    const payment = this.payments.get(paymentId);
+    if (!payment || payment.status !== "open") return undefined;
+
+    payment.status = status;
+    const body = JSON.stringify({ paymentId, status });
+    const response = await fetch(payment.webhookUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "X-Mock-Signature": this.sign(body) },
+      body,
+    });
+    if (!response.ok) {
+      throw new Error(`Webhook delivery failed with status ${response.status}`);
+    }
+    return payment;
+  }
+}
+
+// Picks the provider from PAYMENT_PROVIDER. The mock provider is refused in production
+// unless ALLOW_MOCK_PAYMENTS=true, so nobody can mark real orders as paid.
+export function createPaymentProvider(): PaymentProvider | undefined {
+  const name = process.env.PAYMENT_PROVIDER || "mock";
+  if (name === "mock") {
+    const allowed = process.env.NODE_ENV !== "production" || process.env.ALLOW_MOCK_PAYMENTS === "true";
+    return allowed ? new MockPaymentProvider() : undefined;
+  }
+  throw new Error(`Unknown PAYMENT_PROVIDER "${name}"`);
+}
+
+export const paymentProvider = createPaymentProvider();
@@ -0,0 +1,101 @@
+import type { Request, Response } from "express";
+import { storage } from "./storage";
+import { hasPermission, type Permission } from "./auth";
+import { onSiteEvent, type SiteEvent } from "./events";
+
+// Recent events per site, so clients that reconnect get what they missed
+const historySize = 200;
+const heartbeatInterval = 25 * 1000;
+const history = new Map<number, SiteEvent[]>();
+
+onSiteEvent((event) => {
+  const events = history.get(event.siteId) ?? [];
+  events.push(event);
+  if (events.length > historySize) events.shift();
+  history.set(event.siteId, events);
+});
+
+// Admins only receive events about things they may see
+const eventPermissions: Record<string, Permission> = {
+  message: "messages:read",
+  project: "content:write",
+  product: "content:write",
+  page: "content:write",
+  config: "config:write",
+  order: "orders:read",
+};
+
+function mayReceive(req: Request, event: SiteEvent): boolean {
+  const permission = eventPermissions[event.type.split(".")[0]];
+  return permission !== undefined && hasPermission(req, permission);
+}
+
+// The events after the given one, or undefined when it is no longer (or never was) in the history
+function eventsSince(siteId: number, lastEventId: string): SiteEvent[] | undefined {
+  const events = history.get(siteId) ?? [];
+  const index = events.findIndex((event) => event.id === lastEventId);
+  return index === -1 ? undefined : events.slice(index + 1);
+}
+
+function write(res: Response, name: string, data: unknown, id?: string) {
+  res.write(`${id ? `id: ${id}\n` : ""}event: ${name}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+async function writeUnreadCount(req: Request, res: Response) {
+  const count = await storage.countMessages(req.site!.id, { isRead: false, isSpam: false });
+  write(res, "unread", { count });
+}
+
+// Streams site events to a signed-in admin as Server-Sent Events. Browsers reconnect on
+// their own and send the Last-Event-ID header; when the missed events are no longer in
+// the history a "reset" event tells the client to reload its data instead.
+export async function streamSiteEvents(req: Request, res: Response) {
+  const siteId = req.site!.id;
+  const lastEventId = req.get("last-event-id") ?? (typeof req.query.lastEventId === "string" ? req.query.lastEventId : undefined);
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no", // keeps nginx from buffering the stream
+  });
+  res.write("retry: 3000\n\n");
+
+  // Events that happen while the replay is written are queued so the order holds
+  let queue: SiteEvent[] | undefined = [];
+  const unsubscribe = onSiteEvent((event) => {
+    if (event.siteId !== siteId || !mayReceive(req, event)) return;
+    if (queue) return void queue.push(event);
+    write(res, event.type, event.data, event.id);
+    if (event.type.startsWith("message.")) {
+      writeUnreadCount(req, res).catch((error) => console.error("Counting unread messages failed", error));
+    }
+  });
+  const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), heartbeatInterval);
+  req.on("close", () => {
+    unsubscribe();
+    clearInterval(heartbeat);
+  });
+
+  try {
+    if (lastEventId) {
+      const missed = eventsSince(siteId, lastEventId);
+      if (missed) {
+        for (const event of missed) {
+          if (mayReceive(req, event)) write(res, event.type, event.data, event.id);
+        }
+      } else {
+        write(res, "reset", {});
+      }
+    }
+    if (hasPermission(req, "messages:read")) await writeUnreadCount(req, res);
+  } catch (error) {
+    console.error("Starting the event stream failed", error);
+  }
+
+  const queued = queue;
+  queue = undefined;
+  for (const event of queued) {
+    write(res, event.type, event.data, event.id);
+  }
+}
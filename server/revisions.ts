@@ -0,0 +1,118 @@
+import type { Express, Request } from "express";
+import { type AnyZodObject } from "zod";
+import { storage, diffRecords } from "./storage";
+import { requirePermission, type Permission } from "./auth";
+import { type Revision, type RevisionEntityType } from "@shared/schema";
+
+interface RevisionRoutesOptions {
+  basePath: string; // e.g. "/api/projects/:id"
+  entityType: RevisionEntityType;
+  label: string; // used in error messages, e.g. "Project"
+  permission: Permission;
+  schema: AnyZodObject; // what the update endpoint accepts; restored values must pass it too
+  getCurrent(req: Request): Promise<{ id: number } | undefined>;
+  restore(req: Request, entityId: number, values: Record<string, unknown>): Promise<object | undefined>;
+}
+
+// Fields that identify a row rather than describe it, its place in listings and the trash state;
+// never restored from a revision
+function revisionValues(revision: Revision): Record<string, unknown> {
+  const { id, siteId, createdAt, position, featured, deletedAt, ...values } = revision.data;
+  return values;
+}
+
+// Revisions keep whatever was valid when they were made, so they are checked against the current
+// schema before they are restored. Nulls clear nullable columns, which the form schemas leave out.
+function parseRevisionValues(schema: AnyZodObject, values: Record<string, unknown>) {
+  const nulls = Object.entries(values).filter(([key, value]) => value === null && key in schema.shape);
+  const parsed = schema.safeParse(Object.fromEntries(Object.entries(values).filter(([, value]) => value !== null)));
+  if (!parsed.success) return parsed;
+  return { success: true as const, data: { ...Object.fromEntries(nulls), ...parsed.data } as Record<string, unknown> };
+}
+
+// Registers list, diff and restore endpoints for the revisions of one kind of entity
+export function registerRevisionRoutes(app: Express, options: RevisionRoutesOptions) {
+  const { basePath, entityType, label, permission } = options;
+
+  async function findRevision(req: Request, entityId: number) {
+    const revision = await storage.getRevision(req.site!.id, parseInt(req.params.revisionId));
+    if (!revision || revision.entityType !== entityType || revision.entityId !== entityId) {
+      return undefined;
+    }
+    return revision;
+  }
+
+  app.get(`${basePath}/revisions`, requirePermission(permission), async (req, res) => {
+    try {
+      const current = await options.getCurrent(req);
+      if (!current) {
+        return res.status(404).json({ message: `${label} not found` });
+      }
+      const revisions = await storage.getRevisions(req.site!.id, entityType, current.id);
+      res.json(revisions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch revisions" });
+    }
+  });
+
+  // Compares a revision with another revision (?against=<revisionId>) or with the live version
+  app.get(`${basePath}/revisions/:revisionId/diff`, requirePermission(permission), async (req, res) => {
+    try {
+      const current = await options.getCurrent(req);
+      if (!current) {
+        return res.status(404).json({ message: `${label} not found` });
+      }
+      const revision = await findRevision(req, current.id);
+      if (!revision) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+
+      let against: Record<string, unknown> = JSON.parse(JSON.stringify(current));
+      let againstRevisionId: number | null = null;
+      if (typeof req.query.against === "string") {
+        const other = await storage.getRevision(req.site!.id, parseInt(req.query.against));
+        if (!other || other.entityType !== entityType || other.entityId !== current.id) {
+          return res.status(404).json({ message: "Revision not found" });
+        }
+        against = other.data;
+        againstRevisionId = other.id;
+      }
+
+      res.json({
+        revisionId: revision.id,
+        againstRevisionId,
+        changes: diffRecords(revision.data, against),
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to compare revisions" });
+    }
+  });
+
+  app.post(`${basePath}/revisions/:revisionId/restore`, requirePermission(permission), async (req, res) => {
+    try {
+      const current = await options.getCurrent(req);
+      if (!current) {
+        return res.status(404).json({ message: `${label} not found` });
+      }
+      const revision = await findRevision(req, current.id);
+      if (!revision) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+      const values = parseRevisionValues(options.schema, revisionValues(revision));
+      if (!values.success) {
+        const [issue] = values.error.issues;
+        return res.status(400).json({
+          message: `This revision no longer passes validation: ${issue.path.join(".")} ${issue.message}`,
+          issues: values.error.issues,
+        });
+      }
+      const restored = await options.restore(req, current.id, values.data);
+      if (!restored) {
+        return res.status(404).json({ message: `${label} not found` });
+      }
+      res.json(restored);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to restore revision" });
+    }
+  });
+}
@@ -0,0 +1,42 @@
+import { marked } from "marked";
+import sanitizeHtml from "sanitize-html";
+import { type RichTextFormat } from "@shared/schema";
+
+// What editors may use in rich content: text markup, headings, lists, tables, links and
+// images. Scripts, styles, iframes, event handlers and javascript: URLs are removed.
+const sanitizeOptions: sanitizeHtml.IOptions = {
+  allowedTags: [
+    "h1", "h2", "h3", "h4", "h5", "h6", "p", "br", "hr", "strong", "b", "em", "i", "u", "s", "sub", "sup", "mark", "small",
+    "blockquote", "cite", "q", "code", "pre", "ul", "ol", "li", "a", "img", "figure", "figcaption",
+    "table", "thead", "tbody", "tr", "th", "td",
+  ],
+  allowedAttributes: {
+    a: ["href", "title", "target", "rel"],
+    img: ["src", "alt", "title", "width", "height", "loading"],
+    th: ["colspan", "rowspan", "scope"],
+    td: ["colspan", "rowspan"],
+    ol: ["start"],
+  },
+  allowedSchemes: ["http", "https", "mailto", "tel"],
+  allowedSchemesByTag: { img: ["http", "https"] },
+  allowProtocolRelative: false,
+  transformTags: {
+    // Links that open a new tab must not get access to this window
+    a: (tagName, attribs) => ({
+      tagName,
+      attribs: attribs.target === "_blank" ? { ...attribs, rel: "noopener noreferrer" } : attribs,
+    }),
+  },
+};
+
+export function sanitizeRichHtml(html: string): string {
+  return sanitizeHtml(html, sanitizeOptions);
+}
+
+// Renders stored rich content to HTML that is safe to put on a page. Markdown may contain
+// inline HTML, so its output is sanitized as well.
+export function renderRichText(source: string | null | undefined, format: RichTextFormat | string): string {
+  if (!source) return "";
+  const html = format === "html" ? source : (marked.parse(source, { async: false, gfm: true }) as string);
+  return sanitizeRichHtml(html);
+}
@@ -1,209 +1,1673 @@
 import type { Express, Request } from "express";
 import { createServer, type Server } from "http";
+import { timingSafeEqual } from "crypto";
 import { storage } from "./storage";
+import { setupAuth, requireAuth, requirePermission, hasPermission, hashPassword, toPublicUser } from "./auth";
+import { resolveSite, siteFromOrigin } from "./sites";
+import { registerRevisionRoutes } from "./revisions";
+import {
+  createMediaFromUpload, resolveImage, findMediaUsages, removeMediaFiles, cleanupSiteMedia, mediaCleanupGraceDays,
+  withImages,
+} from "./media";
+import { InvalidImageError, assertImages } from "./images";
+import { uploads, isValidUploadKey } from "./uploads";
+import { buildSitemap, buildRobotsTxt, homePageSlug, siteOrigin } from "./seo";
+import { presentProducts, variantOptionsError, hasDuplicateVariant } from "./catalog";
+import { findCart, findOrCreateCart, priceCartItems, presentCart } from "./cart";
+import { checkout, changeOrderStatus, handlePaymentEvent, OrderError } from "./orders";
+import { paymentProvider, MockPaymentProvider } from "./payments";
+import { searchConfig, renderSnippet } from "./search";
+import { deliverReply, receiveReply } from "./email";
+import { emitSiteEvent } from "./events";
+import { generateWebhookSecret, redeliver, webhookUrlError } from "./webhooks";
+import { streamSiteEvents } from "./realtime";
+import { resolveTheme, checkThemeContrast, buildThemeCss, themePresets } from "./theme";
+import { exportSiteArchive, importSiteArchive, SiteArchiveError } from "./site-archive";
+import { buildStaticSite } from "./static-site";
+import { trashPermissions, purgeDate } from "./trash";
+import { messagesPerIp, messagesPerEmail, issueFormToken, formTokenError, scoreMessage } from "./spam";
+import { resolveLocale, localize, localizeOne, findMissingTranslations, isTranslatableField } from "./i18n";
+import { renderRichText, sanitizeRichHtml } from "./rich-text";
 import multer from "multer";
+import fs from "fs";
 import path from "path";
-import { insertSiteConfigSchema, insertProjectSchema, insertProductSchema, insertMessageSchema, insertMessageReplySchema } from "@shared/schema";
+import os from "os";
+import { z } from "zod";
+import {
+  insertSiteConfigSchema, applyThemePresetSchema, insertProjectSchema, insertProductSchema, messageSubmissionSchema, updateMessageSpamSchema,
+  insertMessageReplySchema, inboundEmailSchema,
+  createSiteUserSchema, siteMemberSchema, userRoles, auditLogFiltersSchema, type UserRole,
+  insertSiteSchema, insertSiteDomainSchema,
+  insertPageSchema, reorderSchema, reorderBlocksSchema,
+  insertTranslationSchema, translationFiltersSchema, type TranslatableEntityType,
+  updateMediaSchema, mediaFiltersSchema,
+  projectListQuerySchema, productListQuerySchema, messageListQuerySchema,
+  insertProductCategorySchema, insertProductVariantSchema,
+  projectGalleryUploadSchema, insertProjectImageSchema, updateProjectImageSchema,
+  searchQuerySchema, messageSearchQuerySchema,
+  cartItemSchema, checkoutSchema, updateOrderStatusSchema, orderFiltersSchema,
+  insertWebhookSchema, webhookDeliveryFiltersSchema, siteImportQuerySchema, trashEntityTypes, trashFiltersSchema,
+  type InsertSiteConfig, type InsertProject, type InsertProduct, type InsertMessage, type Media, type ProjectImage, type PageBlock, type Paginated,
+  type SearchHit, type SearchResult
+} from "@shared/schema";
 
 interface MulterRequest extends Request {
   file?: Express.Multer.File;
+  files?: Express.Multer.File[] | { [field: string]: Express.Multer.File[] };
 }
 
-// Configure multer for file uploads
+// The image pipeline moves the uploads it accepts; whatever multer left behind after a
+// rejected or failed request is removed here
+async function removeTempUploads(req: MulterRequest) {
+  const files = req.file ? [req.file] : [];
+  if (req.files) files.push(...(Array.isArray(req.files) ? req.files : Object.values(req.files).flat()));
+  await Promise.all(files.map((file) => fs.promises.rm(file.path, { force: true })));
+}
+
+// Configure multer for file uploads. Files land in a temporary directory and are
+// handed to the upload driver once the image pipeline has processed them.
 const upload = multer({
-  dest: 'uploads/',
+  dest: path.join(os.tmpdir(), 'uploads'),
   limits: {
     fileSize: 5 * 1024 * 1024, // 5MB limit
   },
-  fileFilter: (req, file, cb) => {
-    // Allow images only
-    if (file.mimetype.startsWith('image/')) {
-      cb(null, true);
-    } else {
-      cb(new Error('Only image files are allowed'));
+  // No fileFilter: the client-supplied mimetype is not trusted, the image pipeline
+  // checks the file content instead
+});
+// Projects take their cover image and up to 20 gallery images in one form
+const projectUpload = upload.fields([{ name: 'image', maxCount: 1 }, { name: 'gallery', maxCount: 20 }]);
+
+function uploadedFiles(req: MulterRequest, field: string): Express.Multer.File[] {
+  if (!req.files) return [];
+  return Array.isArray(req.files) ? req.files : req.files[field] ?? [];
+}
+
+// Site archives hold every upload of a site, so they get a larger limit
+const archiveUpload = multer({
+  dest: path.join(os.tmpdir(), 'uploads'),
+  limits: {
+    fileSize: 500 * 1024 * 1024, // 500MB limit
+  },
+});
+
+
+// The envelope every paginated list endpoint responds with
+function paginated<T>(items: T[], total: number, page: { limit: number; offset: number }): Paginated<T> {
+  return { items, total, limit: page.limit, offset: page.offset };
+}
+
+function presentSearchHits(hits: SearchHit[]): SearchResult[] {
+  return hits.map(({ slug, snippet, ...hit }) => ({
+    ...hit,
+    snippet: renderSnippet(snippet),
+    url: hit.type === "page" ? (slug === homePageSlug ? "/" : `/${slug}`) : `/${hit.type}s/${hit.id}`,
+  }));
+}
+
+function hasValidDefaultLocale(site: { locales?: string[]; defaultLocale?: string }): boolean {
+  const locales = site.locales ?? ["nl"];
+  const defaultLocale = site.defaultLocale ?? "nl";
+  return locales.includes(defaultLocale);
+}
+
+// The SKU, category and featured flag of a product must be valid within its site
+async function checkProductReferences(
+  siteId: number,
+  product: Partial<InsertProduct>,
+  productId?: number,
+): Promise<{ status: number; message: string } | undefined> {
+  if (product.sku && await storage.isSkuTaken(siteId, product.sku, { productId })) {
+    return { status: 409, message: "This SKU is already in use" };
+  }
+  if (product.categoryId && !(await storage.getProductCategory(siteId, product.categoryId))) {
+    return { status: 400, message: "Category not found" };
+  }
+  if (product.featured && !(productId && (await storage.getProduct(siteId, productId))?.featured)) {
+    const featuredError = await featuredLimitError(siteId, "product");
+    if (featuredError) return { status: 409, message: featuredError };
+  }
+  return undefined;
+}
+
+// Featuring one more project or product has to stay within the site's limit for that listing
+async function featuredLimitError(siteId: number, type: "project" | "product"): Promise<string | undefined> {
+  const config = await storage.getSiteConfig(siteId);
+  const limit = (type === "project" ? config?.featuredProjectsLimit : config?.featuredProductsLimit) ?? 6;
+  const featured = type === "project"
+    ? await storage.countProjects(siteId, { featured: true })
+    : await storage.countProducts(siteId, { featured: true });
+  return featured >= limit ? `At most ${limit} ${type}${limit === 1 ? "" : "s"} can be featured at a time` : undefined;
+}
+
+// HTML bodies are stored sanitized; Markdown is sanitized when it is rendered
+function sanitizeProjectBody(project: Partial<InsertProject>, currentFormat = "markdown") {
+  if (project.body && (project.bodyFormat ?? currentFormat) === "html") {
+    project.body = sanitizeRichHtml(project.body);
+  }
+}
+
+// Appends media items to the end of a project's gallery, captioned in the order they were uploaded
+async function addToGallery(
+  siteId: number,
+  projectId: number,
+  items: Media[],
+  captions: string[] = [],
+  actorId?: number,
+): Promise<ProjectImage[]> {
+  const position = (await storage.getProjectImages(siteId, projectId)).length;
+  const added: ProjectImage[] = [];
+  for (const [index, item] of items.entries()) {
+    added.push(await storage.createProjectImage(siteId, projectId, {
+      imageMediaId: item.id,
+      imageUrl: item.url,
+      caption: captions[index] || null,
+      alt: item.alt,
+      position: position + index,
+    }, actorId));
+  }
+  return added;
+}
+
+async function membersOf(siteId: number) {
+  const members = await storage.getSiteMembers(siteId);
+  const users = await storage.getUsers();
+  return members.flatMap((member) => {
+    const user = users.find((user) => user.id === member.userId);
+    return user ? [toPublicUser(user, member.role as UserRole)] : [];
+  });
+}
+
+// Stores a contact form message after spam scoring. Spam stays out of the integrations,
+// like it stays out of the inbox.
+async function receiveMessage(siteId: number, messageData: InsertMessage) {
+  const verdict = await scoreMessage(siteId, messageData);
+  const { isSpam, spamScore, spamReasons, ...message } = await storage.createMessage(siteId, messageData, verdict);
+  if (!isSpam) emitSiteEvent(siteId, "message.created", message);
+  return message;
+}
+
+async function findTranslatableEntity(siteId: number, entityType: TranslatableEntityType, entityId: number) {
+  switch (entityType) {
+    case "siteConfig": {
+      const config = await storage.getSiteConfig(siteId);
+      return config?.id === entityId ? config : undefined;
+    }
+    case "page":
+      return storage.getPage(siteId, entityId);
+    case "project":
+      return storage.getProject(siteId, entityId);
+    case "product":
+      return storage.getProduct(siteId, entityId);
+  }
+}
+
+export async function registerRoutes(app: Express): Promise<Server> {
+  // Authentication: sessions plus /api/auth/login, /api/auth/logout and /api/auth/me
+  setupAuth(app);
+
+  // Sites (agency-wide, not scoped to the site of the current request; platform admins only)
+  app.get("/api/sites", requirePermission("sites:manage"), async (req, res) => {
+    try {
+      const sites = await storage.getSites();
+      res.json(sites);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch sites" });
+    }
+  });
+
+  app.post("/api/sites", requirePermission("sites:manage"), async (req, res) => {
+    try {
+      const siteData = insertSiteSchema.parse(req.body);
+      if (!hasValidDefaultLocale(siteData)) {
+        return res.status(400).json({ message: "The default locale must be one of the site's locales" });
+      }
+      if (await storage.getSiteByHostname(siteData.hostname)) {
+        return res.status(409).json({ message: "Hostname already in use" });
+      }
+      const site = await storage.createSite(siteData, req.user!.id);
+      await storage.updateSiteConfig(site.id, { companyName: site.name }, req.user!.id);
+      res.json(site);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid site data" });
+    }
+  });
+
+  app.put("/api/sites/:id", requirePermission("sites:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const siteData = insertSiteSchema.partial().parse(req.body);
+      const currentSite = await storage.getSite(id);
+      if (!currentSite) {
+        return res.status(404).json({ message: "Site not found" });
+      }
+      if (!hasValidDefaultLocale({ ...currentSite, ...siteData })) {
+        return res.status(400).json({ message: "The default locale must be one of the site's locales" });
+      }
+      if (siteData.hostname) {
+        const existing = await storage.getSiteByHostname(siteData.hostname);
+        if (existing && existing.id !== id) {
+          return res.status(409).json({ message: "Hostname already in use" });
+        }
+      }
+      const site = await storage.updateSite(id, siteData, req.user!.id);
+      if (!site) {
+        return res.status(404).json({ message: "Site not found" });
+      }
+      res.json(site);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid site data" });
+    }
+  });
+
+  app.delete("/api/sites/:id", requirePermission("sites:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deleted = await storage.deleteSite(id, req.user!.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Site not found" });
+      }
+      res.json({ message: "Site deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete site" });
+    }
+  });
+
+  app.get("/api/sites/:id/domains", requirePermission("sites:manage"), async (req, res) => {
+    try {
+      const siteId = parseInt(req.params.id);
+      const domains = await storage.getSiteDomains(siteId);
+      res.json(domains);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch site domains" });
+    }
+  });
+
+  app.post("/api/sites/:id/domains", requirePermission("sites:manage"), async (req, res) => {
+    try {
+      const siteId = parseInt(req.params.id);
+      const domainData = insertSiteDomainSchema.parse(req.body);
+      if (!(await storage.getSite(siteId))) {
+        return res.status(404).json({ message: "Site not found" });
+      }
+      if (await storage.getSiteByHostname(domainData.domain)) {
+        return res.status(409).json({ message: "Domain already in use" });
+      }
+      const domain = await storage.addSiteDomain(siteId, domainData, req.user!.id);
+      res.json(domain);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid domain data" });
+    }
+  });
+
+  app.delete("/api/sites/:id/domains/:domainId", requirePermission("sites:manage"), async (req, res) => {
+    try {
+      const siteId = parseInt(req.params.id);
+      const domainId = parseInt(req.params.domainId);
+      const deleted = await storage.removeSiteDomain(siteId, domainId, req.user!.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Domain not found" });
+      }
+      res.json({ message: "Domain removed successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to remove domain" });
+    }
+  });
+
+  app.get("/api/sites/:id/members", requirePermission("sites:manage"), async (req, res) => {
+    try {
+      const siteId = parseInt(req.params.id);
+      if (!(await storage.getSite(siteId))) {
+        return res.status(404).json({ message: "Site not found" });
+      }
+      res.json(await membersOf(siteId));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch site members" });
+    }
+  });
+
+  // Adds an existing user to a site, or changes their role there
+  app.post("/api/sites/:id/members", requirePermission("sites:manage"), async (req, res) => {
+    try {
+      const siteId = parseInt(req.params.id);
+      const { username, role } = siteMemberSchema.parse(req.body);
+      if (!(await storage.getSite(siteId))) {
+        return res.status(404).json({ message: "Site not found" });
+      }
+      const user = await storage.getUserByUsername(username);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      const member = await storage.setSiteMember(siteId, user.id, role, req.user!.id);
+      res.json(toPublicUser(user, member.role as UserRole));
+    } catch (error) {
+      res.status(400).json({ message: "Invalid member data" });
+    }
+  });
+
+  app.delete("/api/sites/:id/members/:userId", requirePermission("sites:manage"), async (req, res) => {
+    try {
+      const removed = await storage.removeSiteMember(parseInt(req.params.id), parseInt(req.params.userId), req.user!.id);
+      if (!removed) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      res.json({ message: "Member removed successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to remove member" });
+    }
+  });
+
+  // Audit entries that belong to no site, such as user accounts
+  app.get("/api/sites/audit-logs", requirePermission("sites:manage"), async (req, res) => {
+    try {
+      const filters = auditLogFiltersSchema.parse(req.query);
+      res.json(await storage.getAuditLogs({ ...filters, siteId: null }));
+    } catch (error) {
+      res.status(400).json({ message: "Invalid audit log filters" });
+    }
+  });
+
+  // Contact forms of static builds post here. They have no form token, so the site comes
+  // from the Origin header and only pages on the site's own hostnames are accepted.
+  // Visitors are sent back to the thank-you page of the static site.
+  app.post("/api/messages/static-form", async (req, res) => {
+    try {
+      const source = await siteFromOrigin(req);
+      if (!source) {
+        return res.status(403).json({ message: "Forms can only be posted from the site itself" });
+      }
+      const ipRetryAfter = messagesPerIp.hit(req.ip ?? "unknown");
+      if (ipRetryAfter !== undefined) {
+        res.set("Retry-After", String(ipRetryAfter));
+        return res.status(429).json({ message: "Too many messages, please try again later" });
+      }
+      const { website, formToken, ...messageData } = messageSubmissionSchema.parse(req.body);
+      const thankYou = `${source.origin}/thank-you/`;
+      if (website) {
+        return res.redirect(303, thankYou);
+      }
+      const emailRetryAfter = messagesPerEmail.hit(`${source.site.id}:${messageData.email.toLowerCase()}`);
+      if (emailRetryAfter !== undefined) {
+        res.set("Retry-After", String(emailRetryAfter));
+        return res.status(429).json({ message: "Too many messages, please try again later" });
+      }
+      await receiveMessage(source.site.id, messageData);
+      res.redirect(303, thankYou);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid message data" });
+    }
+  });
+
+  // Every route registered below is scoped to the site resolved from the request host
+  app.use("/api", resolveSite);
+
+  // Users: the members of the current site and their role on it
+  app.get("/api/users", requirePermission("users:manage"), async (req, res) => {
+    try {
+      res.json(await membersOf(req.site!.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch users" });
+    }
+  });
+
+  // Creates an account that is a member of the current site only
+  app.post("/api/users", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const { role, ...userData } = createSiteUserSchema.parse(req.body);
+      if (await storage.getUserByUsername(userData.username)) {
+        return res.status(409).json({ message: "Username already exists" });
+      }
+      const user = await storage.createUser({
+        ...userData,
+        password: await hashPassword(userData.password),
+      }, req.user!.id);
+      await storage.setSiteMember(req.site!.id, user.id, role, req.user!.id);
+      res.json(toPublicUser(user, role));
+    } catch (error) {
+      res.status(400).json({ message: "Invalid user data" });
+    }
+  });
+
+  app.put("/api/users/:id/role", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { role } = z.object({ role: z.enum(userRoles) }).parse(req.body);
+      if (id === req.user!.id) {
+        return res.status(400).json({ message: "You cannot change your own role" });
+      }
+      const user = await storage.getUser(id);
+      if (!user || !(await storage.getSiteMember(req.site!.id, id))) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      await storage.setSiteMember(req.site!.id, id, role, req.user!.id);
+      res.json(toPublicUser(user, role));
+    } catch (error) {
+      res.status(400).json({ message: "Invalid role" });
+    }
+  });
+
+  // Takes the user off the current site; the account itself stays
+  app.delete("/api/users/:id", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (id === req.user!.id) {
+        return res.status(400).json({ message: "You cannot remove yourself" });
+      }
+      const removed = await storage.removeSiteMember(req.site!.id, id, req.user!.id);
+      if (!removed) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json({ message: "User removed from the site" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to remove user" });
+    }
+  });
+
+  // Site Configuration
+  app.get("/api/config", async (req, res) => {
+    try {
+      const locale = resolveLocale(req, res);
+      let config = await storage.getSiteConfig(req.site!.id);
+
+      // ?preview=true shows the unpublished draft to users who may edit it
+      if (req.query.preview === "true" && hasPermission(req, "config:write")) {
+        const draft = await storage.getSiteConfigDraft(req.site!.id);
+        if (config && draft) {
+          config = { ...config, ...draft.data };
+        }
+      }
+      res.json(config && await localizeOne(req.site!, locale, "siteConfig", config));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch site configuration" });
+    }
+  });
+
+  // Changes are saved as a draft; they go live through POST /api/config/publish
+  app.put("/api/config", requirePermission("config:write"), async (req, res) => {
+    try {
+      const validatedConfig = insertSiteConfigSchema.parse(req.body);
+      for (const field of ["logo", "favicon"] as const) {
+        const mediaId = validatedConfig[`${field}MediaId`];
+        if (mediaId === undefined || mediaId === null) continue;
+        const item = await storage.getMediaItem(req.site!.id, mediaId);
+        if (!item) {
+          return res.status(400).json({ message: `The ${field} was not found in the media library` });
+        }
+        validatedConfig[`${field}Url`] = item.url;
+      }
+      // Unreadable text is refused; weaker contrast elsewhere is only reported
+      const themeIssues = checkThemeContrast(resolveTheme(validatedConfig));
+      const themeErrors = themeIssues.filter((issue) => issue.severity === "error");
+      if (themeErrors.length > 0) {
+        return res.status(400).json({ message: themeErrors[0].message, issues: themeErrors });
+      }
+      const draft = await storage.saveSiteConfigDraft(req.site!.id, validatedConfig, req.user!.id);
+      res.json({ ...draft, themeWarnings: themeIssues });
+    } catch (error) {
+      res.status(400).json({ message: "Invalid configuration data" });
+    }
+  });
+
+  app.get("/api/config/draft", requirePermission("config:write"), async (req, res) => {
+    try {
+      const draft = await storage.getSiteConfigDraft(req.site!.id);
+      if (!draft) {
+        return res.status(404).json({ message: "No draft configuration" });
+      }
+      res.json(draft);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch draft configuration" });
+    }
+  });
+
+  app.delete("/api/config/draft", requirePermission("config:write"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteSiteConfigDraft(req.site!.id, req.user!.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "No draft configuration" });
+      }
+      res.json({ message: "Draft discarded successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to discard draft configuration" });
+    }
+  });
+
+  app.post("/api/config/publish", requirePermission("config:write"), async (req, res) => {
+    try {
+      const draft = await storage.getSiteConfigDraft(req.site!.id);
+      if (!draft) {
+        return res.status(404).json({ message: "No draft configuration" });
+      }
+      const config = await storage.updateSiteConfig(req.site!.id, draft.data, req.user!.id);
+      await storage.deleteSiteConfigDraft(req.site!.id, req.user!.id);
+      emitSiteEvent(req.site!.id, "config.published", config);
+      res.json(config);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to publish configuration" });
+    }
+  });
+
+  // Theme
+  app.get("/api/theme.css", async (req, res) => {
+    try {
+      let config = await storage.getSiteConfig(req.site!.id);
+      const preview = req.query.preview === "true" && hasPermission(req, "config:write");
+      if (preview) {
+        const draft = await storage.getSiteConfigDraft(req.site!.id);
+        if (config && draft) {
+          config = { ...config, ...draft.data };
+        }
+      }
+      res
+        .type("text/css")
+        .set("Cache-Control", preview ? "no-store" : "public, max-age=300")
+        .send(buildThemeCss(resolveTheme(config)));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to build theme" });
+    }
+  });
+
+  app.get("/api/theme/presets", requirePermission("config:write"), (req, res) => {
+    res.json(Object.entries(themePresets).map(([name, preset]) => ({ name, ...preset })));
+  });
+
+  // Puts the colours and font of a preset in the draft configuration
+  app.post("/api/config/theme-preset", requirePermission("config:write"), async (req, res) => {
+    try {
+      const { preset: name } = applyThemePresetSchema.parse(req.body);
+      const preset = themePresets[name];
+      if (!preset) {
+        return res.status(404).json({ message: "Theme preset not found" });
+      }
+      const draft = await storage.getSiteConfigDraft(req.site!.id);
+      const config = await storage.getSiteConfig(req.site!.id);
+      if (!draft && !config) {
+        return res.status(404).json({ message: "Site configuration not found" });
+      }
+      let base: InsertSiteConfig;
+      if (draft) {
+        base = draft.data;
+      } else {
+        const { id, siteId, ...current } = config!;
+        base = current as InsertSiteConfig;
+      }
+      const saved = await storage.saveSiteConfigDraft(req.site!.id, { ...base, ...preset.theme } as InsertSiteConfig, req.user!.id);
+      res.json(saved);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid theme preset" });
+    }
+  });
+
+  registerRevisionRoutes(app, {
+    basePath: "/api/config",
+    entityType: "siteConfig",
+    label: "Site configuration",
+    permission: "config:write",
+    schema: insertSiteConfigSchema,
+    getCurrent: (req) => storage.getSiteConfig(req.site!.id),
+    restore: async (req, _id, values) => {
+      const config = await storage.updateSiteConfig(req.site!.id, values as InsertSiteConfig, req.user!.id);
+      emitSiteEvent(req.site!.id, "config.published", config);
+      return config;
+    },
+  });
+
+  // Pages
+  app.get("/api/pages", async (req, res) => {
+    try {
+      const locale = resolveLocale(req, res);
+      const pages = await storage.getPages(req.site!.id);
+      // ?preview=true includes draft pages for users who may edit them
+      const preview = req.query.preview === "true" && hasPermission(req, "content:write");
+      const visible = preview ? pages : pages.filter((page) => page.status === "published");
+      res.json(await localize(req.site!, locale, "page", visible));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch pages" });
+    }
+  });
+
+  app.get("/api/pages/:slug", async (req, res) => {
+    try {
+      const locale = resolveLocale(req, res);
+      const page = await storage.getPageBySlug(req.site!.id, req.params.slug);
+      const preview = req.query.preview === "true" && hasPermission(req, "content:write");
+      if (!page || (page.status !== "published" && !preview)) {
+        return res.status(404).json({ message: "Page not found" });
+      }
+      res.json(await localizeOne(req.site!, locale, "page", page));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch page" });
+    }
+  });
+
+  app.post("/api/pages", requirePermission("content:write"), async (req, res) => {
+    try {
+      const pageData = insertPageSchema.parse(req.body);
+      if (await storage.getPageBySlug(req.site!.id, pageData.slug)) {
+        return res.status(409).json({ message: "A page with this slug already exists" });
+      }
+      // New pages go to the end of the navigation unless a position is given
+      if (pageData.navOrder === undefined) {
+        const pages = await storage.getPages(req.site!.id);
+        pageData.navOrder = pages.length;
+      }
+      const page = await storage.createPage(req.site!.id, pageData, req.user!.id);
+      emitSiteEvent(req.site!.id, "page.created", page);
+      res.json(page);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid page data" });
+    }
+  });
+
+  // Registered before /api/pages/:id so "order" is not taken for an id
+  app.put("/api/pages/order", requirePermission("content:write"), async (req, res) => {
+    try {
+      const { ids } = reorderSchema.parse(req.body);
+      const reordered = await storage.reorderPages(req.site!.id, ids, req.user!.id);
+      if (!reordered) {
+        return res.status(400).json({ message: "The order must list every page exactly once" });
+      }
+      const pages = await storage.getPages(req.site!.id);
+      for (const page of pages) emitSiteEvent(req.site!.id, "page.updated", page);
+      res.json(pages);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid page order" });
+    }
+  });
+
+  app.put("/api/pages/:id", requirePermission("content:write"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const pageData = insertPageSchema.partial().parse(req.body);
+      if (pageData.slug) {
+        const existing = await storage.getPageBySlug(req.site!.id, pageData.slug);
+        if (existing && existing.id !== id) {
+          return res.status(409).json({ message: "A page with this slug already exists" });
+        }
+      }
+      const page = await storage.updatePage(req.site!.id, id, pageData, req.user!.id);
+      if (!page) {
+        return res.status(404).json({ message: "Page not found" });
+      }
+      emitSiteEvent(req.site!.id, "page.updated", page);
+      res.json(page);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid page data" });
+    }
+  });
+
+  app.put("/api/pages/:id/blocks/order", requirePermission("content:write"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { blockIds } = reorderBlocksSchema.parse(req.body);
+      const page = await storage.getPage(req.site!.id, id);
+      if (!page) {
+        return res.status(404).json({ message: "Page not found" });
+      }
+
+      const blocks = blockIds.map((blockId) => page.blocks.find((block) => block.id === blockId));
+      if (blocks.length !== page.blocks.length || new Set(blockIds).size !== blockIds.length || blocks.some((block) => !block)) {
+        return res.status(400).json({ message: "The order must list every block exactly once" });
+      }
+      const updated = await storage.updatePage(req.site!.id, id, { blocks: blocks as PageBlock[] }, req.user!.id);
+      emitSiteEvent(req.site!.id, "page.updated", updated!);
+      res.json(updated);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid block order" });
+    }
+  });
+
+  app.delete("/api/pages/:id", requirePermission("content:write"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deleted = await storage.deletePage(req.site!.id, id, req.user!.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Page not found" });
+      }
+      emitSiteEvent(req.site!.id, "page.deleted", { id });
+      res.json({ message: "Page deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete page" });
+    }
+  });
+
+  // Locales & Translations
+  app.get("/api/locales", async (req, res) => {
+    res.json({ locales: req.site!.locales, defaultLocale: req.site!.defaultLocale });
+  });
+
+  app.get("/api/translations", requirePermission("content:write"), async (req, res) => {
+    try {
+      const { entityType, entityId, locale } = translationFiltersSchema.parse(req.query);
+      const translations = await storage.getTranslations(
+        req.site!.id,
+        entityType,
+        entityId !== undefined ? [entityId] : undefined,
+        locale,
+      );
+      res.json(translations);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid translation filters" });
+    }
+  });
+
+  // Lists every translatable field that has no translation yet, for one locale or all non-default locales
+  app.get("/api/translations/missing", requirePermission("content:write"), async (req, res) => {
+    try {
+      const site = req.site!;
+      const requested = typeof req.query.locale === "string" ? req.query.locale : undefined;
+      if (requested && !site.locales.includes(requested)) {
+        return res.status(400).json({ message: "Locale is not enabled for this site" });
+      }
+      const locales = requested ? [requested] : site.locales.filter((locale) => locale !== site.defaultLocale);
+      const missing = await findMissingTranslations(site, locales);
+      res.json(missing);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to find missing translations" });
+    }
+  });
+
+  app.put("/api/translations", requirePermission("content:write"), async (req, res) => {
+    try {
+      const site = req.site!;
+      const translationData = insertTranslationSchema.parse(req.body);
+      // Site configuration texts need the same permission as editing the configuration itself
+      if (translationData.entityType === "siteConfig" && !hasPermission(req, "config:write")) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+      if (!site.locales.includes(translationData.locale) || translationData.locale === site.defaultLocale) {
+        return res.status(400).json({ message: "Translations are only stored for the site's additional locales" });
+      }
+
+      const entity = await findTranslatableEntity(site.id, translationData.entityType, translationData.entityId);
+      if (!entity) {
+        return res.status(404).json({ message: "Translated entity not found" });
+      }
+      if (!isTranslatableField(translationData.entityType, entity, translationData.field)) {
+        return res.status(400).json({ message: "Field is not translatable" });
+      }
+
+      const translation = await storage.upsertTranslation(site.id, translationData, req.user!.id);
+      res.json(translation);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid translation data" });
+    }
+  });
+
+  app.delete("/api/translations/:id", requirePermission("content:write"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deleted = await storage.deleteTranslation(req.site!.id, id, req.user!.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Translation not found" });
+      }
+      res.json({ message: "Translation deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete translation" });
+    }
+  });
+
+  // Media Library
+  app.get("/api/media", requirePermission("content:write"), async (req, res) => {
+    try {
+      const filters = mediaFiltersSchema.parse(req.query);
+      const items = await storage.getMediaItems(req.site!.id, filters);
+      res.json(items);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid media filters" });
+    }
+  });
+
+  app.post("/api/media", requirePermission("content:write"), upload.single('file'), async (req: MulterRequest, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+      const details = updateMediaSchema.parse(req.body);
+      const item = await createMediaFromUpload(req.site!.id, req.file, req.user!.id);
+      const updated = details.alt !== undefined || details.tags !== undefined
+        ? await storage.updateMediaItem(req.site!.id, item.id, details, req.user!.id)
+        : item;
+      res.json(updated);
+    } catch (error) {
+      const message = error instanceof InvalidImageError ? error.message : "Invalid media data";
+      res.status(400).json({ message });
+    } finally {
+      await removeTempUploads(req);
+    }
+  });
+
+  // Registered before /api/media/:id so "cleanup" is not taken for an id
+  app.post("/api/media/cleanup", requirePermission("content:write"), async (req, res) => {
+    try {
+      const dryRun = req.query.dryRun === "true";
+      const removed = await cleanupSiteMedia(req.site!, { dryRun, graceDays: mediaCleanupGraceDays });
+      res.json({ dryRun, removed });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to clean up media" });
+    }
+  });
+
+  app.get("/api/media/:id", requirePermission("content:write"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const item = await storage.getMediaItem(req.site!.id, id);
+      if (!item) {
+        return res.status(404).json({ message: "Media not found" });
+      }
+      res.json({ ...item, usages: await findMediaUsages(req.site!.id, item) });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch media" });
+    }
+  });
+
+  app.put("/api/media/:id", requirePermission("content:write"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const details = updateMediaSchema.parse(req.body);
+      const item = await storage.updateMediaItem(req.site!.id, id, details, req.user!.id);
+      if (!item) {
+        return res.status(404).json({ message: "Media not found" });
+      }
+      res.json(item);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid media data" });
+    }
+  });
+
+  app.delete("/api/media/:id", requirePermission("content:write"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const item = await storage.getMediaItem(req.site!.id, id);
+      if (!item) {
+        return res.status(404).json({ message: "Media not found" });
+      }
+      const usages = await findMediaUsages(req.site!.id, item);
+      if (usages.length > 0 && req.query.force !== "true") {
+        return res.status(409).json({ message: "Media is still in use", usages });
+      }
+      await storage.deleteMediaItem(req.site!.id, id, req.user!.id);
+      await removeMediaFiles(item);
+      res.json({ message: "Media deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete media" });
+    }
+  });
+
+  // Projects
+  app.get("/api/projects", async (req, res) => {
+    try {
+      const query = projectListQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid project query" });
+      }
+      const { limit, offset, sort, order, ...filters } = query.data;
+      const locale = resolveLocale(req, res);
+      const [projects, total] = await Promise.all([
+        storage.getProjects(req.site!.id, filters, { limit, offset, sort, order }),
+        storage.countProjects(req.site!.id, filters),
+      ]);
+      const localized = await localize(req.site!, locale, "project", projects);
+      res.json(paginated(await withImages(req.site!.id, localized), total, query.data));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch projects" });
+    }
+  });
+
+  app.get("/api/projects/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const locale = resolveLocale(req, res);
+      const project = await storage.getProject(req.site!.id, id);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      const [withImage] = await withImages(req.site!.id, [await localizeOne(req.site!, locale, "project", project)]);
+      const gallery = await withImages(req.site!.id, await storage.getProjectImages(req.site!.id, id));
+      res.json({ ...withImage, bodyHtml: renderRichText(withImage.body, withImage.bodyFormat), gallery });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch project" });
+    }
+  });
+
+  app.post("/api/projects", requirePermission("content:write"), projectUpload, async (req: MulterRequest, res) => {
+    try {
+      const projectData = insertProjectSchema.parse(req.body);
+      const { galleryCaptions } = projectGalleryUploadSchema.parse(req.body);
+      await assertImages([...uploadedFiles(req, 'image'), ...uploadedFiles(req, 'gallery')]);
+      sanitizeProjectBody(projectData);
+      const featuredError = projectData.featured ? await featuredLimitError(req.site!.id, "project") : undefined;
+      if (featuredError) {
+        return res.status(409).json({ message: featuredError });
+      }
+      // New projects go to the end of the listing unless a position is given
+      if (projectData.position === undefined) {
+        projectData.position = await storage.countProjects(req.site!.id);
+      }
+      
+      // Use the uploaded file, or an existing media library item given as imageMediaId
+      const image = await resolveImage(req.site!.id, uploadedFiles(req, 'image')[0], projectData.imageMediaId, req.user!.id);
+      if (image === null) {
+        return res.status(400).json({ message: "Image not found in media library" });
+      }
+      if (image) {
+        projectData.imageMediaId = image.id;
+        projectData.imageUrl = image.url;
+      }
+      const galleryItems: Media[] = [];
+      for (const file of uploadedFiles(req, 'gallery')) {
+        galleryItems.push(await createMediaFromUpload(req.site!.id, file, req.user!.id));
+      }
+
+      const project = await storage.createProject(req.site!.id, projectData, req.user!.id);
+      await addToGallery(req.site!.id, project.id, galleryItems, galleryCaptions, req.user!.id);
+      emitSiteEvent(req.site!.id, "project.created", project);
+      res.json(project);
+    } catch (error) {
+      const message = error instanceof InvalidImageError ? error.message : "Invalid project data";
+      res.status(400).json({ message });
+    } finally {
+      await removeTempUploads(req);
+    }
+  });
+
+  // Registered before /api/projects/:id so "order" is not taken for an id. The order has to list
+  // every project; a 409 means another admin added, removed or reordered projects in the meantime.
+  app.put("/api/projects/order", requirePermission("content:write"), async (req, res) => {
+    try {
+      const { ids } = reorderSchema.parse(req.body);
+      const reordered = await storage.reorderProjects(req.site!.id, ids, req.user!.id);
+      if (!reordered) {
+        return res.status(409).json({ message: "The order must list every project exactly once; reload the projects and try again" });
+      }
+      const projects = await storage.getProjects(req.site!.id);
+      for (const project of projects) emitSiteEvent(req.site!.id, "project.updated", project);
+      res.json(projects);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid project order" });
+    }
+  });
+
+  app.put("/api/projects/:id", requirePermission("content:write"), projectUpload, async (req: MulterRequest, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const projectData = insertProjectSchema.partial().parse(req.body);
+      const { galleryCaptions } = projectGalleryUploadSchema.parse(req.body);
+      await assertImages([...uploadedFiles(req, 'image'), ...uploadedFiles(req, 'gallery')]);
+      const existing = await storage.getProject(req.site!.id, id);
+      if (!existing) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      sanitizeProjectBody(projectData, existing.bodyFormat);
+      if (projectData.featured && !existing.featured) {
+        const featuredError = await featuredLimitError(req.site!.id, "project");
+        if (featuredError) {
+          return res.status(409).json({ message: featuredError });
+        }
+      }
+      
+      // Use the uploaded file, or an existing media library item given as imageMediaId
+      const image = await resolveImage(req.site!.id, uploadedFiles(req, 'image')[0], projectData.imageMediaId, req.user!.id);
+      if (image === null) {
+        return res.status(400).json({ message: "Image not found in media library" });
+      }
+      if (image) {
+        projectData.imageMediaId = image.id;
+        projectData.imageUrl = image.url;
+      }
+      const galleryItems: Media[] = [];
+      for (const file of uploadedFiles(req, 'gallery')) {
+        galleryItems.push(await createMediaFromUpload(req.site!.id, file, req.user!.id));
+      }
+
+      const project = await storage.updateProject(req.site!.id, id, projectData, req.user!.id);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      // Images uploaded with an update are added to the end of the gallery
+      await addToGallery(req.site!.id, id, galleryItems, galleryCaptions, req.user!.id);
+      emitSiteEvent(req.site!.id, "project.updated", project);
+      res.json(project);
+    } catch (error) {
+      const message = error instanceof InvalidImageError ? error.message : "Invalid project data";
+      res.status(400).json({ message });
+    } finally {
+      await removeTempUploads(req);
+    }
+  });
+
+  registerRevisionRoutes(app, {
+    basePath: "/api/projects/:id",
+    entityType: "project",
+    label: "Project",
+    permission: "content:write",
+    schema: insertProjectSchema.partial(),
+    getCurrent: (req) => storage.getProject(req.site!.id, parseInt(req.params.id)),
+    restore: async (req, id, values) => {
+      const project = await storage.updateProject(req.site!.id, id, values as Partial<InsertProject>, req.user!.id);
+      if (project) emitSiteEvent(req.site!.id, "project.updated", project);
+      return project;
+    },
+  });
+
+  app.delete("/api/projects/:id", requirePermission("content:write"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deleted = await storage.deleteProject(req.site!.id, id, req.user!.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      emitSiteEvent(req.site!.id, "project.deleted", { id });
+      res.json({ message: "Project moved to the trash" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete project" });
+    }
+  });
+
+  // Project Gallery
+  app.get("/api/projects/:id/gallery", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const project = await storage.getProject(req.site!.id, id);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      res.json(await withImages(req.site!.id, await storage.getProjectImages(req.site!.id, id)));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch gallery" });
+    }
+  });
+
+  // Takes image files in "images" with optional galleryCaptions, or one media library item as imageMediaId
+  app.post("/api/projects/:id/gallery", requirePermission("content:write"), upload.array('images', 20), async (req: MulterRequest, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const project = await storage.getProject(req.site!.id, id);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      const files = uploadedFiles(req, 'images');
+      let added: ProjectImage[];
+      if (files.length > 0) {
+        const { galleryCaptions } = projectGalleryUploadSchema.parse(req.body);
+        await assertImages(files);
+        const items: Media[] = [];
+        for (const file of files) {
+          items.push(await createMediaFromUpload(req.site!.id, file, req.user!.id));
+        }
+        added = await addToGallery(req.site!.id, id, items, galleryCaptions, req.user!.id);
+      } else {
+        const imageData = insertProjectImageSchema.parse(req.body);
+        const item = await storage.getMediaItem(req.site!.id, imageData.imageMediaId);
+        if (!item) {
+          return res.status(400).json({ message: "Image not found in media library" });
+        }
+        const position = imageData.position ?? (await storage.getProjectImages(req.site!.id, id)).length;
+        added = [await storage.createProjectImage(req.site!.id, id, {
+          ...imageData,
+          alt: imageData.alt ?? item.alt,
+          imageUrl: item.url,
+          position,
+        }, req.user!.id)];
+      }
+      emitSiteEvent(req.site!.id, "project.updated", project);
+      res.json(await withImages(req.site!.id, added));
+    } catch (error) {
+      const message = error instanceof InvalidImageError ? error.message : "Invalid gallery image";
+      res.status(400).json({ message });
+    } finally {
+      await removeTempUploads(req);
+    }
+  });
+
+  // Registered before /api/projects/:id/gallery/:imageId; works like PUT /api/projects/order
+  app.put("/api/projects/:id/gallery/order", requirePermission("content:write"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const project = await storage.getProject(req.site!.id, id);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      const { ids } = reorderSchema.parse(req.body);
+      const reordered = await storage.reorderProjectImages(req.site!.id, id, ids, req.user!.id);
+      if (!reordered) {
+        return res.status(409).json({ message: "The order must list every gallery image exactly once; reload the gallery and try again" });
+      }
+      emitSiteEvent(req.site!.id, "project.updated", project);
+      res.json(await withImages(req.site!.id, await storage.getProjectImages(req.site!.id, id)));
+    } catch (error) {
+      res.status(400).json({ message: "Invalid gallery order" });
+    }
+  });
+
+  app.put("/api/projects/:id/gallery/:imageId", requirePermission("content:write"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const imageId = parseInt(req.params.imageId);
+      const project = await storage.getProject(req.site!.id, id);
+      const existing = await storage.getProjectImage(req.site!.id, imageId);
+      if (!project || !existing || existing.projectId !== id) {
+        return res.status(404).json({ message: "Gallery image not found" });
+      }
+      const imageData = updateProjectImageSchema.parse(req.body);
+      const image = await storage.updateProjectImage(req.site!.id, imageId, imageData, req.user!.id);
+      emitSiteEvent(req.site!.id, "project.updated", project);
+      res.json(image);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid gallery image" });
+    }
+  });
+
+  // Removes the image from the gallery; the media item stays in the library
+  app.delete("/api/projects/:id/gallery/:imageId", requirePermission("content:write"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const imageId = parseInt(req.params.imageId);
+      const project = await storage.getProject(req.site!.id, id);
+      const existing = await storage.getProjectImage(req.site!.id, imageId);
+      if (!project || !existing || existing.projectId !== id) {
+        return res.status(404).json({ message: "Gallery image not found" });
+      }
+      await storage.deleteProjectImage(req.site!.id, imageId, req.user!.id);
+      emitSiteEvent(req.site!.id, "project.updated", project);
+      res.json({ message: "Gallery image removed" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to remove gallery image" });
+    }
+  });
+
+  // Products
+  app.get("/api/products", async (req, res) => {
+    try {
+      const query = productListQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid product query" });
+      }
+      const { limit, offset, sort, order, ...filters } = query.data;
+      const locale = resolveLocale(req, res);
+      const [products, total] = await Promise.all([
+        storage.getProducts(req.site!.id, filters, { limit, offset, sort, order }),
+        storage.countProducts(req.site!.id, filters),
+      ]);
+      const localized = await localize(req.site!, locale, "product", products);
+      const presented = await presentProducts(req.site!, locale, await withImages(req.site!.id, localized));
+      res.json(paginated(presented, total, query.data));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch products" });
+    }
+  });
+
+  app.get("/api/products/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const locale = resolveLocale(req, res);
+      const product = await storage.getProduct(req.site!.id, id);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      const withImage = await withImages(req.site!.id, [await localizeOne(req.site!, locale, "product", product)]);
+      const [presented] = await presentProducts(req.site!, locale, withImage);
+      res.json(presented);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch product" });
+    }
+  });
+
+  app.post("/api/products", requirePermission("content:write"), upload.single('image'), async (req: MulterRequest, res) => {
+    try {
+      const productData = insertProductSchema.parse(req.body);
+      const invalid = await checkProductReferences(req.site!.id, productData);
+      if (invalid) {
+        return res.status(invalid.status).json({ message: invalid.message });
+      }
+      // New products go to the end of the listing unless a position is given
+      if (productData.position === undefined) {
+        productData.position = await storage.countProducts(req.site!.id);
+      }
+
+      // Use the uploaded file, or an existing media library item given as imageMediaId
+      const image = await resolveImage(req.site!.id, req.file, productData.imageMediaId, req.user!.id);
+      if (image === null) {
+        return res.status(400).json({ message: "Image not found in media library" });
+      }
+      if (image) {
+        productData.imageMediaId = image.id;
+        productData.imageUrl = image.url;
+      }
+
+      const product = await storage.createProduct(req.site!.id, productData, req.user!.id);
+      emitSiteEvent(req.site!.id, "product.created", product);
+      res.json(product);
+    } catch (error) {
+      const message = error instanceof InvalidImageError ? error.message : "Invalid product data";
+      res.status(400).json({ message });
+    } finally {
+      await removeTempUploads(req);
+    }
+  });
+
+  // Registered before /api/products/:id; works like PUT /api/projects/order
+  app.put("/api/products/order", requirePermission("content:write"), async (req, res) => {
+    try {
+      const { ids } = reorderSchema.parse(req.body);
+      const reordered = await storage.reorderProducts(req.site!.id, ids, req.user!.id);
+      if (!reordered) {
+        return res.status(409).json({ message: "The order must list every product exactly once; reload the products and try again" });
+      }
+      const products = await storage.getProducts(req.site!.id);
+      for (const product of products) emitSiteEvent(req.site!.id, "product.updated", product);
+      res.json(products);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid product order" });
+    }
+  });
+
+  app.put("/api/products/:id", requirePermission("content:write"), upload.single('image'), async (req: MulterRequest, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const productData = insertProductSchema.partial().parse(req.body);
+      const invalid = await checkProductReferences(req.site!.id, productData, id);
+      if (invalid) {
+        return res.status(invalid.status).json({ message: invalid.message });
+      }
+
+      // Use the uploaded file, or an existing media library item given as imageMediaId
+      const image = await resolveImage(req.site!.id, req.file, productData.imageMediaId, req.user!.id);
+      if (image === null) {
+        return res.status(400).json({ message: "Image not found in media library" });
+      }
+      if (image) {
+        productData.imageMediaId = image.id;
+        productData.imageUrl = image.url;
+      }
+
+      const product = await storage.updateProduct(req.site!.id, id, productData, req.user!.id);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      emitSiteEvent(req.site!.id, "product.updated", product);
+      res.json(product);
+    } catch (error) {
+      const message = error instanceof InvalidImageError ? error.message : "Invalid product data";
+      res.status(400).json({ message });
+    } finally {
+      await removeTempUploads(req);
+    }
+  });
+
+  registerRevisionRoutes(app, {
+    basePath: "/api/products/:id",
+    entityType: "product",
+    label: "Product",
+    permission: "content:write",
+    schema: insertProductSchema.partial(),
+    getCurrent: (req) => storage.getProduct(req.site!.id, parseInt(req.params.id)),
+    restore: async (req, id, values) => {
+      const product = await storage.updateProduct(req.site!.id, id, values as Partial<InsertProduct>, req.user!.id);
+      if (product) emitSiteEvent(req.site!.id, "product.updated", product);
+      return product;
+    },
+  });
+
+  app.delete("/api/products/:id", requirePermission("content:write"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deleted = await storage.deleteProduct(req.site!.id, id, req.user!.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      emitSiteEvent(req.site!.id, "product.deleted", { id });
+      res.json({ message: "Product moved to the trash" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete product" });
+    }
+  });
+
+  // Product Variants
+  app.get("/api/products/:id/variants", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const product = await storage.getProduct(req.site!.id, id);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      const locale = resolveLocale(req, res);
+      const [presented] = await presentProducts(req.site!, locale, [product]);
+      res.json(presented.variants);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch variants" });
+    }
+  });
+
+  app.post("/api/products/:id/variants", requirePermission("content:write"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const product = await storage.getProduct(req.site!.id, id);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      const variantData = insertProductVariantSchema.parse(req.body);
+      const optionsError = variantOptionsError(product, variantData.optionValues);
+      if (optionsError) {
+        return res.status(400).json({ message: optionsError });
+      }
+      if (await hasDuplicateVariant(req.site!.id, id, variantData.optionValues)) {
+        return res.status(409).json({ message: "A variant with these options already exists" });
+      }
+      if (variantData.sku && await storage.isSkuTaken(req.site!.id, variantData.sku)) {
+        return res.status(409).json({ message: "This SKU is already in use" });
+      }
+      const variant = await storage.createProductVariant(req.site!.id, id, variantData, req.user!.id);
+      emitSiteEvent(req.site!.id, "product.updated", (await storage.getProduct(req.site!.id, id))!);
+      res.json(variant);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid variant data" });
     }
-  }
-});
+  });
 
-export async function registerRoutes(app: Express): Promise<Server> {
-  // Site Configuration
-  app.get("/api/config", async (req, res) => {
+  app.put("/api/products/:id/variants/:variantId", requirePermission("content:write"), async (req, res) => {
     try {
-      const config = await storage.getSiteConfig();
-      res.json(config);
+      const id = parseInt(req.params.id);
+      const variantId = parseInt(req.params.variantId);
+      const product = await storage.getProduct(req.site!.id, id);
+      const existing = await storage.getProductVariant(req.site!.id, variantId);
+      if (!product || !existing || existing.productId !== id) {
+        return res.status(404).json({ message: "Variant not found" });
+      }
+      const variantData = insertProductVariantSchema.partial().parse(req.body);
+      if (variantData.optionValues) {
+        const optionsError = variantOptionsError(product, variantData.optionValues);
+        if (optionsError) {
+          return res.status(400).json({ message: optionsError });
+        }
+        if (await hasDuplicateVariant(req.site!.id, id, variantData.optionValues, variantId)) {
+          return res.status(409).json({ message: "A variant with these options already exists" });
+        }
+      }
+      if (variantData.sku && await storage.isSkuTaken(req.site!.id, variantData.sku, { variantId })) {
+        return res.status(409).json({ message: "This SKU is already in use" });
+      }
+      const variant = await storage.updateProductVariant(req.site!.id, variantId, variantData, req.user!.id);
+      emitSiteEvent(req.site!.id, "product.updated", (await storage.getProduct(req.site!.id, id))!);
+      res.json(variant);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch site configuration" });
+      res.status(400).json({ message: "Invalid variant data" });
     }
   });
 
-  app.put("/api/config", async (req, res) => {
+  app.delete("/api/products/:id/variants/:variantId", requirePermission("content:write"), async (req, res) => {
     try {
-      const validatedConfig = insertSiteConfigSchema.parse(req.body);
-      const config = await storage.updateSiteConfig(validatedConfig);
-      res.json(config);
+      const id = parseInt(req.params.id);
+      const variantId = parseInt(req.params.variantId);
+      const existing = await storage.getProductVariant(req.site!.id, variantId);
+      if (!existing || existing.productId !== id) {
+        return res.status(404).json({ message: "Variant not found" });
+      }
+      await storage.deleteProductVariant(req.site!.id, variantId, req.user!.id);
+      emitSiteEvent(req.site!.id, "product.updated", (await storage.getProduct(req.site!.id, id))!);
+      res.json({ message: "Variant deleted successfully" });
     } catch (error) {
-      res.status(400).json({ message: "Invalid configuration data" });
+      res.status(500).json({ message: "Failed to delete variant" });
     }
   });
 
-  // Projects
-  app.get("/api/projects", async (req, res) => {
+  // Product Categories
+  app.get("/api/product-categories", async (req, res) => {
     try {
-      const projects = await storage.getProjects();
-      res.json(projects);
+      const categories = await storage.getProductCategories(req.site!.id);
+      res.json(categories);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch projects" });
+      res.status(500).json({ message: "Failed to fetch product categories" });
     }
   });
 
-  app.get("/api/projects/:id", async (req, res) => {
+  app.post("/api/product-categories", requirePermission("content:write"), async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const project = await storage.getProject(id);
-      if (!project) {
-        return res.status(404).json({ message: "Project not found" });
+      const categoryData = insertProductCategorySchema.parse(req.body);
+      if (await storage.getProductCategoryBySlug(req.site!.id, categoryData.slug)) {
+        return res.status(409).json({ message: "A category with this slug already exists" });
       }
-      res.json(project);
+      const category = await storage.createProductCategory(req.site!.id, categoryData, req.user!.id);
+      res.json(category);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch project" });
+      res.status(400).json({ message: "Invalid category data" });
     }
   });
 
-  app.post("/api/projects", upload.single('image'), async (req: MulterRequest, res) => {
+  app.put("/api/product-categories/:id", requirePermission("content:write"), async (req, res) => {
     try {
-      const projectData = insertProjectSchema.parse(req.body);
-      
-      // Add image URL if file was uploaded
-      if (req.file) {
-        projectData.imageUrl = `/uploads/${req.file.filename}`;
+      const id = parseInt(req.params.id);
+      const categoryData = insertProductCategorySchema.partial().parse(req.body);
+      if (categoryData.slug) {
+        const existing = await storage.getProductCategoryBySlug(req.site!.id, categoryData.slug);
+        if (existing && existing.id !== id) {
+          return res.status(409).json({ message: "A category with this slug already exists" });
+        }
       }
-
-      const project = await storage.createProject(projectData);
-      res.json(project);
+      const category = await storage.updateProductCategory(req.site!.id, id, categoryData, req.user!.id);
+      if (!category) {
+        return res.status(404).json({ message: "Category not found" });
+      }
+      res.json(category);
     } catch (error) {
-      res.status(400).json({ message: "Invalid project data" });
+      res.status(400).json({ message: "Invalid category data" });
     }
   });
 
-  app.put("/api/projects/:id", upload.single('image'), async (req: MulterRequest, res) => {
+  app.delete("/api/product-categories/:id", requirePermission("content:write"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const projectData = insertProjectSchema.partial().parse(req.body);
-      
-      // Add image URL if file was uploaded
-      if (req.file) {
-        projectData.imageUrl = `/uploads/${req.file.filename}`;
+      const deleted = await storage.deleteProductCategory(req.site!.id, id, req.user!.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Category not found" });
       }
+      res.json({ message: "Category deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete category" });
+    }
+  });
 
-      const project = await storage.updateProject(id, projectData);
-      if (!project) {
-        return res.status(404).json({ message: "Project not found" });
-      }
-      res.json(project);
+  // Cart
+  app.get("/api/cart", async (req, res) => {
+    try {
+      const cart = await findCart(req);
+      const items = cart ? await storage.getCartItems(req.site!.id, cart.id) : [];
+      res.json(presentCart(await priceCartItems(req.site!.id, items), resolveLocale(req, res)));
     } catch (error) {
-      res.status(400).json({ message: "Invalid project data" });
+      res.status(500).json({ message: "Failed to fetch cart" });
     }
   });
 
-  app.delete("/api/projects/:id", async (req, res) => {
+  // Sets the quantity of a product (variant) in the cart; quantity 0 removes it
+  app.put("/api/cart/items", async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const deleted = await storage.deleteProject(id);
-      if (!deleted) {
-        return res.status(404).json({ message: "Project not found" });
+      const item = cartItemSchema.parse(req.body);
+      const product = await storage.getProduct(req.site!.id, item.productId);
+      if (!product || product.status !== "active") {
+        return res.status(404).json({ message: "Product not found" });
       }
-      res.json({ message: "Project deleted successfully" });
+      const variant = item.variantId ? await storage.getProductVariant(req.site!.id, item.variantId) : undefined;
+      if (item.variantId && variant?.productId !== product.id) {
+        return res.status(404).json({ message: "Variant not found" });
+      }
+      if (!variant && product.options.length > 0) {
+        return res.status(400).json({ message: "Choose a variant of this product" });
+      }
+      const stock = variant ? variant.stock : product.stock;
+      if (stock !== null && item.quantity > stock) {
+        return res.status(409).json({ message: stock === 0 ? "This product is out of stock" : `Only ${stock} left in stock` });
+      }
+
+      const cart = await findOrCreateCart(req, res);
+      await storage.setCartItem(req.site!.id, cart.id, { ...item, variantId: variant?.id ?? null });
+      const items = await storage.getCartItems(req.site!.id, cart.id);
+      res.json(presentCart(await priceCartItems(req.site!.id, items), resolveLocale(req, res)));
     } catch (error) {
-      res.status(500).json({ message: "Failed to delete project" });
+      res.status(400).json({ message: "Invalid cart item" });
     }
   });
 
-  // Products
-  app.get("/api/products", async (req, res) => {
+  app.delete("/api/cart", async (req, res) => {
     try {
-      const products = await storage.getProducts();
-      res.json(products);
+      const cart = await findCart(req);
+      if (cart) await storage.clearCart(req.site!.id, cart.id);
+      res.json({ message: "Cart emptied successfully" });
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch products" });
+      res.status(500).json({ message: "Failed to empty cart" });
     }
   });
 
-  app.get("/api/products/:id", async (req, res) => {
+  // Checkout
+  app.post("/api/checkout", async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const product = await storage.getProduct(id);
-      if (!product) {
-        return res.status(404).json({ message: "Product not found" });
+      const input = checkoutSchema.parse(req.body);
+      const cart = await findCart(req);
+      if (!cart) {
+        return res.status(400).json({ message: "The cart is empty" });
       }
-      res.json(product);
+      res.json(await checkout(req, cart, input));
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch product" });
+      if (error instanceof OrderError) {
+        return res.status(error.status).json({ message: error.message, details: error.details });
+      }
+      res.status(400).json({ message: "Invalid checkout data" });
     }
   });
 
-  app.post("/api/products", upload.single('image'), async (req: MulterRequest, res) => {
+  // The status page the customer returns to after paying; the reference is the only key
+  app.get("/api/checkout/orders/:reference", async (req, res) => {
     try {
-      const productData = insertProductSchema.parse(req.body);
-      
-      // Add image URL if file was uploaded
-      if (req.file) {
-        productData.imageUrl = `/uploads/${req.file.filename}`;
+      const order = await storage.getOrderByReference(req.site!.id, req.params.reference);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
       }
+      const lines = await storage.getOrderLines(req.site!.id, order.id);
+      res.json({
+        reference: order.reference,
+        status: order.status,
+        currency: order.currency,
+        totalAmount: order.totalAmount,
+        createdAt: order.createdAt,
+        lines: lines.map(({ title, options, quantity, unitAmount, totalAmount }) => ({ title, options, quantity, unitAmount, totalAmount })),
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch order" });
+    }
+  });
 
-      const product = await storage.createProduct(productData);
-      res.json(product);
+  // Orders
+  app.get("/api/orders", requirePermission("orders:read"), async (req, res) => {
+    try {
+      const filters = orderFiltersSchema.parse(req.query);
+      const orders = await storage.getOrders(req.site!.id, filters);
+      res.json(orders);
     } catch (error) {
-      res.status(400).json({ message: "Invalid product data" });
+      res.status(400).json({ message: "Invalid order filters" });
     }
   });
 
-  app.put("/api/products/:id", upload.single('image'), async (req: MulterRequest, res) => {
+  app.get("/api/orders/:id", requirePermission("orders:read"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const productData = insertProductSchema.partial().parse(req.body);
-      
-      // Add image URL if file was uploaded
-      if (req.file) {
-        productData.imageUrl = `/uploads/${req.file.filename}`;
+      const order = await storage.getOrder(req.site!.id, id);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
       }
+      const lines = await storage.getOrderLines(req.site!.id, id);
+      res.json({ ...order, lines });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch order" });
+    }
+  });
 
-      const product = await storage.updateProduct(id, productData);
-      if (!product) {
-        return res.status(404).json({ message: "Product not found" });
+  app.put("/api/orders/:id/status", requirePermission("orders:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { status } = updateOrderStatusSchema.parse(req.body);
+      const order = await storage.getOrder(req.site!.id, id);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
       }
-      res.json(product);
+      res.json(await changeOrderStatus(req.site!.id, order, status, { actorId: req.user!.id }));
     } catch (error) {
-      res.status(400).json({ message: "Invalid product data" });
+      if (error instanceof OrderError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(400).json({ message: "Invalid order status" });
     }
   });
 
-  app.delete("/api/products/:id", async (req, res) => {
+  // Payments
+  if (paymentProvider instanceof MockPaymentProvider) {
+    const mockProvider = paymentProvider;
+
+    // Stands in for the provider's hosted payment page
+    app.get("/api/payments/mock/:paymentId", (req, res) => {
+      const payment = mockProvider.getPayment(req.params.paymentId);
+      if (!payment) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+      res.json(payment);
+    });
+
+    app.post("/api/payments/mock/:paymentId/simulate", async (req, res) => {
+      try {
+        const { status } = z.object({ status: z.enum(["paid", "failed", "cancelled"]) }).parse(req.body);
+        const payment = await mockProvider.simulate(req.params.paymentId, status);
+        if (!payment) {
+          return res.status(404).json({ message: "No open payment found" });
+        }
+        res.json(payment);
+      } catch (error) {
+        res.status(400).json({ message: "Invalid payment simulation" });
+      }
+    });
+  }
+
+  app.post("/api/payments/:provider/webhook", async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const deleted = await storage.deleteProduct(id);
-      if (!deleted) {
-        return res.status(404).json({ message: "Product not found" });
+      if (!paymentProvider || req.params.provider !== paymentProvider.name) {
+        return res.status(404).json({ message: "Payment provider not found" });
       }
-      res.json({ message: "Product deleted successfully" });
+      const event = paymentProvider.parseWebhook(req);
+      if (!event) {
+        return res.status(401).json({ message: "Invalid webhook signature" });
+      }
+      await handlePaymentEvent(req.site!.id, paymentProvider.name, event);
+      res.json({ received: true });
     } catch (error) {
-      res.status(500).json({ message: "Failed to delete product" });
+      res.status(500).json({ message: "Failed to process webhook" });
     }
   });
 
   // Messages
-  app.get("/api/messages", async (req, res) => {
+  app.get("/api/messages", requirePermission("messages:read"), async (req, res) => {
     try {
-      const messages = await storage.getMessages();
-      res.json(messages);
+      const query = messageListQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid message query" });
+      }
+      const { limit, offset, sort, order, ...filters } = query.data;
+      filters.isSpam ??= false; // spam only shows up when asked for
+      const [messages, total] = await Promise.all([
+        storage.getMessages(req.site!.id, filters, { limit, offset, sort, order }),
+        storage.countMessages(req.site!.id, filters),
+      ]);
+      res.json(paginated(messages, total, query.data));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch messages" });
     }
   });
 
-  app.get("/api/messages/:id", async (req, res) => {
+  // The contact form fetches this when it is shown, see server/spam.ts
+  app.get("/api/messages/form-token", (req, res) => {
+    res.json({ token: issueFormToken(req.site!.id) });
+  });
+
+  app.get("/api/messages/:id", requirePermission("messages:read"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const message = await storage.getMessage(id);
+      const message = await storage.getMessage(req.site!.id, id);
       if (!message) {
         return res.status(404).json({ message: "Message not found" });
       }
@@ -215,60 +1679,418 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/messages", async (req, res) => {
     try {
-      const messageData = insertMessageSchema.parse(req.body);
-      const message = await storage.createMessage(messageData);
-      res.json(message);
+      const ipRetryAfter = messagesPerIp.hit(req.ip ?? "unknown");
+      if (ipRetryAfter !== undefined) {
+        res.set("Retry-After", String(ipRetryAfter));
+        return res.status(429).json({ message: "Too many messages, please try again later" });
+      }
+      const { website, formToken, ...messageData } = messageSubmissionSchema.parse(req.body);
+      // Bots get the same answer as invalid input, so they learn nothing about the traps
+      if (website || formTokenError(req.site!.id, formToken)) {
+        return res.status(400).json({ message: "Invalid message data" });
+      }
+      const emailRetryAfter = messagesPerEmail.hit(`${req.site!.id}:${messageData.email.toLowerCase()}`);
+      if (emailRetryAfter !== undefined) {
+        res.set("Retry-After", String(emailRetryAfter));
+        return res.status(429).json({ message: "Too many messages, please try again later" });
+      }
+
+      res.json(await receiveMessage(req.site!.id, messageData));
     } catch (error) {
       res.status(400).json({ message: "Invalid message data" });
     }
   });
 
-  app.put("/api/messages/:id/read", async (req, res) => {
+  app.put("/api/messages/:id/read", requirePermission("messages:read"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const marked = await storage.markMessageAsRead(id);
+      const marked = await storage.markMessageAsRead(req.site!.id, id, req.user!.id);
       if (!marked) {
         return res.status(404).json({ message: "Message not found" });
       }
+      emitSiteEvent(req.site!.id, "message.read", { id });
       res.json({ message: "Message marked as read" });
     } catch (error) {
       res.status(500).json({ message: "Failed to mark message as read" });
     }
   });
 
+  // Marks a message as spam, or restores one that was marked by mistake
+  app.put("/api/messages/:id/spam", requirePermission("messages:read"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { isSpam } = updateMessageSpamSchema.parse(req.body);
+      const message = await storage.setMessageSpam(req.site!.id, id, isSpam, req.user!.id);
+      if (!message) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+      res.json(message);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid spam status" });
+    }
+  });
+
+  // Moves the message to the trash; its replies stay with it until it is purged
+  app.delete("/api/messages/:id", requirePermission("messages:read"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deleted = await storage.deleteMessage(req.site!.id, id, req.user!.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+      emitSiteEvent(req.site!.id, "message.deleted", { id });
+      res.json({ message: "Message moved to the trash" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete message" });
+    }
+  });
+
   // Message Replies
-  app.get("/api/messages/:id/replies", async (req, res) => {
+  app.get("/api/messages/:id/replies", requirePermission("messages:read"), async (req, res) => {
     try {
       const messageId = parseInt(req.params.id);
-      const replies = await storage.getMessageReplies(messageId);
+      const message = await storage.getMessage(req.site!.id, messageId);
+      if (!message) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+      const replies = await storage.getMessageReplies(req.site!.id, messageId);
       res.json(replies);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch message replies" });
     }
   });
 
-  app.post("/api/messages/:id/replies", async (req, res) => {
+  app.post("/api/messages/:id/replies", requirePermission("messages:reply"), async (req, res) => {
     try {
       const messageId = parseInt(req.params.id);
       const replyData = insertMessageReplySchema.parse({
         ...req.body,
         messageId
       });
-      const reply = await storage.createMessageReply(replyData);
-      res.json(reply);
+      const message = await storage.getMessage(req.site!.id, messageId);
+      const reply = message && await storage.createMessageReply(req.site!.id, replyData, req.user!.id);
+      if (!message || !reply) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+      const delivered = reply.isFromAdmin === false ? reply : await deliverReply(req.site!, siteOrigin(req, req.site!), message, reply);
+      emitSiteEvent(req.site!.id, "message.replied", delivered);
+      res.json(delivered);
     } catch (error) {
       res.status(400).json({ message: "Invalid reply data" });
     }
   });
 
-  // Serve uploaded files
-  app.use('/uploads', (req, res, next) => {
-    const filePath = path.join(process.cwd(), 'uploads', req.path);
-    res.sendFile(filePath, (err) => {
-      if (err) {
-        res.status(404).json({ message: 'File not found' });
+  // Replies to our emails, posted by the mail-forwarding service with INBOUND_EMAIL_SECRET
+  app.post("/api/email/inbound", async (req, res) => {
+    try {
+      const secret = process.env.INBOUND_EMAIL_SECRET;
+      if (!secret) {
+        return res.status(503).json({ message: "Inbound email is not configured" });
       }
-    });
+      const supplied = Buffer.from(String(req.get("x-inbound-secret") ?? ""));
+      if (supplied.length !== secret.length || !timingSafeEqual(supplied, Buffer.from(secret))) {
+        return res.status(401).json({ message: "Invalid inbound email secret" });
+      }
+      const email = inboundEmailSchema.safeParse(req.body);
+      if (!email.success) {
+        return res.status(400).json({ message: "Invalid inbound email" });
+      }
+      const result = await receiveReply(email.data);
+      switch (result.status) {
+        case "added":
+          return res.json(result.reply);
+        case "unknown-thread":
+          return res.status(404).json({ message: "No conversation found for this email" });
+        case "sender-mismatch":
+          return res.status(403).json({ message: "The sender did not start this conversation" });
+        case "empty":
+          return res.status(422).json({ message: "The email contains no reply text" });
+      }
+    } catch (error) {
+      res.status(500).json({ message: "Failed to receive email" });
+    }
+  });
+
+  // Search
+  app.get("/api/search", async (req, res) => {
+    try {
+      const query = searchQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid search query" });
+      }
+      const { q, type, limit } = query.data;
+      const hits = await storage.searchContent(req.site!.id, q, { config: searchConfig(req.site!), type, limit });
+      res.json(presentSearchHits(hits));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to search" });
+    }
+  });
+
+  app.get("/api/search/messages", requirePermission("messages:read"), async (req, res) => {
+    try {
+      const query = messageSearchQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid search query" });
+      }
+      const { q, limit } = query.data;
+      const hits = await storage.searchMessages(req.site!.id, q, { config: searchConfig(req.site!), limit });
+      res.json(hits.map((hit) => ({ ...hit, snippet: renderSnippet(hit.snippet) })));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to search messages" });
+    }
+  });
+
+  // Trash: deleted projects, products and messages, each visible to those who may delete them
+  app.get("/api/trash", requireAuth, async (req, res) => {
+    try {
+      const query = trashFiltersSchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid trash filters" });
+      }
+      const items = await storage.getTrash(req.site!.id, query.data);
+      res.json(items
+        .filter((item) => hasPermission(req, trashPermissions[item.type]))
+        .map((item) => ({ ...item, purgeAt: purgeDate(item) })));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch trash" });
+    }
+  });
+
+  app.post("/api/trash/:type/:id/restore", requireAuth, async (req, res) => {
+    try {
+      const type = z.enum(trashEntityTypes).safeParse(req.params.type);
+      if (!type.success) {
+        return res.status(404).json({ message: "Item not found" });
+      }
+      if (!hasPermission(req, trashPermissions[type.data])) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+      const id = parseInt(req.params.id);
+      const restored = await storage.restoreFromTrash(req.site!.id, type.data, id, req.user!.id);
+      if (!restored) {
+        return res.status(404).json({ message: "Item not found in the trash" });
+      }
+      emitSiteEvent(req.site!.id, `${type.data}.restored`, { id });
+      res.json({ message: "Item restored" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to restore item" });
+    }
+  });
+
+  app.delete("/api/trash/:type/:id", requireAuth, async (req, res) => {
+    try {
+      const type = z.enum(trashEntityTypes).safeParse(req.params.type);
+      if (!type.success) {
+        return res.status(404).json({ message: "Item not found" });
+      }
+      if (!hasPermission(req, trashPermissions[type.data])) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+      const id = parseInt(req.params.id);
+      const purged = await storage.purgeFromTrash(req.site!.id, type.data, id, req.user!.id);
+      if (!purged) {
+        return res.status(404).json({ message: "Item not found in the trash" });
+      }
+      res.json({ message: "Item deleted permanently" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete item" });
+    }
+  });
+
+  // Backup archives of the current site, see server/site-archive.ts
+  app.get("/api/site/export", requirePermission("sites:manage"), async (req, res) => {
+    const site = req.site!;
+    try {
+      res.set({
+        "Content-Type": "application/gzip",
+        "Content-Disposition": `attachment; filename="${site.hostname}-${new Date().toISOString().slice(0, 10)}.tar.gz"`,
+      });
+      const { missingFiles } = await exportSiteArchive(site, res);
+      if (missingFiles.length > 0) {
+        console.warn(`Site export of ${site.hostname} left out ${missingFiles.length} missing files: ${missingFiles.join(", ")}`);
+      }
+    } catch (error) {
+      console.error("Site export failed", error);
+      if (res.headersSent) return res.destroy();
+      res.status(500).json({ message: "Failed to export site" });
+    }
+  });
+
+  // ?dryRun=true only reports what would be imported and the conflicts that block it
+  app.post("/api/site/import", requirePermission("sites:manage"), archiveUpload.single('archive'), async (req: MulterRequest, res) => {
+    try {
+      const query = siteImportQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid import options" });
+      }
+      if (!req.file) {
+        return res.status(400).json({ message: "No archive uploaded" });
+      }
+      const report = await importSiteArchive(req.site!, req.file.path, { dryRun: query.data.dryRun, actorId: req.user!.id });
+      res.status(report.conflicts.length > 0 && !report.dryRun ? 409 : 200).json(report);
+    } catch (error) {
+      if (error instanceof SiteArchiveError) {
+        return res.status(400).json({ message: error.message, issues: error.issues });
+      }
+      console.error("Site import failed", error);
+      res.status(500).json({ message: "Failed to import site" });
+    } finally {
+      if (req.file) await fs.promises.rm(req.file.path, { force: true });
+    }
+  });
+
+  // Renders the public site to static files, see server/static-site.ts; only changed files are rewritten
+  app.post("/api/site/static-build", requirePermission("sites:manage"), async (req, res) => {
+    try {
+      const report = await buildStaticSite(req.site!);
+      res.json(report);
+    } catch (error) {
+      console.error("Static build failed", error);
+      res.status(500).json({ message: "Failed to build static site" });
+    }
+  });
+
+  // Live updates for the admin: new messages, replies, read states and content changes
+  app.get("/api/events", requireAuth, (req, res) => {
+    streamSiteEvents(req, res);
+  });
+
+  // Webhooks
+  app.get("/api/webhooks", requirePermission("webhooks:manage"), async (req, res) => {
+    try {
+      const webhooks = await storage.getWebhooks(req.site!.id);
+      res.json(webhooks);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch webhooks" });
+    }
+  });
+
+  // The generated secret is returned with the webhook so the receiver can verify signatures
+  app.post("/api/webhooks", requirePermission("webhooks:manage"), async (req, res) => {
+    try {
+      const webhookData = insertWebhookSchema.parse(req.body);
+      const urlError = await webhookUrlError(webhookData.url);
+      if (urlError) {
+        return res.status(400).json({ message: urlError });
+      }
+      const webhook = await storage.createWebhook(req.site!.id, { ...webhookData, secret: generateWebhookSecret() }, req.user!.id);
+      res.json(webhook);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid webhook data" });
+    }
+  });
+
+  app.get("/api/webhooks/:id", requirePermission("webhooks:manage"), async (req, res) => {
+    try {
+      const webhook = await storage.getWebhook(req.site!.id, parseInt(req.params.id));
+      if (!webhook) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+      res.json(webhook);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch webhook" });
+    }
+  });
+
+  app.put("/api/webhooks/:id", requirePermission("webhooks:manage"), async (req, res) => {
+    try {
+      const webhookData = insertWebhookSchema.partial().parse(req.body);
+      const urlError = webhookData.url ? await webhookUrlError(webhookData.url) : undefined;
+      if (urlError) {
+        return res.status(400).json({ message: urlError });
+      }
+      const webhook = await storage.updateWebhook(req.site!.id, parseInt(req.params.id), webhookData, req.user!.id);
+      if (!webhook) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+      res.json(webhook);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid webhook data" });
+    }
+  });
+
+  app.delete("/api/webhooks/:id", requirePermission("webhooks:manage"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteWebhook(req.site!.id, parseInt(req.params.id), req.user!.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+      res.json({ message: "Webhook deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete webhook" });
+    }
+  });
+
+  app.get("/api/webhooks/:id/deliveries", requirePermission("webhooks:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const filters = webhookDeliveryFiltersSchema.safeParse(req.query);
+      if (!filters.success) {
+        return res.status(400).json({ message: "Invalid delivery filters" });
+      }
+      if (!await storage.getWebhook(req.site!.id, id)) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+      res.json(await storage.getWebhookDeliveries(req.site!.id, id, filters.data));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch deliveries" });
+    }
+  });
+
+  // Sends the event of a delivery again as a new delivery and returns its outcome
+  app.post("/api/webhooks/:id/deliveries/:deliveryId/redeliver", requirePermission("webhooks:manage"), async (req, res) => {
+    try {
+      const delivery = await storage.getWebhookDelivery(req.site!.id, parseInt(req.params.deliveryId));
+      if (!delivery || delivery.webhookId !== parseInt(req.params.id)) {
+        return res.status(404).json({ message: "Delivery not found" });
+      }
+      res.json(await redeliver(delivery));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to redeliver" });
+    }
+  });
+
+  // Audit Log
+  app.get("/api/audit-logs", requirePermission("audit:read"), async (req, res) => {
+    try {
+      const filters = auditLogFiltersSchema.parse(req.query);
+      const logs = await storage.getAuditLogs({ ...filters, siteId: req.site!.id });
+      res.json(logs);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid audit log filters" });
+    }
+  });
+
+  // SEO: the HTML shell gets its head tags in vite.ts; these are the crawler endpoints
+  app.get("/sitemap.xml", resolveSite, async (req, res) => {
+    try {
+      res.type("application/xml").send(await buildSitemap(siteOrigin(req, req.site!), req.site!));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to build sitemap" });
+    }
+  });
+
+  app.get("/robots.txt", resolveSite, (req, res) => {
+    res.type("text/plain").send(buildRobotsTxt(siteOrigin(req, req.site!)));
+  });
+
+  // Serve uploaded files from the configured upload driver
+  app.get('/uploads/:key', async (req, res) => {
+    try {
+      const key = req.params.key;
+      const file = isValidUploadKey(key) ? await uploads.get(key) : undefined;
+      if (!file) {
+        return res.status(404).json({ message: 'File not found' });
+      }
+      res.type(file.contentType ?? (path.extname(key) || 'application/octet-stream'));
+      if (file.size !== undefined) res.set('Content-Length', String(file.size));
+      // Keys are random and never reused, so the content behind a URL never changes
+      res.set('Cache-Control', 'public, max-age=31536000, immutable');
+      file.body.on('error', () => res.destroy());
+      file.body.pipe(res);
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to fetch file' });
+    }
   });
 
   const httpServer = createServer(app);
@@ -0,0 +1,71 @@
+import { translatableBlockFields, type Site, type Page } from "@shared/schema";
+
+// Postgres text search configurations for the locales we publish in; the content is
+// searched in the site's default locale
+const searchConfigs: Record<string, string> = {
+  nl: "dutch",
+  en: "english",
+  de: "german",
+  fr: "french",
+};
+
+export function searchConfig(site: Pick<Site, "defaultLocale">): string {
+  return searchConfigs[site.defaultLocale] ?? "simple";
+}
+
+export function searchConfigsInUse(sites: Pick<Site, "defaultLocale">[]): string[] {
+  return Array.from(new Set(sites.map(searchConfig)));
+}
+
+// Weighted document for a row: title words rank above body words. Index creation and the
+// queries must build exactly the same expression for Postgres to use the indexes.
+export function documentVector(config: string, title: string, body: string): string {
+  return `setweight(to_tsvector('${config}', coalesce(${title}, '')), 'A') || ` +
+    `setweight(to_tsvector('${config}', coalesce(${body}, '')), 'B')`;
+}
+
+// The searchable text of a page: its SEO description and the text fields of its blocks
+export const pageBodySql = `concat_ws(' ', seo_description, (SELECT string_agg(concat_ws(' ', ` +
+  translatableBlockFields.map((field) => `block->>'${field}'`).join(", ") +
+  `), ' ') FROM jsonb_array_elements(blocks) AS block))`;
+
+export function pageBodyText(page: Page): string {
+  const blockText = page.blocks.flatMap((block) => {
+    const fields = block as Record<string, unknown>;
+    return translatableBlockFields.map((field) => fields[field]).filter((value): value is string => typeof value === "string");
+  });
+  return [page.seoDescription ?? "", ...blockText].join(" ");
+}
+
+// Snippets mark matches with control characters so the text around them can be escaped
+// before the marks become HTML
+export const highlightStart = "\u0002";
+export const highlightStop = "\u0003";
+export const headlineOptions = `StartSel=${highlightStart}, StopSel=${highlightStop}, MaxWords=30, MinWords=10, MaxFragments=2`;
+
+const htmlEscapes: Record<string, string> = { "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" };
+
+export function renderSnippet(snippet: string): string {
+  return snippet
+    .replace(/[&<>"']/g, (char) => htmlEscapes[char])
+    .split(highlightStart).join("<mark>")
+    .split(highlightStop).join("</mark>");
+}
+
+// Rough stand-in for ts_rank in memory storage: counts case-insensitive occurrences, or 0
+// unless every word of the query occurs
+export function matchWords(query: string, text: string): number {
+  const haystack = text.toLowerCase();
+  const counts = queryWords(query).map((word) => haystack.split(word).length - 1);
+  return counts.length > 0 && counts.every((hits) => hits > 0) ? counts.reduce((sum, hits) => sum + hits, 0) : 0;
+}
+
+export function highlightWords(query: string, text: string): string {
+  const words = queryWords(query).map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  if (words.length === 0) return text;
+  return text.replace(new RegExp(`(${words.join("|")})`, "gi"), `${highlightStart}$1${highlightStop}`);
+}
+
+function queryWords(query: string): string[] {
+  return query.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter((word) => word.length > 0);
+}
@@ -0,0 +1,214 @@
+import type { Request, Response } from "express";
+import { storage } from "./storage";
+import { resolveLocale, localizeOne } from "./i18n";
+import { type Site, type SiteConfig } from "@shared/schema";
+
+// The slug of the page that is shown at "/"
+export const homePageSlug = "home";
+
+interface RouteMeta {
+  title: string;
+  description?: string;
+  image?: string | null;
+  type: "website" | "article" | "product";
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function truncate(text: string, length = 160): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > length ? `${flat.slice(0, length - 1).trimEnd()}…` : flat;
+}
+
+// The site's primary hostname is canonical; the port is kept when the request already uses it
+export function siteOrigin(req: Request, site: Site): string {
+  const host = req.hostname === site.hostname ? req.get("host") : site.hostname;
+  return `${req.protocol}://${host}`;
+}
+
+function absoluteUrl(origin: string, url: string): string {
+  return /^https?:\/\//.test(url) ? url : `${origin}${url.startsWith("/") ? "" : "/"}${url}`;
+}
+
+function siteTitle(config: SiteConfig): string {
+  return config.siteTitle || config.companyName;
+}
+
+function siteDescription(config: SiteConfig): string | undefined {
+  return config.metaDescription || config.seoDescription || config.heroDescription || undefined;
+}
+
+// Meta data for the detail URLs the client renders: /projects/:id, /products/:id and /:slug
+async function routeMeta(site: Site, locale: string, config: SiteConfig, pathname: string): Promise<RouteMeta | undefined> {
+  const detail = pathname.match(/^\/(projects|products)\/(\d+)\/?$/);
+  if (detail) {
+    const id = parseInt(detail[2]);
+    const item = detail[1] === "projects"
+      ? await storage.getProject(site.id, id).then((row) => row && localizeOne(site, locale, "project", row))
+      : await storage.getProduct(site.id, id).then((row) => row && localizeOne(site, locale, "product", row));
+    if (!item) return undefined;
+    return {
+      title: `${item.title} | ${siteTitle(config)}`,
+      description: truncate(item.description),
+      image: item.imageUrl,
+      type: detail[1] === "projects" ? "article" : "product",
+    };
+  }
+
+  const slug = pathname === "/" ? homePageSlug : pathname.match(/^\/([a-z0-9-]+)\/?$/)?.[1];
+  const page = slug ? await storage.getPageBySlug(site.id, slug) : undefined;
+  if (!page || page.status !== "published") return undefined;
+
+  const localized = await localizeOne(site, locale, "page", page);
+  const title = localized.seoTitle || (slug === homePageSlug ? siteTitle(config) : `${localized.title} | ${siteTitle(config)}`);
+  return {
+    title,
+    description: localized.seoDescription || siteDescription(config),
+    type: "website",
+  };
+}
+
+function organizationJsonLd(config: SiteConfig, origin: string) {
+  return {
+    "@context": "https://schema.org",
+    "@type": "Organization",
+    name: config.companyName,
+    url: origin,
+    logo: config.logoUrl ? absoluteUrl(origin, config.logoUrl) : undefined,
+    email: config.email || undefined,
+    telephone: config.phone || undefined,
+    address: config.address || undefined,
+    sameAs: [config.facebookUrl, config.twitterUrl, config.instagramUrl, config.linkedinUrl].filter(Boolean),
+  };
+}
+
+function twitterHandle(twitterUrl: string | null): string | undefined {
+  const handle = twitterUrl?.match(/(?:twitter|x)\.com\/@?([A-Za-z0-9_]+)/)?.[1];
+  return handle ? `@${handle}` : undefined;
+}
+
+// Builds the <head> tags for a request: title, description, canonical URL, Open Graph,
+// Twitter cards and an Organization JSON-LD block. Returns undefined for unknown hosts.
+export async function buildHeadTags(req: Request, res: Response): Promise<string | undefined> {
+  const site = await storage.getSiteByHostname(req.hostname.toLowerCase());
+  if (!site) return undefined;
+  req.site = site;
+
+  const locale = resolveLocale(req, res);
+  const stored = await storage.getSiteConfig(site.id);
+  if (!stored) return undefined;
+  const config = await localizeOne(site, locale, "siteConfig", stored);
+
+  const origin = siteOrigin(req, site);
+  const meta = await routeMeta(site, locale, config, req.path) ?? {
+    title: siteTitle(config),
+    description: siteDescription(config),
+    type: "website" as const,
+  };
+  const canonical = `${origin}${req.path === "/" ? "/" : req.path.replace(/\/+$/, "")}` +
+    (locale === site.defaultLocale ? "" : `?lang=${locale}`);
+  const image = meta.image || config.logoUrl;
+  const keywords = config.metaKeywords || config.seoKeywords;
+  const twitterSite = twitterHandle(config.twitterUrl);
+
+  const tags = [
+    `<title>${escapeHtml(meta.title)}</title>`,
+    meta.description && `<meta name="description" content="${escapeHtml(meta.description)}" />`,
+    keywords && `<meta name="keywords" content="${escapeHtml(keywords)}" />`,
+    `<link rel="canonical" href="${escapeHtml(canonical)}" />`,
+    config.faviconUrl && `<link rel="icon" href="${escapeHtml(config.faviconUrl)}" />`,
+    `<meta property="og:type" content="${meta.type}" />`,
+    `<meta property="og:site_name" content="${escapeHtml(config.companyName)}" />`,
+    `<meta property="og:title" content="${escapeHtml(meta.title)}" />`,
+    meta.description && `<meta property="og:description" content="${escapeHtml(meta.description)}" />`,
+    `<meta property="og:url" content="${escapeHtml(canonical)}" />`,
+    `<meta property="og:locale" content="${escapeHtml(locale)}" />`,
+    image && `<meta property="og:image" content="${escapeHtml(absoluteUrl(origin, image))}" />`,
+    `<meta name="twitter:card" content="${image ? "summary_large_image" : "summary"}" />`,
+    twitterSite && `<meta name="twitter:site" content="${escapeHtml(twitterSite)}" />`,
+    `<meta name="twitter:title" content="${escapeHtml(meta.title)}" />`,
+    meta.description && `<meta name="twitter:description" content="${escapeHtml(meta.description)}" />`,
+    image && `<meta name="twitter:image" content="${escapeHtml(absoluteUrl(origin, image))}" />`,
+    // "<" is escaped so text in the JSON can never close the script element
+    `<script type="application/ld+json">${JSON.stringify(organizationJsonLd(config, origin)).replace(/</g, "\\u003c")}</script>`,
+  ];
+  return tags.filter(Boolean).join("\n    ");
+}
+
+// Replaces the template's <title> and adds the tags at the end of <head>. The page is still
+// served without them if they cannot be built, e.g. when the database is unavailable.
+export async function injectHeadTags(template: string, req: Request, res: Response): Promise<string> {
+  try {
+    const tags = await buildHeadTags(req, res);
+    if (!tags) return template;
+    return template
+      .replace(/<title>[\s\S]*?<\/title>\s*/i, "")
+      .replace("</head>", `    ${tags}\n  </head>`);
+  } catch (error) {
+    console.error("Failed to build SEO tags", error);
+    return template;
+  }
+}
+
+function escapeXml(value: string): string {
+  return escapeHtml(value).replace(/'/g, "&apos;");
+}
+
+function sitemapEntry(site: Site, url: string, lastModified?: Date | null): string {
+  const lines = [`  <url>`, `    <loc>${escapeXml(url)}</loc>`];
+  if (lastModified) lines.push(`    <lastmod>${lastModified.toISOString()}</lastmod>`);
+  // Every locale is served from the same URL with ?lang=
+  if (site.locales.length > 1) {
+    for (const locale of site.locales) {
+      const href = locale === site.defaultLocale ? url : `${url}?lang=${locale}`;
+      lines.push(`    <xhtml:link rel="alternate" hreflang="${escapeXml(locale)}" href="${escapeXml(href)}" />`);
+    }
+  }
+  lines.push(`  </url>`);
+  return lines.join("\n");
+}
+
+// Lists the home page, the published pages and the project and product detail URLs
+export async function buildSitemap(origin: string, site: Site): Promise<string> {
+  const entries: string[] = [];
+
+  const pages = await storage.getPages(site.id);
+  const home = pages.find((page) => page.slug === homePageSlug);
+  entries.push(sitemapEntry(site, `${origin}/`, home?.updatedAt));
+  for (const page of pages) {
+    if (page.status !== "published" || page.slug === homePageSlug) continue;
+    entries.push(sitemapEntry(site, `${origin}/${page.slug}`, page.updatedAt));
+  }
+  for (const project of await storage.getProjects(site.id)) {
+    entries.push(sitemapEntry(site, `${origin}/projects/${project.id}`, project.createdAt));
+  }
+  for (const product of await storage.getProducts(site.id)) {
+    if (product.status !== "active") continue;
+    entries.push(sitemapEntry(site, `${origin}/products/${product.id}`, product.createdAt));
+  }
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml">`,
+    ...entries,
+    `</urlset>`,
+    "",
+  ].join("\n");
+}
+
+export function buildRobotsTxt(origin: string): string {
+  return [
+    "User-agent: *",
+    "Allow: /",
+    "Disallow: /api/",
+    "",
+    `Sitemap: ${origin}/sitemap.xml`,
+    "",
+  ].join("\n");
+}
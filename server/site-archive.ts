@@ -0,0 +1,421 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { randomBytes } from "crypto";
+import { pipeline } from "stream/promises";
+import type { Writable } from "stream";
+import * as tar from "tar";
+import { storage } from "./storage";
+import { uploads, rewriteUploadUrls } from "./uploads";
+import {
+  siteArchiveSchema, siteArchiveFormat, siteArchiveVersion,
+  type Site, type SiteArchive, type Media, type PageBlock, type ImageVariant, type InsertSiteConfig,
+} from "@shared/schema";
+
+// A site archive is a gzipped tar with archive.json and the upload files it references
+// under uploads/. Orders, carts, webhooks and history are not part of it.
+const archiveFile = "archive.json";
+const filesDirectory = "uploads";
+
+export class SiteArchiveError extends Error {
+  constructor(message: string, public issues: string[] = []) {
+    super(message);
+  }
+}
+
+function withoutNulls<T extends object>(row: T): Partial<T> {
+  return Object.fromEntries(Object.entries(row).filter(([, value]) => value !== null)) as Partial<T>;
+}
+
+const byId = (a: { id: number }, b: { id: number }) => a.id - b.id;
+
+// Reads the site through the storage and checks the result against the import schema,
+// so every export can be imported again
+export async function buildSiteArchive(site: Site): Promise<SiteArchive> {
+  const messages = (await storage.getMessages(site.id)).sort(byId);
+  const config = await storage.getSiteConfig(site.id);
+  const products = (await storage.getProducts(site.id)).sort(byId);
+  const projects = (await storage.getProjects(site.id)).sort(byId);
+
+  // The trash is not exported, and neither are the variants and translations of what is in it
+  const productIds = new Set(products.map((product) => product.id));
+  const projectIds = new Set(projects.map((project) => project.id));
+  const translations = (await storage.getTranslations(site.id)).filter((translation) =>
+    (translation.entityType !== "product" || productIds.has(translation.entityId)) &&
+    (translation.entityType !== "project" || projectIds.has(translation.entityId)));
+
+  return siteArchiveSchema.parse({
+    format: siteArchiveFormat,
+    version: siteArchiveVersion,
+    exportedAt: new Date().toISOString(),
+    site: { name: site.name, hostname: site.hostname, locales: site.locales, defaultLocale: site.defaultLocale },
+    siteConfig: config ? withoutNulls(config) : undefined,
+    media: (await storage.getMediaItems(site.id)).sort(byId).map(withoutNulls),
+    productCategories: (await storage.getProductCategories(site.id)).sort(byId).map(withoutNulls),
+    products: products.map(withoutNulls),
+    productVariants: (await storage.getProductVariants(site.id))
+      .filter((variant) => productIds.has(variant.productId))
+      .sort(byId)
+      .map(withoutNulls),
+    projects: projects.map(withoutNulls),
+    projectImages: (await Promise.all(projects.map((project) => storage.getProjectImages(site.id, project.id))))
+      .flat()
+      .map(withoutNulls),
+    pages: (await storage.getPages(site.id)).sort(byId).map(withoutNulls),
+    translations: translations.map(withoutNulls),
+    messages: await Promise.all(messages.map(async (message) => ({
+      ...withoutNulls(message),
+      replies: (await storage.getMessageReplies(site.id, message.id)).map(withoutNulls),
+    }))),
+  });
+}
+
+function archiveFileKeys(archive: SiteArchive): string[] {
+  return archive.media.flatMap((item) => [item.filename, ...item.variants.map((variant) => variant.filename)]);
+}
+
+// Writes the archive of a site to the output. Files missing from the upload driver are
+// left out and reported; the import then skips the media items they belong to.
+export async function exportSiteArchive(site: Site, output: Writable): Promise<{ missingFiles: string[] }> {
+  const directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), "site-export-"));
+  try {
+    const archive = await buildSiteArchive(site);
+    await fs.promises.writeFile(path.join(directory, archiveFile), JSON.stringify(archive, null, 2));
+    await fs.promises.mkdir(path.join(directory, filesDirectory));
+
+    const missingFiles: string[] = [];
+    for (const key of archiveFileKeys(archive)) {
+      const file = await uploads.get(key);
+      if (!file) {
+        missingFiles.push(key);
+        continue;
+      }
+      await pipeline(file.body, fs.createWriteStream(path.join(directory, filesDirectory, key)));
+    }
+
+    await pipeline(tar.create({ gzip: true, cwd: directory, portable: true }, [archiveFile, filesDirectory]), output);
+    return { missingFiles };
+  } finally {
+    await fs.promises.rm(directory, { recursive: true, force: true });
+  }
+}
+
+async function readSiteArchive(file: string, directory: string): Promise<SiteArchive> {
+  try {
+    // Only plain files and directories; tar already refuses absolute paths and ".."
+    await tar.extract({
+      file,
+      cwd: directory,
+      filter: (_path, entry) => "type" in entry ? entry.type === "File" || entry.type === "Directory" : entry.isFile() || entry.isDirectory(),
+    });
+  } catch (error) {
+    throw new SiteArchiveError("The file is not a site archive");
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await fs.promises.readFile(path.join(directory, archiveFile), "utf8"));
+  } catch (error) {
+    throw new SiteArchiveError(`The archive has no readable ${archiveFile}`);
+  }
+  const { format, version } = typeof raw === "object" && raw !== null ? raw as Record<string, unknown> : {};
+  if (format !== siteArchiveFormat) {
+    throw new SiteArchiveError("The file is not a site archive");
+  }
+  if (typeof version !== "number" || version > siteArchiveVersion) {
+    throw new SiteArchiveError(`Archive version ${version} is newer than this server supports (${siteArchiveVersion})`);
+  }
+
+  const parsed = siteArchiveSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.slice(0, 50).map((issue) => `${issue.path.join(".")}: ${issue.message}`);
+    throw new SiteArchiveError("The archive contains invalid data", issues);
+  }
+  return parsed.data;
+}
+
+function duplicates(values: (string | null | undefined)[]): string[] {
+  const seen = new Set<string>();
+  const repeated = new Set<string>();
+  for (const value of values) {
+    if (value === null || value === undefined) continue;
+    if (seen.has(value)) repeated.add(value);
+    seen.add(value);
+  }
+  return Array.from(repeated);
+}
+
+export interface SiteImportReport {
+  dryRun: boolean;
+  imported: Record<"media" | "productCategories" | "products" | "productVariants" | "projects" | "projectImages" | "pages" | "translations" | "messages", number>;
+  replacesConfig: boolean;
+  conflicts: string[]; // block the import
+  warnings: string[]; // parts that are skipped or changed
+}
+
+// Imports an archive into an existing site, next to its current content. New ids are
+// assigned and references, upload files and image URLs are remapped. Nothing is written
+// in a dry run or when there are conflicts.
+export async function importSiteArchive(
+  site: Site,
+  file: string,
+  options: { dryRun: boolean; actorId?: number },
+): Promise<SiteImportReport> {
+  const directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), "site-import-"));
+  try {
+    const archive = await readSiteArchive(file, directory);
+    const conflicts: string[] = [];
+    const warnings: string[] = [];
+    const fileExists = (key: string) => fs.existsSync(path.join(directory, filesDirectory, key));
+
+    for (const [name, rows] of Object.entries({
+      media: archive.media, productCategories: archive.productCategories, products: archive.products,
+      productVariants: archive.productVariants, projects: archive.projects, projectImages: archive.projectImages,
+      pages: archive.pages, messages: archive.messages,
+    })) {
+      for (const id of duplicates(rows.map((row) => String(row.id)))) conflicts.push(`${name} ${id} appears more than once in the archive`);
+    }
+
+    const media = archive.media.filter((item) => {
+      if (fileExists(item.filename)) return true;
+      warnings.push(`Media item ${item.id} (${item.originalName}) is skipped: its file is missing from the archive`);
+      return false;
+    });
+    const mediaIds = new Set(media.map((item) => item.id));
+    const categoryIds = new Set(archive.productCategories.map((category) => category.id));
+    const productIds = new Set(archive.products.map((product) => product.id));
+
+    for (const slug of duplicates(archive.pages.map((page) => page.slug))) conflicts.push(`Page slug "${slug}" appears more than once in the archive`);
+    for (const page of archive.pages) {
+      if (await storage.getPageBySlug(site.id, page.slug)) conflicts.push(`A page with slug "${page.slug}" already exists`);
+    }
+    for (const slug of duplicates(archive.productCategories.map((category) => category.slug))) conflicts.push(`Category slug "${slug}" appears more than once in the archive`);
+    for (const category of archive.productCategories) {
+      if (await storage.getProductCategoryBySlug(site.id, category.slug)) conflicts.push(`A product category with slug "${category.slug}" already exists`);
+    }
+    const skus = [...archive.products.map((product) => product.sku), ...archive.productVariants.map((variant) => variant.sku)];
+    for (const sku of duplicates(skus)) conflicts.push(`SKU "${sku}" appears more than once in the archive`);
+    for (const sku of skus) {
+      if (sku && await storage.isSkuTaken(site.id, sku)) conflicts.push(`SKU "${sku}" is already in use`);
+    }
+
+    const variants = archive.productVariants.filter((variant) => {
+      if (productIds.has(variant.productId)) return true;
+      warnings.push(`Variant ${variant.id} is skipped: product ${variant.productId} is not in the archive`);
+      return false;
+    });
+    const projectIds = new Set(archive.projects.map((project) => project.id));
+    const archivedMediaIds = new Set(archive.media.map((item) => item.id));
+    for (const image of archive.projectImages) {
+      if (!archivedMediaIds.has(image.imageMediaId)) {
+        conflicts.push(`Gallery image ${image.id} of project ${image.projectId} refers to media item ${image.imageMediaId}, which is not in the archive`);
+      }
+    }
+    const projectImages = archive.projectImages.filter((image) => {
+      if (!archivedMediaIds.has(image.imageMediaId)) return false;
+      if (!projectIds.has(image.projectId)) {
+        warnings.push(`Gallery image ${image.id} is skipped: project ${image.projectId} is not in the archive`);
+        return false;
+      }
+      if (!mediaIds.has(image.imageMediaId)) {
+        warnings.push(`Gallery image ${image.id} of project ${image.projectId} is skipped: media item ${image.imageMediaId} is not imported`);
+        return false;
+      }
+      return true;
+    });
+    const entityIds: Record<string, Set<number>> = {
+      siteConfig: new Set(archive.siteConfig ? [archive.siteConfig.id] : []),
+      project: projectIds,
+      product: productIds,
+      page: new Set(archive.pages.map((page) => page.id)),
+    };
+    const translations = archive.translations.filter((translation) => {
+      if (!site.locales.includes(translation.locale) || translation.locale === site.defaultLocale) {
+        warnings.push(`Translation of ${translation.entityType} ${translation.entityId}.${translation.field} is skipped: "${translation.locale}" is not an additional locale of the site`);
+        return false;
+      }
+      if (!entityIds[translation.entityType].has(translation.entityId)) {
+        warnings.push(`Translation of ${translation.entityType} ${translation.entityId}.${translation.field} is skipped: the ${translation.entityType} is not in the archive`);
+        return false;
+      }
+      return true;
+    });
+
+    for (const product of archive.products) {
+      if (product.imageMediaId && !mediaIds.has(product.imageMediaId)) warnings.push(`Product ${product.id} will lose its image`);
+      if (product.categoryId && !categoryIds.has(product.categoryId)) warnings.push(`Product ${product.id} will lose its category`);
+    }
+    for (const project of archive.projects) {
+      if (project.imageMediaId && !mediaIds.has(project.imageMediaId)) warnings.push(`Project ${project.id} will lose its image`);
+    }
+
+    // Rich text embeds upload URLs; those of imported media are rewritten, any other upload
+    // link would point at a file the site does not have
+    const importedUrls = new Set(media.flatMap((item) =>
+      [item.url, ...item.variants.filter((variant) => fileExists(variant.filename)).map((variant) => variant.url)]));
+    const urlBases = ["/uploads/", ...archive.media.map((item) => item.url.slice(0, item.url.lastIndexOf("/") + 1))];
+    const checkLinks = (description: string, text: string | null | undefined) => {
+      if (!text) return;
+      rewriteUploadUrls(text, (link) => {
+        if (!importedUrls.has(link)) warnings.push(`${description} links ${link}, which is not imported; the link will break`);
+        return undefined;
+      }, urlBases);
+    };
+    for (const project of archive.projects) checkLinks(`The body of project ${project.id}`, project.body);
+    for (const page of archive.pages) {
+      for (const block of page.blocks ?? []) {
+        if (block.type === "richText") checkLinks(`Block ${block.id} of page ${page.id}`, block.content);
+      }
+    }
+    for (const translation of translations) {
+      checkLinks(`The ${translation.locale} translation of ${translation.entityType} ${translation.entityId}.${translation.field}`, translation.value);
+    }
+
+    const existingConfig = await storage.getSiteConfig(site.id);
+    if (archive.siteConfig && existingConfig) warnings.push("The site configuration will be replaced");
+
+    const report: SiteImportReport = {
+      dryRun: options.dryRun,
+      imported: {
+        media: media.length,
+        productCategories: archive.productCategories.length,
+        products: archive.products.length,
+        productVariants: variants.length,
+        projects: archive.projects.length,
+        projectImages: projectImages.length,
+        pages: archive.pages.length,
+        translations: translations.length,
+        messages: archive.messages.length,
+      },
+      replacesConfig: !!archive.siteConfig && !!existingConfig,
+      conflicts,
+      warnings,
+    };
+    if (options.dryRun || conflicts.length > 0) return report;
+
+    // All rows go in one transaction. Upload files cannot be rolled back, so the ones
+    // stored so far are deleted when the import fails.
+    const storedFiles: string[] = [];
+    const store = async (key: string, source: string, mimeType: string) => {
+      await uploads.put(key, path.join(directory, filesDirectory, source), mimeType);
+      storedFiles.push(key);
+    };
+    try {
+      await storage.transaction(async () => {
+        const { actorId } = options;
+
+        // Media first: the files get new names, and every old URL maps to the new one
+        const mediaMap = new Map<number, Media>();
+        const urlMap = new Map<string, string>();
+        for (const { id, ...item } of media) {
+          const base = randomBytes(16).toString("hex");
+          const oldBase = path.parse(item.filename).name;
+          const rename = (key: string) => (key.startsWith(oldBase) ? base + key.slice(oldBase.length) : `${base}-${key}`);
+
+          const filename = rename(item.filename);
+          await store(filename, item.filename, item.mimeType);
+          const itemVariants: ImageVariant[] = [];
+          for (const variant of item.variants) {
+            if (!fileExists(variant.filename)) {
+              warnings.push(`The ${variant.name} variant of media item ${id} is skipped: its file is missing from the archive`);
+              continue;
+            }
+            const key = rename(variant.filename);
+            await store(key, variant.filename, variant.mimeType);
+            itemVariants.push({ ...variant, filename: key, url: uploads.urlFor(key) });
+            urlMap.set(variant.url, uploads.urlFor(key));
+          }
+
+          const created = await storage.createMediaItem(site.id, {
+            ...item,
+            filename,
+            url: uploads.urlFor(filename),
+            variants: itemVariants,
+            uploadedBy: actorId ?? null,
+          }, actorId);
+          mediaMap.set(id, created);
+          urlMap.set(item.url, created.url);
+        }
+        const mediaId = (id: number | null | undefined) => (id ? mediaMap.get(id)?.id ?? null : null);
+        const url = <T extends string | null | undefined>(value: T) => (value ? urlMap.get(value) ?? value : value);
+        const richText = <T extends string | null | undefined>(value: T) =>
+          (value ? rewriteUploadUrls(value, (link) => urlMap.get(link), urlBases) ?? value : value);
+
+        const entityMap: Record<string, Map<number, number>> = { siteConfig: new Map(), project: new Map(), product: new Map(), page: new Map() };
+
+        if (archive.siteConfig) {
+          const { id, ...config } = archive.siteConfig;
+          const updated = await storage.updateSiteConfig(site.id, {
+            ...config,
+            logoUrl: url(config.logoUrl),
+            logoMediaId: mediaId(config.logoMediaId),
+            faviconUrl: url(config.faviconUrl),
+            faviconMediaId: mediaId(config.faviconMediaId),
+          } as InsertSiteConfig, actorId);
+          entityMap.siteConfig.set(id, updated.id);
+        }
+
+        const categoryMap = new Map<number, number>();
+        for (const { id, ...category } of archive.productCategories) {
+          categoryMap.set(id, (await storage.createProductCategory(site.id, category, actorId)).id);
+        }
+
+        for (const { id, ...product } of archive.products) {
+          const created = await storage.createProduct(site.id, {
+            ...product,
+            imageUrl: url(product.imageUrl),
+            imageMediaId: mediaId(product.imageMediaId) ?? undefined,
+            categoryId: product.categoryId ? categoryMap.get(product.categoryId) ?? null : null,
+          }, actorId);
+          entityMap.product.set(id, created.id);
+        }
+        for (const { id, productId, ...variant } of variants) {
+          await storage.createProductVariant(site.id, entityMap.product.get(productId)!, variant, actorId);
+        }
+
+        for (const { id, ...project } of archive.projects) {
+          const created = await storage.createProject(site.id, {
+            ...project,
+            imageUrl: url(project.imageUrl),
+            imageMediaId: mediaId(project.imageMediaId) ?? undefined,
+            body: richText(project.body),
+          }, actorId);
+          entityMap.project.set(id, created.id);
+        }
+        for (const { id, projectId, ...image } of projectImages) {
+          const item = mediaMap.get(image.imageMediaId);
+          const newProjectId = entityMap.project.get(projectId);
+          if (!item || !newProjectId) {
+            throw new SiteArchiveError(`Gallery image ${id} refers to a project or media item that was not imported`);
+          }
+          await storage.createProjectImage(site.id, newProjectId, { ...image, imageMediaId: item.id, imageUrl: item.url }, actorId);
+        }
+
+        for (const { id, ...page } of archive.pages) {
+          const blocks = page.blocks?.map((block): PageBlock =>
+            block.type === "hero" || block.type === "image" ? { ...block, imageUrl: url(block.imageUrl)! }
+              : block.type === "richText" ? { ...block, content: richText(block.content) }
+              : block);
+          const created = await storage.createPage(site.id, { ...page, blocks }, actorId);
+          entityMap.page.set(id, created.id);
+        }
+
+        for (const translation of translations) {
+          const entityId = entityMap[translation.entityType].get(translation.entityId)!;
+          await storage.upsertTranslation(site.id, { ...translation, entityId, value: richText(translation.value) }, actorId);
+        }
+
+        for (const message of archive.messages) {
+          await storage.importMessage(site.id, message);
+        }
+      });
+    } catch (error) {
+      await Promise.all(storedFiles.map((key) => uploads.delete(key).catch(() => undefined)));
+      throw error;
+    }
+
+    return report;
+  } finally {
+    await fs.promises.rm(directory, { recursive: true, force: true });
+  }
+}
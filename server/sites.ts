@@ -0,0 +1,47 @@
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import { type Site, type UserRole } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface Request {
+      site?: Site;
+      siteRole?: UserRole; // the signed-in user's role on the site, if they are a member
+    }
+  }
+}
+
+// Resolves the active site from the Host header (or X-Forwarded-Host behind the proxy),
+// matching either a site's primary hostname or one of its custom domains
+export async function resolveSite(req: Request, res: Response, next: NextFunction) {
+  try {
+    const site = await storage.getSiteByHostname(req.hostname.toLowerCase());
+    if (!site) {
+      return res.status(404).json({ message: "Site not found" });
+    }
+    req.site = site;
+    // Users only get permissions on the sites they are a member of
+    if (req.isAuthenticated?.()) {
+      const member = await storage.getSiteMember(site.id, req.user.id);
+      req.siteRole = member?.role as UserRole | undefined;
+    }
+    next();
+  } catch (error) {
+    res.status(500).json({ message: "Failed to resolve site" });
+  }
+}
+
+// The site a cross-origin form was posted from, going by its Origin (or Referer) header.
+// Returns the origin as well, so the response can send the visitor back to it.
+export async function siteFromOrigin(req: Request): Promise<{ site: Site; origin: string } | undefined> {
+  const header = req.get("origin") || req.get("referer");
+  let url: URL;
+  try {
+    url = new URL(header ?? "");
+  } catch {
+    return undefined;
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") return undefined;
+  const site = await storage.getSiteByHostname(url.hostname.toLowerCase());
+  return site ? { site, origin: url.origin } : undefined;
+}
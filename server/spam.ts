@@ -0,0 +1,142 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { storage } from "./storage";
+import { type InsertMessage, type MessageSpamVerdict } from "@shared/schema";
+
+// Fixed-window counters in process memory. With several server instances each one
+// enforces the limit on its own.
+export class RateLimiter {
+  private windows = new Map<string, { count: number; resetAt: number }>();
+
+  constructor(private limit: number, private windowMs: number) {}
+
+  // Counts a hit for the key; returns the seconds to wait when it went over the limit
+  hit(key: string, now = Date.now()): number | undefined {
+    if (this.windows.size > 10000) this.prune(now);
+
+    let window = this.windows.get(key);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + this.windowMs };
+      this.windows.set(key, window);
+    }
+    window.count++;
+    return window.count > this.limit ? Math.ceil((window.resetAt - now) / 1000) : undefined;
+  }
+
+  private prune(now: number) {
+    for (const [key, window] of Array.from(this.windows.entries())) {
+      if (window.resetAt <= now) this.windows.delete(key);
+    }
+  }
+}
+
+export const messagesPerIp = new RateLimiter(5, 10 * 60 * 1000);
+export const messagesPerEmail = new RateLimiter(3, 60 * 60 * 1000);
+
+// The contact form fetches a signed token when it is shown and posts it back. A form
+// submitted sooner than a person could fill it in is a bot. Each token is good for one
+// message: its nonce is remembered until the token expires (per server instance, like the
+// rate limits).
+const formTokenSecret = process.env.SESSION_SECRET || randomBytes(32).toString("hex");
+const minimumFillTime = 3 * 1000;
+const formTokenLifetime = 24 * 60 * 60 * 1000;
+const usedFormTokens = new Map<string, number>(); // nonce -> when the token expires
+
+function signFormToken(siteId: number, issuedAt: number, nonce: string): string {
+  return createHmac("sha256", formTokenSecret).update(`${siteId}.${issuedAt}.${nonce}`).digest("hex");
+}
+
+export function issueFormToken(siteId: number, now = Date.now()): string {
+  const nonce = randomBytes(12).toString("hex");
+  return `${now}.${nonce}.${signFormToken(siteId, now, nonce)}`;
+}
+
+// Checks the token and uses it up; a second message with the same token is refused
+export function formTokenError(siteId: number, token: string | undefined, now = Date.now()): string | undefined {
+  const [issuedAtText, nonce = "", signature = ""] = (token ?? "").split(".");
+  const issuedAt = Number(issuedAtText);
+  const supplied = Buffer.from(signature);
+  const expected = Buffer.from(Number.isSafeInteger(issuedAt) && nonce ? signFormToken(siteId, issuedAt, nonce) : "");
+  if (expected.length === 0 || supplied.length !== expected.length || !timingSafeEqual(supplied, expected)) {
+    return "missing or invalid form token";
+  }
+  if (now - issuedAt < minimumFillTime) return "submitted too fast";
+  if (now - issuedAt > formTokenLifetime) return "form token expired";
+
+  if (usedFormTokens.size > 10000) {
+    for (const [used, expiresAt] of Array.from(usedFormTokens.entries())) {
+      if (expiresAt <= now) usedFormTokens.delete(used);
+    }
+  }
+  if (usedFormTokens.has(nonce)) return "form token already used";
+  usedFormTokens.set(nonce, issuedAt + formTokenLifetime);
+  return undefined;
+}
+
+// Spam scoring. Each check adds points; messages reaching the threshold are kept but
+// marked as spam, so false positives can be restored from the admin.
+export interface SpamSignal {
+  score: number;
+  reason: string;
+}
+
+export type SpamCheck = (siteId: number, message: InsertMessage) => Promise<SpamSignal | undefined> | SpamSignal | undefined;
+
+export const spamThreshold = 5;
+
+function listFromEnv(name: string, defaults: string[]): string[] {
+  const value = process.env[name];
+  const list = value === undefined ? defaults : value.split(",");
+  return list.map((entry) => entry.trim().toLowerCase()).filter((entry) => entry.length > 0);
+}
+
+const blockedWords = listFromEnv("SPAM_BLOCKED_WORDS", ["viagra", "casino", "backlinks", "seo services", "crypto investment"]);
+const blockedDomains = listFromEnv("SPAM_BLOCKED_DOMAINS", []);
+
+function linksIn(text: string): string[] {
+  return text.match(/\bhttps?:\/\/[^\s<>"']+|\bwww\.[^\s<>"']+/gi) ?? [];
+}
+
+function hostOf(link: string): string | undefined {
+  try {
+    return new URL(link.startsWith("http") ? link : `http://${link}`).hostname.toLowerCase();
+  } catch {
+    return undefined;
+  }
+}
+
+const linkCount: SpamCheck = (_siteId, message) => {
+  const links = linksIn(`${message.subject} ${message.message}`).length;
+  return links > 0 ? { score: links * 2, reason: `${links} link(s)` } : undefined;
+};
+
+const blockedWordCheck: SpamCheck = (_siteId, message) => {
+  const text = `${message.name} ${message.subject} ${message.message}`.toLowerCase();
+  const found = blockedWords.filter((word) => text.includes(word));
+  return found.length > 0 ? { score: 5 * found.length, reason: `blocked words: ${found.join(", ")}` } : undefined;
+};
+
+const blockedDomainCheck: SpamCheck = (_siteId, message) => {
+  const hosts = [message.email.split("@").pop()?.toLowerCase(), ...linksIn(message.message).map(hostOf)];
+  const found = blockedDomains.filter((domain) =>
+    hosts.some((host) => host !== undefined && (host === domain || host.endsWith(`.${domain}`))));
+  return found.length > 0 ? { score: 10, reason: `blocked domains: ${found.join(", ")}` } : undefined;
+};
+
+const duplicateCheck: SpamCheck = async (siteId, message) => {
+  const since = new Date(Date.now() - 24 * 60 * 60 * 1000);
+  return await storage.hasDuplicateMessage(siteId, message.message, since)
+    ? { score: 5, reason: "duplicate of a recent message" }
+    : undefined;
+};
+
+export const spamChecks: SpamCheck[] = [linkCount, blockedWordCheck, blockedDomainCheck, duplicateCheck];
+
+export async function scoreMessage(siteId: number, message: InsertMessage): Promise<MessageSpamVerdict> {
+  const signals: SpamSignal[] = [];
+  for (const check of spamChecks) {
+    const signal = await check(siteId, message);
+    if (signal) signals.push(signal);
+  }
+  const spamScore = signals.reduce((total, signal) => total + signal.score, 0);
+  return { isSpam: spamScore >= spamThreshold, spamScore, spamReasons: signals.map((signal) => signal.reason) };
+}
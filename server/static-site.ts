@@ -0,0 +1,463 @@
+import fs from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import { pipeline } from "stream/promises";
+import { storage } from "./storage";
+import { uploads } from "./uploads";
+import { onSiteEvent } from "./events";
+import { presentProducts, type PresentedProduct } from "./catalog";
+import { buildSitemap, buildRobotsTxt, homePageSlug } from "./seo";
+import { resolveTheme, buildThemeCss } from "./theme";
+import { renderRichText } from "./rich-text";
+import { log } from "./log";
+import {
+  type Site, type SiteConfig, type Page, type PageBlock, type Project, type ProjectImage, type Product,
+} from "@shared/schema";
+
+// Static builds go to STATIC_OUTPUT_DIR/<hostname>, a folder any static host can serve.
+// Contact forms post to STATIC_FORM_ENDPOINT: the /api/messages/static-form of the live
+// server (which sends visitors back to /thank-you/) or a form service. The live /api/messages
+// needs a form token a static page cannot get. Without an endpoint forms become a mailto link.
+export const staticOutputRoot = process.env.STATIC_OUTPUT_DIR || path.join(process.cwd(), "dist", "static");
+const formEndpoint = process.env.STATIC_FORM_ENDPOINT;
+const manifestFile = ".static-manifest.json";
+
+export function staticOutputDir(site: Site): string {
+  return path.join(staticOutputRoot, site.hostname);
+}
+
+const texts = {
+  nl: {
+    projects: "Projecten", products: "Producten", notFound: "Pagina niet gevonden", backHome: "Terug naar de homepage",
+    name: "Naam", email: "E-mail", subject: "Onderwerp", message: "Bericht", send: "Versturen", mailUs: "Mail ons",
+    thanks: "Bedankt voor je bericht", thanksBody: "We nemen zo snel mogelijk contact met je op.",
+    client: "Opdrachtgever", location: "Locatie", year: "Jaar", services: "Diensten",
+  },
+  en: {
+    projects: "Projects", products: "Products", notFound: "Page not found", backHome: "Back to the home page",
+    name: "Name", email: "Email", subject: "Subject", message: "Message", send: "Send", mailUs: "Email us",
+    thanks: "Thank you for your message", thanksBody: "We will get back to you as soon as possible.",
+    client: "Client", location: "Location", year: "Year", services: "Services",
+  },
+};
+type Texts = typeof texts.nl;
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[char]!);
+}
+
+function paragraphs(text: string): string {
+  return text
+    .split(/\n{2,}/)
+    .filter((paragraph) => paragraph.trim())
+    .map((paragraph) => `<p>${escapeHtml(paragraph).replace(/\n/g, "<br>")}</p>`)
+    .join("\n");
+}
+
+// Only http(s), mailto, tel and site-relative links end up in href and src attributes
+function safeUrl(url: string | null | undefined): string | undefined {
+  if (!url) return undefined;
+  return /^(https?:|mailto:|tel:|\/|#)/i.test(url.trim()) ? url.trim() : undefined;
+}
+
+// Social links show their hostname, so only absolute http(s) URLs qualify
+function externalUrl(url: string | null | undefined): URL | undefined {
+  if (!url || !/^https?:\/\//i.test(url.trim())) return undefined;
+  try {
+    return new URL(url.trim());
+  } catch {
+    return undefined;
+  }
+}
+
+const siteCss = `*,*::before,*::after{box-sizing:border-box}
+body{margin:0;font-family:var(--font-family);color:var(--color-text);background:var(--color-background);line-height:1.6}
+a{color:var(--color-primary-600)}
+img{max-width:100%;height:auto;display:block}
+.container{max-width:1120px;margin:0 auto;padding:0 20px}
+header.site{border-bottom:1px solid var(--color-border)}
+header.site .container{display:flex;align-items:center;justify-content:space-between;gap:24px;min-height:72px;flex-wrap:wrap}
+header.site .brand{font-weight:700;font-size:1.25rem;color:var(--color-text);text-decoration:none}
+header.site .brand img{max-height:40px}
+nav.site a{margin-left:20px;color:var(--color-text);text-decoration:none}
+nav.site a:hover{color:var(--color-primary)}
+main{padding:40px 0 64px}
+section{margin:0 0 48px}
+.hero{background:var(--color-primary-50);padding:64px 0;margin-bottom:48px}
+.hero h1{font-size:2.5rem;line-height:1.2;margin:0 0 16px}
+.hero img{margin-top:24px;border-radius:8px}
+.button{display:inline-block;padding:12px 24px;border-radius:6px;background:var(--color-primary);color:var(--color-primary-foreground);text-decoration:none;border:0;font:inherit;cursor:pointer}
+.grid{display:grid;grid-template-columns:repeat(auto-fill,minmax(260px,1fr));gap:24px}
+.card{border:1px solid var(--color-border);border-radius:8px;overflow:hidden;text-decoration:none;color:inherit;display:block}
+.card img{aspect-ratio:4/3;object-fit:cover;width:100%}
+.card .body{padding:16px}
+.card h3{margin:0 0 8px}
+.muted{color:var(--color-text-muted)}
+.price{font-weight:700;color:var(--color-accent-700)}
+figure{margin:0}
+figcaption{color:var(--color-text-muted);font-size:.9rem;margin-top:8px}
+dl.facts{display:grid;grid-template-columns:max-content 1fr;gap:4px 16px}
+dl.facts dt{font-weight:700}
+dl.facts dd{margin:0}
+.gallery{display:grid;grid-template-columns:repeat(auto-fill,minmax(320px,1fr));gap:24px;margin:32px 0}
+blockquote{margin:32px 0;padding-left:20px;border-left:4px solid var(--color-primary);font-size:1.15rem}
+form.contact{display:grid;gap:12px;max-width:560px}
+form.contact input,form.contact textarea{width:100%;padding:10px;border:1px solid var(--color-border);border-radius:6px;font:inherit;background:var(--color-background);color:var(--color-text)}
+form.contact .trap{position:absolute;left:-10000px}
+footer.site{border-top:1px solid var(--color-border);padding:32px 0;color:var(--color-text-muted);font-size:.9rem}
+footer.site a{margin-right:16px}
+`;
+
+interface RenderContext {
+  site: Site;
+  config: SiteConfig;
+  t: Texts;
+  origin: string;
+  navPages: Page[];
+  projects: Project[];
+  products: PresentedProduct<Product>[];
+}
+
+function layout(context: RenderContext, options: { title: string; description?: string | null; pathname: string; body: string; image?: string | null }): string {
+  const { config, site } = context;
+  const siteName = config.siteTitle || config.companyName;
+  const title = options.pathname === "/" ? siteName : `${options.title} | ${siteName}`;
+  const description = options.description || config.metaDescription || config.seoDescription || undefined;
+  const image = safeUrl(options.image) ?? safeUrl(config.logoUrl);
+  const absolute = (url: string) => (/^https?:/.test(url) ? url : `${context.origin}${url}`);
+
+  const brand = safeUrl(config.logoUrl)
+    ? `<img src="${escapeHtml(config.logoUrl!)}" alt="${escapeHtml(config.companyName)}">`
+    : escapeHtml(config.companyName);
+  const nav = [
+    ...context.navPages.map((page) => `<a href="${page.slug === homePageSlug ? "/" : `/${page.slug}/`}">${escapeHtml(page.title)}</a>`),
+    context.projects.length > 0 ? `<a href="/projects/">${context.t.projects}</a>` : "",
+    context.products.length > 0 ? `<a href="/products/">${context.t.products}</a>` : "",
+  ].filter(Boolean).join("");
+  const social = [config.facebookUrl, config.twitterUrl, config.instagramUrl, config.linkedinUrl]
+    .map(externalUrl)
+    .filter((url): url is URL => !!url)
+    .map((url) => `<a href="${escapeHtml(url.href)}" rel="noopener">${escapeHtml(url.hostname.replace(/^www\./, ""))}</a>`)
+    .join("");
+  const contact = [config.address, config.phone, config.email].filter(Boolean).map((line) => escapeHtml(line!)).join(" · ");
+
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(site.defaultLocale)}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+${description ? `<meta name="description" content="${escapeHtml(description)}">\n` : ""}<link rel="canonical" href="${escapeHtml(context.origin + options.pathname)}">
+${safeUrl(config.faviconUrl) ? `<link rel="icon" href="${escapeHtml(config.faviconUrl!)}">\n` : ""}<meta property="og:title" content="${escapeHtml(title)}">
+<meta property="og:url" content="${escapeHtml(context.origin + options.pathname)}">
+${image ? `<meta property="og:image" content="${escapeHtml(absolute(image))}">\n` : ""}<link rel="stylesheet" href="/assets/theme.css">
+<link rel="stylesheet" href="/assets/site.css">
+</head>
+<body>
+<header class="site"><div class="container"><a class="brand" href="/">${brand}</a><nav class="site">${nav}</nav></div></header>
+<main>
+${options.body}
+</main>
+<footer class="site"><div class="container"><p>${contact}</p><p>${social}</p><p>© ${new Date().getFullYear()} ${escapeHtml(config.companyName)}</p></div></footer>
+</body>
+</html>
+`;
+}
+
+function card(href: string, title: string, imageUrl: string | null, details: string): string {
+  const image = safeUrl(imageUrl) ? `<img src="${escapeHtml(imageUrl!)}" alt="" loading="lazy">` : "";
+  return `<a class="card" href="${href}">${image}<div class="body"><h3>${escapeHtml(title)}</h3>${details}</div></a>`;
+}
+
+// The case study of a project: key facts, the description and rich body, the client quote and the gallery
+function projectDetails(project: Project, images: ProjectImage[], t: Texts): string {
+  const facts = [
+    [t.client, project.client],
+    [t.location, project.location],
+    [t.year, project.year?.toString()],
+    [t.services, project.services.join(", ")],
+  ].filter(([, value]) => value);
+  const factList = facts.length > 0
+    ? `<dl class="facts">${facts.map(([term, value]) => `<dt>${term}</dt><dd>${escapeHtml(value!)}</dd>`).join("")}</dl>`
+    : "";
+  const body = paragraphs(project.description) + renderRichText(project.body, project.bodyFormat);
+  const quote = project.clientQuote
+    ? `<blockquote><p>${escapeHtml(project.clientQuote)}</p>${project.clientQuoteAuthor ? `<footer>${escapeHtml(project.clientQuoteAuthor)}</footer>` : ""}</blockquote>`
+    : "";
+  const gallery = images.filter((image) => safeUrl(image.imageUrl));
+  const galleryHtml = gallery.length > 0
+    ? `<div class="gallery">${gallery.map((image) =>
+      `<figure><img src="${escapeHtml(image.imageUrl)}" alt="${escapeHtml(image.alt || image.caption || "")}" loading="lazy">${image.caption ? `<figcaption>${escapeHtml(image.caption)}</figcaption>` : ""}</figure>`).join("\n")}</div>`
+    : "";
+  return `${factList}${body}${quote}${galleryHtml}`;
+}
+
+function projectCards(projects: Project[]): string {
+  return `<div class="grid">${projects.map((project) =>
+    card(`/projects/${project.id}/`, project.title, project.imageUrl, `<p class="muted">${escapeHtml(project.category)}</p>`)).join("\n")}</div>`;
+}
+
+function productCards(products: RenderContext["products"]): string {
+  return `<div class="grid">${products.map((product) =>
+    card(`/products/${product.id}/`, product.title, product.imageUrl, `<p class="price">${escapeHtml(product.formattedPrice)}</p>`)).join("\n")}</div>`;
+}
+
+function contactForm(context: RenderContext, title?: string, description?: string): string {
+  const { t, config } = context;
+  const heading = title ? `<h2>${escapeHtml(title)}</h2>` : "";
+  const intro = description ? paragraphs(description) : "";
+  if (!formEndpoint) {
+    return config.email
+      ? `${heading}${intro}<p><a class="button" href="mailto:${escapeHtml(config.email)}">${t.mailUs}</a></p>`
+      : `${heading}${intro}`;
+  }
+  // "website" is the honeypot field the live contact form uses as well
+  return `${heading}${intro}
+<form class="contact" method="post" action="${escapeHtml(formEndpoint)}">
+<label>${t.name}<input name="name" required></label>
+<label>${t.email}<input type="email" name="email" required></label>
+<label>${t.subject}<input name="subject" required></label>
+<label>${t.message}<textarea name="message" rows="6" required></textarea></label>
+<label class="trap" aria-hidden="true">Website<input name="website" tabindex="-1" autocomplete="off"></label>
+<p><button class="button" type="submit">${t.send}</button></p>
+</form>`;
+}
+
+function renderBlock(context: RenderContext, block: PageBlock): string {
+  switch (block.type) {
+    case "hero": {
+      const cta = block.ctaLabel && safeUrl(block.ctaUrl)
+        ? `<p><a class="button" href="${escapeHtml(block.ctaUrl!)}">${escapeHtml(block.ctaLabel)}</a></p>`
+        : "";
+      const image = safeUrl(block.imageUrl) ? `<img src="${escapeHtml(block.imageUrl!)}" alt="">` : "";
+      return `<div class="hero"><div class="container"><h1>${escapeHtml(block.title)}</h1>${block.subtitle ? `<p>${escapeHtml(block.subtitle)}</p>` : ""}${cta}${image}</div></div>`;
+    }
+    case "richText":
+      return `<section class="container">${block.title ? `<h2>${escapeHtml(block.title)}</h2>` : ""}${paragraphs(block.content)}</section>`;
+    case "image":
+      return safeUrl(block.imageUrl)
+        ? `<section class="container"><figure><img src="${escapeHtml(block.imageUrl)}" alt="${escapeHtml(block.alt ?? "")}" loading="lazy">${block.caption ? `<figcaption>${escapeHtml(block.caption)}</figcaption>` : ""}</figure></section>`
+        : "";
+    case "projectGrid": {
+      const projects = context.projects
+        .filter((project) => (!block.category || project.category === block.category) && (!block.featured || project.featured))
+        .slice(0, block.limit ?? 100);
+      return `<section class="container">${block.title ? `<h2>${escapeHtml(block.title)}</h2>` : ""}${projectCards(projects)}</section>`;
+    }
+    case "productGrid":
+      return `<section class="container">${block.title ? `<h2>${escapeHtml(block.title)}</h2>` : ""}${productCards(context.products.filter((product) => !block.featured || product.featured).slice(0, block.limit ?? 100))}</section>`;
+    case "contactForm":
+      return `<section class="container">${contactForm(context, block.title, block.description)}</section>`;
+  }
+}
+
+function pagePath(page: Page): string {
+  return page.slug === homePageSlug ? "/" : `/${page.slug}/`;
+}
+
+function outputFile(pathname: string): string {
+  return pathname.endsWith("/") ? `${pathname.slice(1)}index.html` : pathname.slice(1);
+}
+
+// Renders every public URL of the site, keyed by the file it is written to
+async function renderSite(site: Site, config: SiteConfig): Promise<Map<string, string>> {
+  const t = site.defaultLocale === "en" ? texts.en : texts.nl;
+  const pages = (await storage.getPages(site.id))
+    .filter((page) => page.status === "published")
+    .sort((a, b) => a.navOrder - b.navOrder);
+  const projects = await storage.getProjects(site.id);
+  const activeProducts = await storage.getProducts(site.id, { status: "active" });
+  const context: RenderContext = {
+    site,
+    config,
+    t,
+    origin: `https://${site.hostname}`,
+    navPages: pages.filter((page) => page.showInNav),
+    projects,
+    products: await presentProducts(site, site.defaultLocale, activeProducts),
+  };
+
+  const files = new Map<string, string>();
+  const addPage = (pathname: string, options: Omit<Parameters<typeof layout>[1], "pathname">) =>
+    files.set(outputFile(pathname), layout(context, { ...options, pathname }));
+
+  for (const page of pages) {
+    addPage(pagePath(page), {
+      title: page.seoTitle || page.title,
+      description: page.seoDescription,
+      body: page.blocks.map((block) => renderBlock(context, block)).join("\n"),
+    });
+  }
+  if (!pages.some((page) => page.slug === homePageSlug)) {
+    addPage("/", {
+      title: config.companyName,
+      body: `<div class="hero"><div class="container"><h1>${escapeHtml(config.heroTitle || config.companyName)}</h1>${config.heroDescription ? `<p>${escapeHtml(config.heroDescription)}</p>` : ""}</div></div>`,
+    });
+  }
+
+  if (projects.length > 0) {
+    addPage("/projects/", { title: t.projects, body: `<section class="container"><h1>${t.projects}</h1>${projectCards(projects)}</section>` });
+  }
+  for (const project of projects) {
+    const image = safeUrl(project.imageUrl) ? `<img src="${escapeHtml(project.imageUrl!)}" alt="${escapeHtml(project.title)}">` : "";
+    addPage(`/projects/${project.id}/`, {
+      title: project.title,
+      description: project.description.slice(0, 160),
+      image: project.imageUrl,
+      body: `<article class="container"><p class="muted">${escapeHtml(project.category)}</p><h1>${escapeHtml(project.title)}</h1>${image}${projectDetails(project, await storage.getProjectImages(site.id, project.id), t)}</article>`,
+    });
+  }
+
+  if (context.products.length > 0) {
+    addPage("/products/", { title: t.products, body: `<section class="container"><h1>${t.products}</h1>${productCards(context.products)}</section>` });
+  }
+  for (const product of context.products) {
+    const image = safeUrl(product.imageUrl) ? `<img src="${escapeHtml(product.imageUrl!)}" alt="${escapeHtml(product.title)}">` : "";
+    const variants = product.variants.length > 0
+      ? `<ul>${product.variants.map((variant) =>
+        `<li>${escapeHtml(Object.values(variant.optionValues).join(" / "))}: ${escapeHtml(variant.formattedPrice)}</li>`).join("")}</ul>`
+      : "";
+    addPage(`/products/${product.id}/`, {
+      title: product.title,
+      description: product.description.slice(0, 160),
+      image: product.imageUrl,
+      body: `<article class="container">${product.category ? `<p class="muted">${escapeHtml(product.category.name)}</p>` : ""}<h1>${escapeHtml(product.title)}</h1>${image}<p class="price">${escapeHtml(product.formattedPrice)}</p>${variants}${paragraphs(product.description)}</article>`,
+    });
+  }
+
+  if (formEndpoint) {
+    addPage("/thank-you/", {
+      title: t.thanks,
+      body: `<section class="container"><h1>${t.thanks}</h1><p>${t.thanksBody}</p><p><a href="/">${t.backHome}</a></p></section>`,
+    });
+  }
+
+  files.set("404.html", layout(context, {
+    title: t.notFound,
+    pathname: "/404.html",
+    body: `<section class="container"><h1>${t.notFound}</h1><p><a href="/">${t.backHome}</a></p></section>`,
+  }));
+  files.set("assets/theme.css", buildThemeCss(resolveTheme(config)));
+  files.set("assets/site.css", siteCss);
+  files.set("sitemap.xml", await buildSitemap(context.origin, site));
+  files.set("robots.txt", buildRobotsTxt(context.origin));
+
+  // The same data the API serves, for scripts on the static site
+  files.set("api/config.json", JSON.stringify(config));
+  files.set("api/pages.json", JSON.stringify(pages));
+  files.set("api/projects.json", JSON.stringify(projects));
+  files.set("api/products.json", JSON.stringify(context.products));
+  return files;
+}
+
+export interface StaticBuildReport {
+  outputDir: string;
+  written: string[];
+  unchanged: number;
+  removed: string[];
+  durationMs: number;
+}
+
+function hash(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+async function readManifest(directory: string): Promise<Record<string, string>> {
+  try {
+    return JSON.parse(await fs.promises.readFile(path.join(directory, manifestFile), "utf8"));
+  } catch (error) {
+    return {};
+  }
+}
+
+async function runBuild(site: Site): Promise<StaticBuildReport> {
+  const started = Date.now();
+  const config = await storage.getSiteConfig(site.id);
+  if (!config) {
+    throw new Error(`${site.hostname} has no configuration to build from`);
+  }
+  const directory = staticOutputDir(site);
+  await fs.promises.mkdir(directory, { recursive: true });
+
+  // The manifest holds a hash per file from the previous build; only what changed is written
+  const previous = await readManifest(directory);
+  const manifest: Record<string, string> = {};
+  const report: StaticBuildReport = { outputDir: directory, written: [], unchanged: 0, removed: [], durationMs: 0 };
+
+  for (const [file, content] of await renderSite(site, config)) {
+    manifest[file] = hash(content);
+    if (previous[file] === manifest[file] && fs.existsSync(path.join(directory, file))) {
+      report.unchanged++;
+      continue;
+    }
+    await fs.promises.mkdir(path.dirname(path.join(directory, file)), { recursive: true });
+    await fs.promises.writeFile(path.join(directory, file), content);
+    report.written.push(file);
+  }
+
+  // Upload keys never change content, so a file that is already there is kept
+  for (const item of await storage.getMediaItems(site.id)) {
+    for (const { filename, url } of [item, ...item.variants]) {
+      if (!url.startsWith("/uploads/")) continue;
+      const file = `uploads/${filename}`;
+      manifest[file] = filename;
+      if (fs.existsSync(path.join(directory, file))) {
+        report.unchanged++;
+        continue;
+      }
+      const upload = await uploads.get(filename);
+      if (!upload) continue;
+      await fs.promises.mkdir(path.join(directory, "uploads"), { recursive: true });
+      await pipeline(upload.body, fs.createWriteStream(path.join(directory, file)));
+      report.written.push(file);
+    }
+  }
+
+  for (const file of Object.keys(previous)) {
+    if (file in manifest) continue;
+    await fs.promises.rm(path.join(directory, file), { force: true });
+    report.removed.push(file);
+    // Folders of removed pages, e.g. projects/<id>/, go when they are empty
+    for (let folder = path.dirname(file); folder !== "."; folder = path.dirname(folder)) {
+      const entries = await fs.promises.readdir(path.join(directory, folder)).catch(() => undefined);
+      if (!entries || entries.length > 0) break;
+      await fs.promises.rmdir(path.join(directory, folder));
+    }
+  }
+  await fs.promises.writeFile(path.join(directory, manifestFile), JSON.stringify(manifest, null, 2));
+
+  report.durationMs = Date.now() - started;
+  return report;
+}
+
+// Builds run one at a time per site, in the order they were asked for
+const builds = new Map<number, Promise<unknown>>();
+
+export function buildStaticSite(site: Site): Promise<StaticBuildReport> {
+  const build = (builds.get(site.id) ?? Promise.resolve()).catch(() => undefined).then(() => runBuild(site));
+  builds.set(site.id, build);
+  return build;
+}
+
+// With STATIC_AUTO_BUILD=true, sites that have been built before are rebuilt shortly after
+// their public content changes
+export function scheduleStaticBuilds() {
+  if (process.env.STATIC_AUTO_BUILD !== "true") return;
+
+  const pending = new Map<number, NodeJS.Timeout>();
+  onSiteEvent((event) => {
+    if (event.type.startsWith("message.") || event.type.startsWith("order.")) return;
+    clearTimeout(pending.get(event.siteId));
+    pending.set(event.siteId, setTimeout(async () => {
+      pending.delete(event.siteId);
+      try {
+        const site = await storage.getSite(event.siteId);
+        if (!site || !fs.existsSync(path.join(staticOutputDir(site), manifestFile))) return;
+        const report = await buildStaticSite(site);
+        log(`static build of ${site.hostname}: ${report.written.length} written, ${report.removed.length} removed`);
+      } catch (error) {
+        console.error("Static build failed", error);
+      }
+    }, 5000));
+  });
+}
@@ -0,0 +1,268 @@
+// Contract tests for the IStorage implementations. Every case runs against the MemStorage,
+// and against the DatabaseStorage as well when DATABASE_URL points at a migrated database.
+// Each case works in sites of its own, so the suites can share a database.
+//
+//   npm test
+//   DATABASE_URL=postgres://... npm test
+import { before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { randomBytes } from "crypto";
+import type { IStorage } from "./storage";
+
+// The module creates the default storage on import; without this it would need a database.
+// It is imported once the variable is set, before the first case runs.
+process.env.STORAGE ??= "memory";
+let storageModule: typeof import("./storage");
+
+const implementations: ["MemStorage" | "DatabaseStorage", boolean][] = [
+  ["MemStorage", true],
+  ["DatabaseStorage", !!process.env.DATABASE_URL],
+];
+
+function unique(prefix: string): string {
+  return `${prefix}-${randomBytes(4).toString("hex")}`;
+}
+
+for (const [name, enabled] of implementations) {
+  describe(`${name} contract`, { skip: enabled ? false : "DATABASE_URL is not set" }, () => {
+    let storage: IStorage;
+    before(async () => {
+      storageModule = await import("./storage");
+      storage = new storageModule[name]();
+    });
+
+    const newSite = () => storage.createSite({ name: "Test", hostname: `${unique("site")}.test` });
+    const newProject = (siteId: number, title: string, position?: number) =>
+      storage.createProject(siteId, { title, description: "Description", category: "test", position });
+    const newProduct = (siteId: number, stock: number | null) =>
+      storage.createProduct(siteId, { title: "Product", description: "Description", priceAmount: 1000, sku: unique("SKU"), stock });
+
+    describe("site scoping", () => {
+      it("keeps rows to the site they were created in", async () => {
+        const site = await newSite();
+        const other = await newSite();
+        const project = await newProject(site.id, "Mine");
+
+        assert.equal((await storage.getProject(site.id, project.id))?.title, "Mine");
+        assert.equal(await storage.getProject(other.id, project.id), undefined);
+        assert.deepEqual(await storage.getProjects(other.id), []);
+        assert.equal(await storage.updateProject(other.id, project.id, { title: "Theirs" }), undefined);
+        assert.equal(await storage.deleteProject(other.id, project.id), false);
+        assert.equal((await storage.getProject(site.id, project.id))?.title, "Mine");
+      });
+
+      it("resolves sites by hostname and custom domain", async () => {
+        const site = await newSite();
+        const domain = `${unique("domain")}.test`;
+        await storage.addSiteDomain(site.id, { domain });
+
+        assert.equal((await storage.getSiteByHostname(site.hostname))?.id, site.id);
+        assert.equal((await storage.getSiteByHostname(domain))?.id, site.id);
+        assert.equal(await storage.getSiteByHostname(`${unique("missing")}.test`), undefined);
+      });
+
+      it("gives users a role per site", async () => {
+        const site = await newSite();
+        const other = await newSite();
+        const user = await storage.createUser({ username: unique("user"), password: "hash" });
+
+        await storage.setSiteMember(site.id, user.id, "editor");
+        await storage.setSiteMember(site.id, user.id, "owner");
+        assert.equal((await storage.getSiteMember(site.id, user.id))?.role, "owner");
+        assert.equal(await storage.getSiteMember(other.id, user.id), undefined);
+        assert.deepEqual((await storage.getSiteMembers(site.id)).map((member) => member.userId), [user.id]);
+
+        assert.equal(await storage.removeSiteMember(site.id, user.id), true);
+        assert.equal(await storage.getSiteMember(site.id, user.id), undefined);
+      });
+    });
+
+    describe("pagination", () => {
+      it("pages through the listing in order and counts all rows", async () => {
+        const site = await newSite();
+        for (const position of [2, 0, 4, 1, 3]) await newProject(site.id, `Project ${position}`, position);
+
+        const page = await storage.getProjects(site.id, {}, { limit: 2, offset: 1 });
+        assert.deepEqual(page.map((project) => project.title), ["Project 1", "Project 2"]);
+        const last = await storage.getProjects(site.id, {}, { limit: 2, offset: 4 });
+        assert.deepEqual(last.map((project) => project.title), ["Project 4"]);
+        assert.equal(await storage.countProjects(site.id), 5);
+      });
+
+      it("sorts by the requested field and order", async () => {
+        const site = await newSite();
+        for (const title of ["B", "C", "A"]) await newProject(site.id, title);
+
+        const sorted = await storage.getProjects(site.id, {}, { sort: "title", order: "desc" });
+        assert.deepEqual(sorted.map((project) => project.title), ["C", "B", "A"]);
+      });
+    });
+
+    describe("trash", () => {
+      it("hides deleted rows until they are restored", async () => {
+        const site = await newSite();
+        const project = await newProject(site.id, "Trashed");
+
+        assert.equal(await storage.deleteProject(site.id, project.id), true);
+        assert.equal(await storage.getProject(site.id, project.id), undefined);
+        assert.equal(await storage.countProjects(site.id), 0);
+        assert.deepEqual((await storage.getTrash(site.id)).map((item) => [item.type, item.id]), [["project", project.id]]);
+
+        assert.equal(await storage.restoreFromTrash(site.id, "project", project.id), true);
+        assert.equal((await storage.getProject(site.id, project.id))?.title, "Trashed");
+        assert.deepEqual(await storage.getTrash(site.id), []);
+      });
+
+      it("only purges what is in the trash", async () => {
+        const site = await newSite();
+        const project = await newProject(site.id, "Purged");
+
+        assert.equal(await storage.purgeFromTrash(site.id, "project", project.id), false);
+        await storage.deleteProject(site.id, project.id);
+        assert.equal(await storage.purgeFromTrash(site.id, "project", project.id), true);
+        assert.deepEqual(await storage.getTrash(site.id), []);
+        assert.equal(await storage.restoreFromTrash(site.id, "project", project.id), false);
+      });
+    });
+
+    describe("reorder", () => {
+      it("applies an order that lists every project once", async () => {
+        const site = await newSite();
+        const [a, b, c] = [await newProject(site.id, "A", 0), await newProject(site.id, "B", 1), await newProject(site.id, "C", 2)];
+
+        assert.equal(await storage.reorderProjects(site.id, [c.id, a.id, b.id]), true);
+        assert.deepEqual((await storage.getProjects(site.id)).map((project) => project.title), ["C", "A", "B"]);
+      });
+
+      it("refuses incomplete, repeated or foreign ids", async () => {
+        const site = await newSite();
+        const other = await newSite();
+        const [a, b] = [await newProject(site.id, "A", 0), await newProject(site.id, "B", 1)];
+        const foreign = await newProject(other.id, "Foreign");
+
+        assert.equal(await storage.reorderProjects(site.id, [b.id]), false);
+        assert.equal(await storage.reorderProjects(site.id, [b.id, b.id]), false);
+        assert.equal(await storage.reorderProjects(site.id, [b.id, foreign.id]), false);
+        assert.deepEqual((await storage.getProjects(site.id)).map((project) => project.id), [a.id, b.id]);
+      });
+    });
+
+    describe("placeOrder", () => {
+      const order = (totalAmount: number) => ({
+        reference: unique("ORDER"),
+        customerName: "Customer",
+        customerEmail: "customer@example.com",
+        currency: "EUR",
+        totalAmount,
+      });
+      const line = (productId: number, quantity: number) => ({
+        productId,
+        title: "Product",
+        unitAmount: 1000,
+        quantity,
+        totalAmount: 1000 * quantity,
+      });
+
+      it("takes the lines out of stock and restocks them", async () => {
+        const site = await newSite();
+        const product = await newProduct(site.id, 5);
+
+        const placed = await storage.placeOrder(site.id, order(3000), [line(product.id, 3)]);
+        assert.equal((await storage.getProduct(site.id, product.id))?.stock, 2);
+        assert.equal((await storage.getOrderLines(site.id, placed.id)).length, 1);
+
+        await storage.restockOrder(site.id, placed.id);
+        assert.equal((await storage.getProduct(site.id, product.id))?.stock, 5);
+      });
+
+      it("refuses the whole order when a line is out of stock", async () => {
+        const site = await newSite();
+        const plenty = await newProduct(site.id, 10);
+        const scarce = await newProduct(site.id, 1);
+
+        await assert.rejects(
+          storage.placeOrder(site.id, order(4000), [line(plenty.id, 2), line(scarce.id, 2)]),
+          (error) => error instanceof storageModule.InsufficientStockError && error.productId === scarce.id,
+        );
+        assert.equal((await storage.getProduct(site.id, plenty.id))?.stock, 10);
+        assert.equal((await storage.getProduct(site.id, scarce.id))?.stock, 1);
+        assert.deepEqual(await storage.getOrders(site.id), []);
+      });
+
+      it("does not track stock that is null", async () => {
+        const site = await newSite();
+        const product = await newProduct(site.id, null);
+
+        await storage.placeOrder(site.id, order(100000), [line(product.id, 100)]);
+        assert.equal((await storage.getProduct(site.id, product.id))?.stock, null);
+      });
+    });
+
+    describe("webhook deliveries", () => {
+      const newDelivery = async (siteId: number, nextAttemptAt: Date | null) => {
+        const webhook = await storage.createWebhook(siteId, { url: "https://example.com/hook", events: ["project.created"], secret: "secret" });
+        return storage.createWebhookDelivery(siteId, {
+          webhookId: webhook.id,
+          eventId: unique("event"),
+          eventType: "project.created",
+          payload: { id: 1 },
+          nextAttemptAt,
+        });
+      };
+
+      it("starts pending and records the outcome of attempts", async () => {
+        const site = await newSite();
+        const delivery = await newDelivery(site.id, new Date());
+        assert.equal(delivery.status, "pending");
+        assert.equal(delivery.attempts, 0);
+
+        const failed = await storage.updateWebhookDelivery(delivery.id, { attempts: 1, responseStatus: 500, error: "boom" });
+        assert.equal(failed?.status, "pending");
+        assert.equal(failed?.responseStatus, 500);
+
+        const deliveredAt = new Date();
+        const succeeded = await storage.updateWebhookDelivery(delivery.id, { status: "succeeded", attempts: 2, nextAttemptAt: null, error: null, deliveredAt });
+        assert.equal(succeeded?.status, "succeeded");
+        assert.equal(succeeded?.attempts, 2);
+        assert.equal(succeeded?.error, null);
+        assert.equal(succeeded?.deliveredAt?.getTime(), deliveredAt.getTime());
+      });
+
+      it("lists only pending deliveries that are due", async () => {
+        const site = await newSite();
+        const now = new Date();
+        const due = await newDelivery(site.id, new Date(now.getTime() - 1000));
+        const later = await newDelivery(site.id, new Date(now.getTime() + 60 * 1000));
+        const done = await newDelivery(site.id, new Date(now.getTime() - 1000));
+        await storage.updateWebhookDelivery(done.id, { status: "succeeded", nextAttemptAt: null });
+
+        const dueIds = (await storage.getDueWebhookDeliveries(now, 1000)).map((delivery) => delivery.id);
+        assert.ok(dueIds.includes(due.id));
+        assert.ok(!dueIds.includes(later.id));
+        assert.ok(!dueIds.includes(done.id));
+      });
+
+      it("filters the delivery log by status and keeps it to the site", async () => {
+        const site = await newSite();
+        const other = await newSite();
+        const delivery = await newDelivery(site.id, new Date());
+        await storage.updateWebhookDelivery(delivery.id, { status: "failed", nextAttemptAt: null });
+
+        assert.deepEqual((await storage.getWebhookDeliveries(site.id, delivery.webhookId, { status: "failed", limit: 50 })).map((row) => row.id), [delivery.id]);
+        assert.deepEqual(await storage.getWebhookDeliveries(site.id, delivery.webhookId, { status: "pending", limit: 50 }), []);
+        assert.equal(await storage.getWebhookDelivery(other.id, delivery.id), undefined);
+      });
+    });
+
+    describe("transaction", () => {
+      it("undoes every write of work that throws", async () => {
+        const site = await newSite();
+        await assert.rejects(storage.transaction(async () => {
+          await newProject(site.id, "Rolled back");
+          throw new Error("fail");
+        }), /fail/);
+        assert.deepEqual(await storage.getProjects(site.id), []);
+      });
+    });
+  });
+}
@@ -1,274 +1,3129 @@
 import {
-  users, siteConfig, projects, products, messages, messageReplies,
-  type User, type InsertUser,
-  type SiteConfig, type InsertSiteConfig,
-  type Project, type InsertProject,
-  type Product, type InsertProduct,
-  type Message, type InsertMessage,
-  type MessageReply, type InsertMessageReply
+  users, sites, siteDomains, siteMembers, media, siteConfig, siteConfigDrafts, revisions, pages, translations, projects, projectImages, products, productCategories, productVariants, carts, cartItems, orders, orderLines, messages, messageReplies, auditLogs,
+  webhooks, webhookDeliveries,
+  type User, type InsertUser, type UserRole, type PlatformRole,
+  type Site, type InsertSite,
+  type SiteDomain, type InsertSiteDomain, type SiteMember,
+  type Media, type InsertMedia, type MediaFilters,
+  type SiteConfig, type InsertSiteConfig, type SiteConfigDraft,
+  type Revision, type RevisionEntityType,
+  type Page, type InsertPage,
+  type Translation, type InsertTranslation,
+  type Project, type InsertProject, type ProjectFilters, type ProjectSortField, type ProjectImage, type InsertProjectImage,
+  type Product, type InsertProduct, type ProductFilters, type ProductSortField,
+  type ProductCategory, type InsertProductCategory,
+  type ProductVariant, type InsertProductVariant,
+  type Message, type InsertMessage, type MessageFilters, type MessageSortField, type MessageSpamVerdict,
+  type MessageReply, type InsertMessageReply, type ReplyDelivery,
+  type Cart, type CartItem, type CartItemInput,
+  type Order, type InsertOrder, type OrderLine, type InsertOrderLine, type OrderFilters,
+  type AuditLog, type AuditAction, type AuditChanges, type AuditLogFilters,
+  type TrashEntityType, type TrashFilters, type TrashItem,
+  type ArchivedMessage,
+  type Webhook, type InsertWebhook, type WebhookDelivery, type InsertWebhookDelivery, type WebhookDeliveryFilters,
+  type ListOptions, type SortOrder,
+  searchResultTypes, type SearchResultType, type SearchHit, type MessageSearchHit
 } from "@shared/schema";
-import { db } from "./db";
-import { eq } from "drizzle-orm";
+import { db, pool, connectDatabase } from "./db";
+import { AsyncLocalStorage } from "async_hooks";
+import { and, arrayContains, asc, count, desc, eq, gte, inArray, isNotNull, isNull, lte, max, or, sql, getTableColumns, is, SQL, type Column, type Table } from "drizzle-orm";
+import type { PgSelect } from "drizzle-orm/pg-core";
+import { documentVector, pageBodySql, pageBodyText, headlineOptions, matchWords, highlightWords } from "./search";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+
+export class InsufficientStockError extends Error {
+  constructor(public productId: number, public variantId: number | null) {
+    super("Insufficient stock");
+  }
+}
+
+const PostgresSessionStore = connectPg(session);
+const MemoryStore = createMemoryStore(session);
+
+// Field-level diff between two versions of a record; `undefined` stands for "did not exist"
+export function diffRecords(before?: object, after?: object): AuditChanges {
+  const beforeRecord = (before ?? {}) as Record<string, unknown>;
+  const afterRecord = (after ?? {}) as Record<string, unknown>;
+  const changes: AuditChanges = {};
+
+  const keys = new Set([...Object.keys(beforeRecord), ...Object.keys(afterRecord)]);
+  for (const key of Array.from(keys)) {
+    if (key === "password" || key === "secret") continue;
+    const from = beforeRecord[key] ?? null;
+    const to = afterRecord[key] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[key] = { before: from, after: to };
+    }
+  }
+  return changes;
+}
+
+// True when both lists hold the same ids, ignoring order
+function sameIds(current: number[], requested: number[]): boolean {
+  return current.length === requested.length &&
+    new Set(requested).size === requested.length &&
+    requested.every((id) => current.includes(id));
+}
+
+// Revisions store rows as JSON, so dates come back as ISO strings in both storages
+function toRevisionData(row: object): Record<string, unknown> {
+  return JSON.parse(JSON.stringify(row));
+}
 
 export interface IStorage {
+  sessionStore: session.Store;
+
+  // Runs the work as one unit: when it throws, everything it wrote through the storage is undone
+  transaction<T>(work: () => Promise<T>): Promise<T>;
+
   // Users
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
-  createUser(user: InsertUser): Promise<User>;
+  getUsers(): Promise<User[]>;
+  createUser(user: InsertUser, actorId?: number): Promise<User>;
+  updateUserPassword(id: number, password: string): Promise<boolean>;
+  updateUserRole(id: number, role: PlatformRole, actorId?: number): Promise<User | undefined>;
+
+  // Sites
+  getSites(): Promise<Site[]>;
+  getSite(id: number): Promise<Site | undefined>;
+  getSiteByHostname(hostname: string): Promise<Site | undefined>;
+  createSite(site: InsertSite, actorId?: number): Promise<Site>;
+  updateSite(id: number, site: Partial<InsertSite>, actorId?: number): Promise<Site | undefined>;
+  deleteSite(id: number, actorId?: number): Promise<boolean>;
+  getSiteDomains(siteId: number): Promise<SiteDomain[]>;
+  addSiteDomain(siteId: number, domain: InsertSiteDomain, actorId?: number): Promise<SiteDomain>;
+  removeSiteDomain(siteId: number, id: number, actorId?: number): Promise<boolean>;
+
+  // Site Members
+  getSiteMembers(siteId: number): Promise<SiteMember[]>;
+  getSiteMember(siteId: number, userId: number): Promise<SiteMember | undefined>;
+  // Adds the user to the site, or changes the role they have there
+  setSiteMember(siteId: number, userId: number, role: UserRole, actorId?: number): Promise<SiteMember>;
+  removeSiteMember(siteId: number, userId: number, actorId?: number): Promise<boolean>;
+
+  // Media
+  getMediaItems(siteId: number, filters?: MediaFilters): Promise<Media[]>;
+  getMediaItem(siteId: number, id: number): Promise<Media | undefined>;
+  getAllMediaFilenames(): Promise<string[]>; // stored files of every site, including image variants
+  createMediaItem(siteId: number, item: InsertMedia, actorId?: number): Promise<Media>;
+  updateMediaItem(siteId: number, id: number, item: Partial<InsertMedia>, actorId?: number): Promise<Media | undefined>;
+  deleteMediaItem(siteId: number, id: number, actorId?: number): Promise<boolean>;
 
   // Site Config
-  getSiteConfig(): Promise<SiteConfig | undefined>;
-  updateSiteConfig(config: InsertSiteConfig): Promise<SiteConfig>;
+  getSiteConfig(siteId: number): Promise<SiteConfig | undefined>;
+  updateSiteConfig(siteId: number, config: InsertSiteConfig, actorId?: number): Promise<SiteConfig>;
+  getSiteConfigDraft(siteId: number): Promise<SiteConfigDraft | undefined>;
+  saveSiteConfigDraft(siteId: number, config: InsertSiteConfig, actorId?: number): Promise<SiteConfigDraft>;
+  deleteSiteConfigDraft(siteId: number, actorId?: number): Promise<boolean>;
+
+  // Revisions
+  getRevisions(siteId: number, entityType: RevisionEntityType, entityId: number): Promise<Revision[]>;
+  getRevision(siteId: number, id: number): Promise<Revision | undefined>;
+
+  // Pages
+  getPages(siteId: number): Promise<Page[]>;
+  getPage(siteId: number, id: number): Promise<Page | undefined>;
+  getPageBySlug(siteId: number, slug: string): Promise<Page | undefined>;
+  createPage(siteId: number, page: InsertPage, actorId?: number): Promise<Page>;
+  updatePage(siteId: number, id: number, page: Partial<InsertPage>, actorId?: number): Promise<Page | undefined>;
+  deletePage(siteId: number, id: number, actorId?: number): Promise<boolean>;
+  reorderPages(siteId: number, ids: number[], actorId?: number): Promise<boolean>;
+
+  // Translations
+  getTranslations(siteId: number, entityType?: string, entityIds?: number[], locale?: string): Promise<Translation[]>;
+  upsertTranslation(siteId: number, translation: InsertTranslation, actorId?: number): Promise<Translation>;
+  deleteTranslation(siteId: number, id: number, actorId?: number): Promise<boolean>;
 
   // Projects
-  getProjects(): Promise<Project[]>;
-  getProject(id: number): Promise<Project | undefined>;
-  createProject(project: InsertProject): Promise<Project>;
-  updateProject(id: number, project: Partial<InsertProject>): Promise<Project | undefined>;
-  deleteProject(id: number): Promise<boolean>;
+  getProjects(siteId: number, filters?: ProjectFilters, options?: ListOptions<ProjectSortField>): Promise<Project[]>;
+  countProjects(siteId: number, filters?: ProjectFilters): Promise<number>;
+  getProject(siteId: number, id: number): Promise<Project | undefined>;
+  createProject(siteId: number, project: InsertProject, actorId?: number): Promise<Project>;
+  updateProject(siteId: number, id: number, project: Partial<InsertProject>, actorId?: number): Promise<Project | undefined>;
+  // Moves the project to the trash; see the Trash methods below
+  deleteProject(siteId: number, id: number, actorId?: number): Promise<boolean>;
+  // Returns false unless ids lists every project of the site exactly once, checked under a lock
+  reorderProjects(siteId: number, ids: number[], actorId?: number): Promise<boolean>;
+
+  // Project Gallery
+  getProjectImages(siteId: number, projectId: number): Promise<ProjectImage[]>;
+  getProjectImage(siteId: number, id: number): Promise<ProjectImage | undefined>;
+  createProjectImage(siteId: number, projectId: number, image: InsertProjectImage & { imageUrl: string }, actorId?: number): Promise<ProjectImage>;
+  updateProjectImage(siteId: number, id: number, image: Partial<InsertProjectImage & { imageUrl: string }>, actorId?: number): Promise<ProjectImage | undefined>;
+  deleteProjectImage(siteId: number, id: number, actorId?: number): Promise<boolean>;
+  // Returns false unless ids lists every image of the project exactly once
+  reorderProjectImages(siteId: number, projectId: number, ids: number[], actorId?: number): Promise<boolean>;
 
   // Products
-  getProducts(): Promise<Product[]>;
-  getProduct(id: number): Promise<Product | undefined>;
-  createProduct(product: InsertProduct): Promise<Product>;
-  updateProduct(id: number, product: Partial<InsertProduct>): Promise<Product | undefined>;
-  deleteProduct(id: number): Promise<boolean>;
+  getProducts(siteId: number, filters?: ProductFilters, options?: ListOptions<ProductSortField>): Promise<Product[]>;
+  countProducts(siteId: number, filters?: ProductFilters): Promise<number>;
+  getProduct(siteId: number, id: number): Promise<Product | undefined>;
+  createProduct(siteId: number, product: InsertProduct, actorId?: number): Promise<Product>;
+  updateProduct(siteId: number, id: number, product: Partial<InsertProduct>, actorId?: number): Promise<Product | undefined>;
+  // Moves the product to the trash; its variants, translations and cart items stay until it is purged
+  deleteProduct(siteId: number, id: number, actorId?: number): Promise<boolean>;
+  reorderProducts(siteId: number, ids: number[], actorId?: number): Promise<boolean>;
+
+  // Product Catalog
+  getProductCategories(siteId: number): Promise<ProductCategory[]>;
+  getProductCategory(siteId: number, id: number): Promise<ProductCategory | undefined>;
+  getProductCategoryBySlug(siteId: number, slug: string): Promise<ProductCategory | undefined>;
+  createProductCategory(siteId: number, category: InsertProductCategory, actorId?: number): Promise<ProductCategory>;
+  updateProductCategory(siteId: number, id: number, category: Partial<InsertProductCategory>, actorId?: number): Promise<ProductCategory | undefined>;
+  deleteProductCategory(siteId: number, id: number, actorId?: number): Promise<boolean>;
+  getProductVariants(siteId: number, productId?: number): Promise<ProductVariant[]>;
+  getProductVariant(siteId: number, id: number): Promise<ProductVariant | undefined>;
+  createProductVariant(siteId: number, productId: number, variant: InsertProductVariant, actorId?: number): Promise<ProductVariant>;
+  updateProductVariant(siteId: number, id: number, variant: Partial<InsertProductVariant>, actorId?: number): Promise<ProductVariant | undefined>;
+  deleteProductVariant(siteId: number, id: number, actorId?: number): Promise<boolean>;
+  // SKUs are unique across the products and variants of a site
+  isSkuTaken(siteId: number, sku: string, exclude?: { productId?: number; variantId?: number }): Promise<boolean>;
+
+  // Carts
+  getCartByToken(siteId: number, token: string): Promise<Cart | undefined>;
+  createCart(siteId: number, token: string): Promise<Cart>;
+  getCartItems(siteId: number, cartId: number): Promise<CartItem[]>;
+  setCartItem(siteId: number, cartId: number, item: CartItemInput): Promise<CartItem | undefined>; // quantity 0 removes it
+  clearCart(siteId: number, cartId: number): Promise<void>;
+
+  // Orders
+  getOrders(siteId: number, filters?: OrderFilters): Promise<Order[]>;
+  getOrder(siteId: number, id: number): Promise<Order | undefined>;
+  getOrderByReference(siteId: number, reference: string): Promise<Order | undefined>;
+  getOrderByPayment(siteId: number, provider: string, paymentId: string): Promise<Order | undefined>;
+  getOrderLines(siteId: number, orderId: number): Promise<OrderLine[]>;
+  // Takes the lines out of stock and creates the order in one go; throws InsufficientStockError
+  placeOrder(siteId: number, order: InsertOrder, lines: InsertOrderLine[]): Promise<Order>;
+  updateOrder(siteId: number, id: number, order: Partial<InsertOrder>, actorId?: number): Promise<Order | undefined>;
+  restockOrder(siteId: number, orderId: number): Promise<void>;
 
   // Messages
-  getMessages(): Promise<Message[]>;
-  getMessage(id: number): Promise<Message | undefined>;
-  createMessage(message: InsertMessage): Promise<Message>;
-  markMessageAsRead(id: number): Promise<boolean>;
+  getMessages(siteId: number, filters?: MessageFilters, options?: ListOptions<MessageSortField>): Promise<Message[]>;
+  countMessages(siteId: number, filters?: MessageFilters): Promise<number>;
+  getMessage(siteId: number, id: number): Promise<Message | undefined>;
+  createMessage(siteId: number, message: InsertMessage, verdict?: MessageSpamVerdict): Promise<Message>;
+  markMessageAsRead(siteId: number, id: number, actorId?: number): Promise<boolean>;
+  setMessageSpam(siteId: number, id: number, isSpam: boolean, actorId?: number): Promise<Message | undefined>;
+  // Moves the message and with it its replies to the trash
+  deleteMessage(siteId: number, id: number, actorId?: number): Promise<boolean>;
+  // Whether a message with exactly this text was received since the given time
+  hasDuplicateMessage(siteId: number, text: string, since: Date): Promise<boolean>;
+  // Not scoped to a site: the token in a reply email identifies the thread on its own
+  getMessageByReplyToken(token: string): Promise<Message | undefined>;
+  setMessageReplyToken(siteId: number, id: number, token: string): Promise<Message | undefined>;
+  // Restores a message from a site archive with its state, dates and replies
+  importMessage(siteId: number, message: ArchivedMessage): Promise<Message>;
 
   // Message Replies
-  getMessageReplies(messageId: number): Promise<MessageReply[]>;
-  createMessageReply(reply: InsertMessageReply): Promise<MessageReply>;
+  getMessageReplies(siteId: number, messageId: number): Promise<MessageReply[]>;
+  createMessageReply(siteId: number, reply: InsertMessageReply, actorId?: number): Promise<MessageReply | undefined>;
+  updateReplyDelivery(siteId: number, id: number, delivery: Partial<ReplyDelivery>): Promise<MessageReply | undefined>;
+
+  // Trash
+  // Deleted projects, products and messages are hidden from every other method until restored or purged
+  getTrash(siteId: number, filters?: TrashFilters): Promise<TrashItem[]>;
+  restoreFromTrash(siteId: number, type: TrashEntityType, id: number, actorId?: number): Promise<boolean>;
+  // Deletes a trashed row for good, with its translations, variants or replies
+  purgeFromTrash(siteId: number, type: TrashEntityType, id: number, actorId?: number): Promise<boolean>;
+
+  // Audit Log
+  getAuditLogs(filters: AuditLogFilters): Promise<AuditLog[]>;
+
+  // Webhooks
+  getWebhooks(siteId: number): Promise<Webhook[]>;
+  getWebhook(siteId: number, id: number): Promise<Webhook | undefined>;
+  createWebhook(siteId: number, webhook: InsertWebhook & { secret: string }, actorId?: number): Promise<Webhook>;
+  updateWebhook(siteId: number, id: number, webhook: Partial<InsertWebhook>, actorId?: number): Promise<Webhook | undefined>;
+  deleteWebhook(siteId: number, id: number, actorId?: number): Promise<boolean>;
+  getWebhookDeliveries(siteId: number, webhookId: number, filters: WebhookDeliveryFilters): Promise<WebhookDelivery[]>;
+  getWebhookDelivery(siteId: number, id: number): Promise<WebhookDelivery | undefined>;
+  createWebhookDelivery(siteId: number, delivery: InsertWebhookDelivery): Promise<WebhookDelivery>;
+  updateWebhookDelivery(id: number, delivery: Partial<InsertWebhookDelivery>): Promise<WebhookDelivery | undefined>;
+  // Pending deliveries of all sites whose next attempt is due, oldest first
+  getDueWebhookDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]>;
+
+  // Search; `config` is the Postgres text search configuration, see server/search.ts
+  searchContent(siteId: number, query: string, options: { config: string; type?: SearchResultType; limit: number }): Promise<SearchHit[]>;
+  searchMessages(siteId: number, query: string, options: { config: string; limit: number }): Promise<MessageSearchHit[]>;
 }
 
-export class DatabaseStorage implements IStorage {
-  constructor() {
-    this.initializeDefaults();
-  }
-
-  private async initializeDefaults() {
-    // Check if site config exists, if not create default
-    const existingConfig = await this.getSiteConfig();
-    if (!existingConfig) {
-      await this.updateSiteConfig({
-        companyName: "Voorbeeld Bedrijf BV",
-        heroTitle: "Welkom bij Voorbeeld Bedrijf BV",
-        heroDescription: "Wij leveren professionele diensten en hoogwaardige producten die uw verwachtingen overtreffen.",
-        aboutTitle: "Over Ons",
-        aboutDescription: "Met meer dan 10 jaar ervaring in de branche, zijn wij uw betrouwbare partner voor innovatieve oplossingen. Ons toegewijde team van experts werkt samen om uw visie werkelijkheid te maken en uw bedrijfsdoelen te overtreffen.",
-        primaryColor: "#2563eb",
-        email: "info@voorbeeldbedrijf.nl",
-        phone: "+31 20 123 4567",
-        address: "Hoofdstraat 123, 1234 AB Amsterdam",
-        facebookUrl: undefined,
-        instagramUrl: undefined,
-        linkedinUrl: undefined,
-        metaDescription: "Voorbeeld Bedrijf BV - Professionele diensten en hoogwaardige producten. Meer dan 10 jaar ervaring in innovatieve oplossingen.",
-        metaKeywords: "professionele diensten, hoogwaardige producten, innovatieve oplossingen, betrouwbare partner",
-      });
-    }
+async function initializeDefaults(storage: IStorage) {
+  // Create the default site on first start; further sites are added through the API
+  let [site] = await storage.getSites();
+  if (!site) {
+    site = await storage.createSite({
+      name: "Voorbeeld Bedrijf BV",
+      hostname: process.env.DEFAULT_SITE_HOSTNAME || "localhost",
+    });
+  }
 
-    // Add demo projects if none exist
-    const existingProjects = await this.getProjects();
-    if (existingProjects.length === 0) {
-      const demoProjects = [
-        {
-          title: "Modern Kantoorgebouw Amsterdam",
-          description: "Ontwerp en realisatie van een modern kantoorgebouw met duurzame materialen en energy-efficient systemen.",
-          category: "architectuur",
-          status: "completed" as const,
-          imageUrl: "https://images.unsplash.com/photo-1486406146926-c627a92ad1ab?w=800&h=600&fit=crop",
-        },
-        {
-          title: "Luxe Woonhuis Interieur",
-          description: "Complete interieurinrichting van een luxe woonhuis met moderne elementen en klassieke accenten.",
-          category: "interieur",
-          status: "completed" as const,
-          imageUrl: "https://images.unsplash.com/photo-1586023492125-27b2c045efd7?w=800&h=600&fit=crop",
-        },
-        {
-          title: "E-commerce Platform",
-          description: "Ontwikkeling van een volledig responsive e-commerce platform met moderne technologieën.",
-          category: "web",
-          status: "progress" as const,
-          imageUrl: "https://images.unsplash.com/photo-1460925895917-afdab827c52f?w=800&h=600&fit=crop",
-        }
-      ];
+  // Check if site config exists, if not create default
+  const existingConfig = await storage.getSiteConfig(site.id);
+  if (!existingConfig) {
+    await storage.updateSiteConfig(site.id, {
+      companyName: "Voorbeeld Bedrijf BV",
+      heroTitle: "Welkom bij Voorbeeld Bedrijf BV",
+      heroDescription: "Wij leveren professionele diensten en hoogwaardige producten die uw verwachtingen overtreffen.",
+      aboutTitle: "Over Ons",
+      aboutDescription: "Met meer dan 10 jaar ervaring in de branche, zijn wij uw betrouwbare partner voor innovatieve oplossingen. Ons toegewijde team van experts werkt samen om uw visie werkelijkheid te maken en uw bedrijfsdoelen te overtreffen.",
+      primaryColor: "#2563eb",
+      email: "info@voorbeeldbedrijf.nl",
+      phone: "+31 20 123 4567",
+      address: "Hoofdstraat 123, 1234 AB Amsterdam",
+      facebookUrl: undefined,
+      instagramUrl: undefined,
+      linkedinUrl: undefined,
+      metaDescription: "Voorbeeld Bedrijf BV - Professionele diensten en hoogwaardige producten. Meer dan 10 jaar ervaring in innovatieve oplossingen.",
+      metaKeywords: "professionele diensten, hoogwaardige producten, innovatieve oplossingen, betrouwbare partner",
+    });
+  }
 
-      for (const project of demoProjects) {
-        await this.createProject(project);
+  // Add a home page built from the hero and about texts if no pages exist
+  const existingPages = await storage.getPages(site.id);
+  if (existingPages.length === 0) {
+    const config = await storage.getSiteConfig(site.id);
+    await storage.createPage(site.id, {
+      slug: "home",
+      title: "Home",
+      status: "published",
+      blocks: [
+        { id: "hero", type: "hero", title: config?.heroTitle || config?.companyName || "Welkom", subtitle: config?.heroDescription ?? undefined },
+        { id: "about", type: "richText", title: config?.aboutTitle ?? undefined, content: config?.aboutDescription ?? "" },
+        { id: "projects", type: "projectGrid", title: "Projecten" },
+        { id: "products", type: "productGrid", title: "Producten" },
+        { id: "contact", type: "contactForm", title: "Contact" },
+      ],
+    });
+  }
+
+  // Add demo projects if none exist
+  const existingProjects = await storage.getProjects(site.id);
+  if (existingProjects.length === 0) {
+    const demoProjects = [
+      {
+        title: "Modern Kantoorgebouw Amsterdam",
+        description: "Ontwerp en realisatie van een modern kantoorgebouw met duurzame materialen en energy-efficient systemen.",
+        category: "architectuur",
+        status: "completed" as const,
+        imageUrl: "https://images.unsplash.com/photo-1486406146926-c627a92ad1ab?w=800&h=600&fit=crop",
+      },
+      {
+        title: "Luxe Woonhuis Interieur",
+        description: "Complete interieurinrichting van een luxe woonhuis met moderne elementen en klassieke accenten.",
+        category: "interieur",
+        status: "completed" as const,
+        imageUrl: "https://images.unsplash.com/photo-1586023492125-27b2c045efd7?w=800&h=600&fit=crop",
+      },
+      {
+        title: "E-commerce Platform",
+        description: "Ontwikkeling van een volledig responsive e-commerce platform met moderne technologieën.",
+        category: "web",
+        status: "progress" as const,
+        imageUrl: "https://images.unsplash.com/photo-1460925895917-afdab827c52f?w=800&h=600&fit=crop",
       }
+    ];
+
+    for (const project of demoProjects) {
+      await storage.createProject(site.id, project);
     }
+  }
 
-    // Add demo products if none exist
-    const existingProducts = await this.getProducts();
-    if (existingProducts.length === 0) {
-      const demoProducts = [
-        {
-          title: "Premium Consultancy Pakket",
-          description: "Uitgebreide consultancy diensten voor uw project van start tot finish.",
-          price: "€2.500",
-          status: "active" as const,
-          imageUrl: "https://images.unsplash.com/photo-1552664730-d307ca884978?w=800&h=600&fit=crop",
-        },
-        {
-          title: "Design Workshop",
-          description: "Interactieve workshop over modern design principes en trends.",
-          price: "€450",
-          status: "active" as const,
-          imageUrl: "https://images.unsplash.com/photo-1542744173-8e7e53415bb0?w=800&h=600&fit=crop",
-        },
-        {
-          title: "Digitale Strategie Audit",
-          description: "Complete audit van uw huidige digitale strategie met concrete verbetervoorstellen.",
-          price: "€1.200",
-          status: "active" as const,
-          imageUrl: "https://images.unsplash.com/photo-1551288049-bebda4e38f71?w=800&h=600&fit=crop",
-        }
-      ];
+  // Add demo products if none exist
+  const existingProducts = await storage.getProducts(site.id);
+  if (existingProducts.length === 0) {
+    const services = await storage.createProductCategory(site.id, { name: "Diensten", slug: "diensten", position: 0 });
+    const workshops = await storage.createProductCategory(site.id, { name: "Workshops", slug: "workshops", position: 1 });
 
-      for (const product of demoProducts) {
-        await this.createProduct(product);
-      }
-    }
+    await storage.createProduct(site.id, {
+      title: "Premium Consultancy Pakket",
+      description: "Uitgebreide consultancy diensten voor uw project van start tot finish.",
+      priceAmount: 250000,
+      currency: "EUR",
+      sku: "CONSULTANCY-PREMIUM",
+      categoryId: services.id,
+      status: "active",
+      imageUrl: "https://images.unsplash.com/photo-1552664730-d307ca884978?w=800&h=600&fit=crop",
+    });
+
+    const workshop = await storage.createProduct(site.id, {
+      title: "Design Workshop",
+      description: "Interactieve workshop over modern design principes en trends.",
+      priceAmount: 45000,
+      currency: "EUR",
+      sku: "WORKSHOP-DESIGN",
+      categoryId: workshops.id,
+      options: [{ name: "Groepsgrootte", values: ["Tot 5 personen", "Tot 12 personen"] }],
+      status: "active",
+      imageUrl: "https://images.unsplash.com/photo-1542744173-8e7e53415bb0?w=800&h=600&fit=crop",
+    });
+    await storage.createProductVariant(site.id, workshop.id, {
+      sku: "WORKSHOP-DESIGN-5",
+      optionValues: { Groepsgrootte: "Tot 5 personen" },
+      priceAmount: 45000,
+      stock: 8,
+      position: 0,
+    });
+    await storage.createProductVariant(site.id, workshop.id, {
+      sku: "WORKSHOP-DESIGN-12",
+      optionValues: { Groepsgrootte: "Tot 12 personen" },
+      priceAmount: 85000,
+      stock: 4,
+      position: 1,
+    });
+
+    await storage.createProduct(site.id, {
+      title: "Digitale Strategie Audit",
+      description: "Complete audit van uw huidige digitale strategie met concrete verbetervoorstellen.",
+      priceAmount: 120000,
+      currency: "EUR",
+      sku: "AUDIT-DIGITAL",
+      categoryId: services.id,
+      status: "active",
+      imageUrl: "https://images.unsplash.com/photo-1551288049-bebda4e38f71?w=800&h=600&fit=crop",
+    });
+  }
+}
+
+// ILIKE pattern for text anywhere in a column; % and _ typed by the user are matched literally
+function containsPattern(text: string): string {
+  return `%${text.replace(/[\\%_]/g, "\\$&")}%`;
+}
+
+function containsText(column: Column, text: string): SQL {
+  return sql`${column} ILIKE ${containsPattern(text)} ESCAPE '\\'`;
+}
+
+// ORDER BY for a list query; the id breaks ties so consecutive pages never overlap
+function listOrder(column: Column, id: Column, order: SortOrder = "asc"): SQL[] {
+  const direction = order === "desc" ? desc : asc;
+  return [direction(column), direction(id)];
+}
+
+function withPage<T extends PgSelect>(query: T, options: ListOptions<string>): T {
+  if (options.limit !== undefined) query = query.limit(options.limit);
+  if (options.offset) query = query.offset(options.offset);
+  return query;
+}
+
+function projectConditions(siteId: number, filters: ProjectFilters): SQL | undefined {
+  const conditions = [eq(projects.siteId, siteId), isNull(projects.deletedAt)];
+  if (filters.category) conditions.push(eq(projects.category, filters.category));
+  if (filters.status) conditions.push(eq(projects.status, filters.status));
+  if (filters.featured !== undefined) conditions.push(eq(projects.featured, filters.featured));
+  return and(...conditions);
+}
+
+function productConditions(siteId: number, filters: ProductFilters): SQL | undefined {
+  const conditions = [eq(products.siteId, siteId), isNull(products.deletedAt)];
+  if (filters.category) {
+    const category = db
+      .select({ id: productCategories.id })
+      .from(productCategories)
+      .where(and(eq(productCategories.siteId, siteId), eq(productCategories.slug, filters.category)));
+    conditions.push(inArray(products.categoryId, category));
+  }
+  if (filters.status) conditions.push(eq(products.status, filters.status));
+  if (filters.featured !== undefined) conditions.push(eq(products.featured, filters.featured));
+  if (filters.minPrice !== undefined) conditions.push(gte(products.priceAmount, filters.minPrice));
+  if (filters.maxPrice !== undefined) conditions.push(lte(products.priceAmount, filters.maxPrice));
+  return and(...conditions);
+}
+
+function messageConditions(siteId: number, filters: MessageFilters): SQL | undefined {
+  const conditions = [eq(messages.siteId, siteId), isNull(messages.deletedAt)];
+  if (filters.isRead !== undefined) {
+    // Messages created before is_read had a default may still hold null
+    conditions.push(filters.isRead ? eq(messages.isRead, true) : or(eq(messages.isRead, false), isNull(messages.isRead))!);
+  }
+  if (filters.isSpam !== undefined) conditions.push(eq(messages.isSpam, filters.isSpam));
+  if (filters.from) conditions.push(gte(messages.createdAt, filters.from));
+  if (filters.to) conditions.push(lte(messages.createdAt, filters.to));
+  return and(...conditions);
+}
+
+const trashTables = { project: projects, product: products, message: messages };
+
+function trashedBefore(column: Column, before: Date | undefined): SQL | undefined {
+  return before ? lte(column, before) : isNotNull(column);
+}
+
+function byDeletedAt(a: TrashItem, b: TrashItem): number {
+  return b.deletedAt.getTime() - a.deletedAt.getTime() || a.id - b.id;
+}
+
+// The transaction storage.transaction is running, so the queries of its work join it
+const currentTransaction = new AsyncLocalStorage<typeof db>();
+
+export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor() {
+    connectDatabase();
+    this.sessionStore = new PostgresSessionStore({ pool, createTableIfMissing: true });
+    initializeDefaults(this);
+  }
+
+  private get db(): typeof db {
+    return currentTransaction.getStore() ?? db;
+  }
+
+  // Transactions the methods open themselves become savepoints of this one
+  async transaction<T>(work: () => Promise<T>): Promise<T> {
+    return this.db.transaction((tx) => currentTransaction.run(tx, work));
+  }
+
+  private async recordAudit(
+    siteId: number | null,
+    action: AuditAction,
+    entityType: string,
+    entityId: number,
+    before: object | undefined,
+    after: object | undefined,
+    actorId?: number,
+  ) {
+    await this.db.insert(auditLogs).values({
+      siteId,
+      userId: actorId ?? null,
+      action,
+      entityType,
+      entityId,
+      changes: diffRecords(before, after),
+    });
+  }
+
+  private async recordRevision(
+    siteId: number,
+    entityType: RevisionEntityType,
+    entityId: number,
+    row: object,
+    actorId?: number,
+  ) {
+    const [latest] = await this.db
+      .select({ version: max(revisions.version) })
+      .from(revisions)
+      .where(and(
+        eq(revisions.siteId, siteId),
+        eq(revisions.entityType, entityType),
+        eq(revisions.entityId, entityId),
+      ));
+    await this.db.insert(revisions).values({
+      siteId,
+      entityType,
+      entityId,
+      version: (latest?.version ?? 0) + 1,
+      data: toRevisionData(row),
+      createdBy: actorId ?? null,
+    });
   }
 
   // Users
   async getUser(id: number): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
     return user || undefined;
   }
 
   async getUserByUsername(username: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.username, username));
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
     return user || undefined;
   }
 
-  async createUser(insertUser: InsertUser): Promise<User> {
-    const [user] = await db.insert(users).values(insertUser).returning();
+  async getUsers(): Promise<User[]> {
+    return await this.db.select().from(users).orderBy(users.id);
+  }
+
+  async createUser(insertUser: InsertUser, actorId?: number): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    await this.recordAudit(null, "create", "user", user.id, undefined, user, actorId);
     return user;
   }
 
+  async updateUserPassword(id: number, password: string): Promise<boolean> {
+    const result = await this.db.update(users).set({ password }).where(eq(users.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async updateUserRole(id: number, role: PlatformRole, actorId?: number): Promise<User | undefined> {
+    const existing = await this.getUser(id);
+    if (!existing) return undefined;
+
+    const [updated] = await this.db
+      .update(users)
+      .set({ role })
+      .where(eq(users.id, id))
+      .returning();
+    await this.recordAudit(null, "update", "user", id, existing, updated, actorId);
+    return updated;
+  }
+
+  // Sites
+  async getSites(): Promise<Site[]> {
+    return await this.db.select().from(sites).orderBy(sites.id);
+  }
+
+  async getSite(id: number): Promise<Site | undefined> {
+    const [site] = await this.db.select().from(sites).where(eq(sites.id, id));
+    return site || undefined;
+  }
+
+  async getSiteByHostname(hostname: string): Promise<Site | undefined> {
+    const [site] = await this.db.select().from(sites).where(eq(sites.hostname, hostname));
+    if (site) return site;
+
+    const [mapped] = await this.db
+      .select({ site: sites })
+      .from(siteDomains)
+      .innerJoin(sites, eq(siteDomains.siteId, sites.id))
+      .where(eq(siteDomains.domain, hostname));
+    return mapped?.site || undefined;
+  }
+
+  async createSite(site: InsertSite, actorId?: number): Promise<Site> {
+    const [created] = await this.db.insert(sites).values(site).returning();
+    await this.recordAudit(created.id, "create", "site", created.id, undefined, created, actorId);
+    return created;
+  }
+
+  async updateSite(id: number, site: Partial<InsertSite>, actorId?: number): Promise<Site | undefined> {
+    const existing = await this.getSite(id);
+    if (!existing) return undefined;
+
+    const [updated] = await this.db
+      .update(sites)
+      .set(site)
+      .where(eq(sites.id, id))
+      .returning();
+    await this.recordAudit(id, "update", "site", id, existing, updated, actorId);
+    return updated;
+  }
+
+  async deleteSite(id: number, actorId?: number): Promise<boolean> {
+    const deleted = await this.db.transaction(async (tx) => {
+      // Replies reference messages without a cascade, so remove them before the site cascade runs
+      const siteMessages = tx.select({ id: messages.id }).from(messages).where(eq(messages.siteId, id));
+      await tx.delete(messageReplies).where(inArray(messageReplies.messageId, siteMessages));
+      const [site] = await tx.delete(sites).where(eq(sites.id, id)).returning();
+      return site;
+    });
+    if (!deleted) return false;
+
+    await this.recordAudit(id, "delete", "site", id, deleted, undefined, actorId);
+    return true;
+  }
+
+  async getSiteDomains(siteId: number): Promise<SiteDomain[]> {
+    return await this.db
+      .select()
+      .from(siteDomains)
+      .where(eq(siteDomains.siteId, siteId))
+      .orderBy(siteDomains.createdAt);
+  }
+
+  async addSiteDomain(siteId: number, domain: InsertSiteDomain, actorId?: number): Promise<SiteDomain> {
+    const [created] = await this.db.insert(siteDomains).values({ ...domain, siteId }).returning();
+    await this.recordAudit(siteId, "create", "siteDomain", created.id, undefined, created, actorId);
+    return created;
+  }
+
+  async removeSiteDomain(siteId: number, id: number, actorId?: number): Promise<boolean> {
+    const [deleted] = await this.db
+      .delete(siteDomains)
+      .where(and(eq(siteDomains.siteId, siteId), eq(siteDomains.id, id)))
+      .returning();
+    if (!deleted) return false;
+
+    await this.recordAudit(siteId, "delete", "siteDomain", id, deleted, undefined, actorId);
+    return true;
+  }
+  // Site Members
+  async getSiteMembers(siteId: number): Promise<SiteMember[]> {
+    return await this.db.select().from(siteMembers).where(eq(siteMembers.siteId, siteId)).orderBy(siteMembers.id);
+  }
+
+  async getSiteMember(siteId: number, userId: number): Promise<SiteMember | undefined> {
+    const [member] = await this.db
+      .select()
+      .from(siteMembers)
+      .where(and(eq(siteMembers.siteId, siteId), eq(siteMembers.userId, userId)));
+    return member || undefined;
+  }
+
+  async setSiteMember(siteId: number, userId: number, role: UserRole, actorId?: number): Promise<SiteMember> {
+    const existing = await this.getSiteMember(siteId, userId);
+    const [member] = await this.db
+      .insert(siteMembers)
+      .values({ siteId, userId, role })
+      .onConflictDoUpdate({ target: [siteMembers.siteId, siteMembers.userId], set: { role } })
+      .returning();
+    await this.recordAudit(siteId, existing ? "update" : "create", "siteMember", member.id, existing, member, actorId);
+    return member;
+  }
+
+  async removeSiteMember(siteId: number, userId: number, actorId?: number): Promise<boolean> {
+    const [deleted] = await this.db
+      .delete(siteMembers)
+      .where(and(eq(siteMembers.siteId, siteId), eq(siteMembers.userId, userId)))
+      .returning();
+    if (!deleted) return false;
+
+    await this.recordAudit(siteId, "delete", "siteMember", deleted.id, deleted, undefined, actorId);
+    return true;
+  }
+
+  // Media
+  async getMediaItems(siteId: number, filters: MediaFilters = {}): Promise<Media[]> {
+    const conditions = [eq(media.siteId, siteId)];
+    if (filters.tag) conditions.push(arrayContains(media.tags, [filters.tag]));
+    if (filters.search) {
+      conditions.push(or(containsText(media.originalName, filters.search), containsText(media.alt, filters.search))!);
+    }
+
+    return await this.db
+      .select()
+      .from(media)
+      .where(and(...conditions))
+      .orderBy(desc(media.createdAt), desc(media.id));
+  }
+
+  async getMediaItem(siteId: number, id: number): Promise<Media | undefined> {
+    const [item] = await this.db
+      .select()
+      .from(media)
+      .where(and(eq(media.siteId, siteId), eq(media.id, id)));
+    return item || undefined;
+  }
+
+  async getAllMediaFilenames(): Promise<string[]> {
+    const rows = await this.db.select({ filename: media.filename, variants: media.variants }).from(media);
+    return rows.flatMap((row) => [row.filename, ...row.variants.map((variant) => variant.filename)]);
+  }
+
+  async createMediaItem(siteId: number, item: InsertMedia, actorId?: number): Promise<Media> {
+    const [created] = await this.db.insert(media).values({ ...item, siteId }).returning();
+    await this.recordAudit(siteId, "create", "media", created.id, undefined, created, actorId);
+    return created;
+  }
+
+  async updateMediaItem(siteId: number, id: number, item: Partial<InsertMedia>, actorId?: number): Promise<Media | undefined> {
+    const existing = await this.getMediaItem(siteId, id);
+    if (!existing) return undefined;
+
+    const [updated] = await this.db
+      .update(media)
+      .set(item)
+      .where(and(eq(media.siteId, siteId), eq(media.id, id)))
+      .returning();
+    await this.recordAudit(siteId, "update", "media", id, existing, updated, actorId);
+    return updated || undefined;
+  }
+
+  async deleteMediaItem(siteId: number, id: number, actorId?: number): Promise<boolean> {
+    const [deleted] = await this.db
+      .delete(media)
+      .where(and(eq(media.siteId, siteId), eq(media.id, id)))
+      .returning();
+    if (!deleted) return false;
+
+    await this.recordAudit(siteId, "delete", "media", id, deleted, undefined, actorId);
+    return true;
+  }
+
   // Site Config
-  async getSiteConfig(): Promise<SiteConfig | undefined> {
-    const [config] = await db.select().from(siteConfig).limit(1);
+  async getSiteConfig(siteId: number): Promise<SiteConfig | undefined> {
+    const [config] = await this.db.select().from(siteConfig).where(eq(siteConfig.siteId, siteId));
     return config || undefined;
   }
 
-  async updateSiteConfig(config: InsertSiteConfig): Promise<SiteConfig> {
-    const existingConfig = await this.getSiteConfig();
+  async updateSiteConfig(siteId: number, config: InsertSiteConfig, actorId?: number): Promise<SiteConfig> {
+    const existingConfig = await this.getSiteConfig(siteId);
     
     if (existingConfig) {
-      const [updated] = await db
+      const [updated] = await this.db
         .update(siteConfig)
         .set(config)
         .where(eq(siteConfig.id, existingConfig.id))
         .returning();
+      await this.recordAudit(siteId, "update", "siteConfig", updated.id, existingConfig, updated, actorId);
+      await this.recordRevision(siteId, "siteConfig", updated.id, updated, actorId);
       return updated;
     } else {
-      const [created] = await db.insert(siteConfig).values(config).returning();
+      const [created] = await this.db.insert(siteConfig).values({ ...config, siteId }).returning();
+      await this.recordAudit(siteId, "create", "siteConfig", created.id, undefined, created, actorId);
+      await this.recordRevision(siteId, "siteConfig", created.id, created, actorId);
       return created;
     }
   }
 
+  async getSiteConfigDraft(siteId: number): Promise<SiteConfigDraft | undefined> {
+    const [draft] = await this.db.select().from(siteConfigDrafts).where(eq(siteConfigDrafts.siteId, siteId));
+    return draft || undefined;
+  }
+
+  async saveSiteConfigDraft(siteId: number, config: InsertSiteConfig, actorId?: number): Promise<SiteConfigDraft> {
+    const existing = await this.getSiteConfigDraft(siteId);
+    const [draft] = await this.db
+      .insert(siteConfigDrafts)
+      .values({ siteId, data: config, updatedBy: actorId ?? null })
+      .onConflictDoUpdate({
+        target: siteConfigDrafts.siteId,
+        set: { data: config, updatedBy: actorId ?? null, updatedAt: new Date() },
+      })
+      .returning();
+    await this.recordAudit(siteId, existing ? "update" : "create", "siteConfigDraft", draft.id, existing, draft, actorId);
+    return draft;
+  }
+
+  async deleteSiteConfigDraft(siteId: number, actorId?: number): Promise<boolean> {
+    const [deleted] = await this.db
+      .delete(siteConfigDrafts)
+      .where(eq(siteConfigDrafts.siteId, siteId))
+      .returning();
+    if (!deleted) return false;
+
+    await this.recordAudit(siteId, "delete", "siteConfigDraft", deleted.id, deleted, undefined, actorId);
+    return true;
+  }
+
+  // Revisions
+  async getRevisions(siteId: number, entityType: RevisionEntityType, entityId: number): Promise<Revision[]> {
+    return await this.db
+      .select()
+      .from(revisions)
+      .where(and(
+        eq(revisions.siteId, siteId),
+        eq(revisions.entityType, entityType),
+        eq(revisions.entityId, entityId),
+      ))
+      .orderBy(desc(revisions.version));
+  }
+
+  async getRevision(siteId: number, id: number): Promise<Revision | undefined> {
+    const [revision] = await this.db
+      .select()
+      .from(revisions)
+      .where(and(eq(revisions.siteId, siteId), eq(revisions.id, id)));
+    return revision || undefined;
+  }
+
+  // Pages
+  async getPages(siteId: number): Promise<Page[]> {
+    return await this.db
+      .select()
+      .from(pages)
+      .where(eq(pages.siteId, siteId))
+      .orderBy(pages.navOrder, pages.id);
+  }
+
+  async getPage(siteId: number, id: number): Promise<Page | undefined> {
+    const [page] = await this.db
+      .select()
+      .from(pages)
+      .where(and(eq(pages.siteId, siteId), eq(pages.id, id)));
+    return page || undefined;
+  }
+
+  async getPageBySlug(siteId: number, slug: string): Promise<Page | undefined> {
+    const [page] = await this.db
+      .select()
+      .from(pages)
+      .where(and(eq(pages.siteId, siteId), eq(pages.slug, slug)));
+    return page || undefined;
+  }
+
+  async createPage(siteId: number, page: InsertPage, actorId?: number): Promise<Page> {
+    const [created] = await this.db.insert(pages).values({ ...page, siteId }).returning();
+    await this.recordAudit(siteId, "create", "page", created.id, undefined, created, actorId);
+    return created;
+  }
+
+  async updatePage(siteId: number, id: number, page: Partial<InsertPage>, actorId?: number): Promise<Page | undefined> {
+    const existing = await this.getPage(siteId, id);
+    if (!existing) return undefined;
+
+    const [updated] = await this.db
+      .update(pages)
+      .set({ ...page, updatedAt: new Date() })
+      .where(and(eq(pages.siteId, siteId), eq(pages.id, id)))
+      .returning();
+    await this.recordAudit(siteId, "update", "page", id, existing, updated, actorId);
+    return updated || undefined;
+  }
+
+  async deletePage(siteId: number, id: number, actorId?: number): Promise<boolean> {
+    const [deleted] = await this.db
+      .delete(pages)
+      .where(and(eq(pages.siteId, siteId), eq(pages.id, id)))
+      .returning();
+    if (!deleted) return false;
+
+    await this.deleteTranslationsFor(siteId, "page", id);
+    await this.recordAudit(siteId, "delete", "page", id, deleted, undefined, actorId);
+    return true;
+  }
+
+  async reorderPages(siteId: number, ids: number[], actorId?: number): Promise<boolean> {
+    const existing = await this.getPages(siteId);
+    if (!sameIds(existing.map((page) => page.id), ids)) return false;
+
+    await this.db.transaction(async (tx) => {
+      for (const [navOrder, id] of ids.entries()) {
+        await tx
+          .update(pages)
+          .set({ navOrder })
+          .where(and(eq(pages.siteId, siteId), eq(pages.id, id)));
+      }
+    });
+    for (const [navOrder, id] of ids.entries()) {
+      const page = existing.find((page) => page.id === id)!;
+      if (page.navOrder !== navOrder) {
+        await this.recordAudit(siteId, "update", "page", id, page, { ...page, navOrder }, actorId);
+      }
+    }
+    return true;
+  }
+
+  // Translations
+  async getTranslations(siteId: number, entityType?: string, entityIds?: number[], locale?: string): Promise<Translation[]> {
+    if (entityIds && entityIds.length === 0) return [];
+
+    const conditions = [eq(translations.siteId, siteId)];
+    if (entityType) conditions.push(eq(translations.entityType, entityType));
+    if (entityIds) conditions.push(inArray(translations.entityId, entityIds));
+    if (locale) conditions.push(eq(translations.locale, locale));
+
+    return await this.db
+      .select()
+      .from(translations)
+      .where(and(...conditions))
+      .orderBy(translations.entityType, translations.entityId, translations.field, translations.locale);
+  }
+
+  async upsertTranslation(siteId: number, translation: InsertTranslation, actorId?: number): Promise<Translation> {
+    const [existing] = await this.db
+      .select()
+      .from(translations)
+      .where(and(
+        eq(translations.siteId, siteId),
+        eq(translations.entityType, translation.entityType),
+        eq(translations.entityId, translation.entityId),
+        eq(translations.field, translation.field),
+        eq(translations.locale, translation.locale),
+      ));
+    const [saved] = await this.db
+      .insert(translations)
+      .values({ ...translation, siteId })
+      .onConflictDoUpdate({
+        target: [translations.siteId, translations.entityType, translations.entityId, translations.field, translations.locale],
+        set: { value: translation.value, updatedAt: new Date() },
+      })
+      .returning();
+    await this.recordAudit(siteId, existing ? "update" : "create", "translation", saved.id, existing, saved, actorId);
+    return saved;
+  }
+
+  async deleteTranslation(siteId: number, id: number, actorId?: number): Promise<boolean> {
+    const [deleted] = await this.db
+      .delete(translations)
+      .where(and(eq(translations.siteId, siteId), eq(translations.id, id)))
+      .returning();
+    if (!deleted) return false;
+
+    await this.recordAudit(siteId, "delete", "translation", id, deleted, undefined, actorId);
+    return true;
+  }
+
+  private async deleteTranslationsFor(siteId: number, entityType: string, entityId: number) {
+    await this.db
+      .delete(translations)
+      .where(and(
+        eq(translations.siteId, siteId),
+        eq(translations.entityType, entityType),
+        eq(translations.entityId, entityId),
+      ));
+  }
+
   // Projects
-  async getProjects(): Promise<Project[]> {
-    return await db.select().from(projects).orderBy(projects.createdAt);
+  async getProjects(siteId: number, filters: ProjectFilters = {}, options: ListOptions<ProjectSortField> = {}): Promise<Project[]> {
+    const query = this.db
+      .select()
+      .from(projects)
+      .where(projectConditions(siteId, filters))
+      .orderBy(...listOrder(projects[options.sort ?? "position"], projects.id, options.order))
+      .$dynamic();
+    return await withPage(query, options);
   }
 
-  async getProject(id: number): Promise<Project | undefined> {
-    const [project] = await db.select().from(projects).where(eq(projects.id, id));
+  async countProjects(siteId: number, filters: ProjectFilters = {}): Promise<number> {
+    const [{ total }] = await this.db.select({ total: count() }).from(projects).where(projectConditions(siteId, filters));
+    return total;
+  }
+
+  async getProject(siteId: number, id: number): Promise<Project | undefined> {
+    const [project] = await this.db
+      .select()
+      .from(projects)
+      .where(and(eq(projects.siteId, siteId), eq(projects.id, id), isNull(projects.deletedAt)));
     return project || undefined;
   }
 
-  async createProject(project: InsertProject): Promise<Project> {
-    const [created] = await db.insert(projects).values(project).returning();
+  async createProject(siteId: number, project: InsertProject, actorId?: number): Promise<Project> {
+    const [created] = await this.db.insert(projects).values({ ...project, siteId }).returning();
+    await this.recordAudit(siteId, "create", "project", created.id, undefined, created, actorId);
+    await this.recordRevision(siteId, "project", created.id, created, actorId);
     return created;
   }
 
-  async updateProject(id: number, project: Partial<InsertProject>): Promise<Project | undefined> {
-    const [updated] = await db
+  async updateProject(siteId: number, id: number, project: Partial<InsertProject>, actorId?: number): Promise<Project | undefined> {
+    const existing = await this.getProject(siteId, id);
+    if (!existing) return undefined;
+
+    const [updated] = await this.db
       .update(projects)
       .set(project)
-      .where(eq(projects.id, id))
+      .where(and(eq(projects.siteId, siteId), eq(projects.id, id)))
       .returning();
+    await this.recordAudit(siteId, "update", "project", id, existing, updated, actorId);
+    await this.recordRevision(siteId, "project", id, updated, actorId);
     return updated || undefined;
   }
 
-  async deleteProject(id: number): Promise<boolean> {
-    const result = await db.delete(projects).where(eq(projects.id, id));
-    return (result.rowCount || 0) > 0;
+  async deleteProject(siteId: number, id: number, actorId?: number): Promise<boolean> {
+    const existing = await this.getProject(siteId, id);
+    if (!existing) return false;
+
+    const [trashed] = await this.db
+      .update(projects)
+      .set({ deletedAt: new Date() })
+      .where(and(eq(projects.siteId, siteId), eq(projects.id, id)))
+      .returning();
+    await this.recordAudit(siteId, "delete", "project", id, existing, trashed, actorId);
+    return true;
   }
 
-  // Products
-  async getProducts(): Promise<Product[]> {
-    return await db.select().from(products).orderBy(products.createdAt);
+  async reorderProjects(siteId: number, ids: number[], actorId?: number): Promise<boolean> {
+    // Locking the rows makes a second admin's reorder wait and then check against this one's result
+    const changed = await this.db.transaction(async (tx) => {
+      const existing = await tx
+        .select()
+        .from(projects)
+        .where(projectConditions(siteId, {}))
+        .for("update");
+      if (!sameIds(existing.map((project) => project.id), ids)) return undefined;
+
+      const changed: Project[] = [];
+      for (const [position, id] of ids.entries()) {
+        const project = existing.find((project) => project.id === id)!;
+        if (project.position === position) continue;
+        await tx.update(projects).set({ position }).where(and(eq(projects.siteId, siteId), eq(projects.id, id)));
+        changed.push(project);
+      }
+      return changed;
+    });
+    if (!changed) return false;
+
+    for (const project of changed) {
+      await this.recordAudit(siteId, "update", "project", project.id, project, { ...project, position: ids.indexOf(project.id) }, actorId);
+    }
+    return true;
   }
 
-  async getProduct(id: number): Promise<Product | undefined> {
-    const [product] = await db.select().from(products).where(eq(products.id, id));
-    return product || undefined;
+  // Project Gallery
+  async getProjectImages(siteId: number, projectId: number): Promise<ProjectImage[]> {
+    return await this.db
+      .select()
+      .from(projectImages)
+      .where(and(eq(projectImages.siteId, siteId), eq(projectImages.projectId, projectId)))
+      .orderBy(projectImages.position, projectImages.id);
+  }
+
+  async getProjectImage(siteId: number, id: number): Promise<ProjectImage | undefined> {
+    const [image] = await this.db
+      .select()
+      .from(projectImages)
+      .where(and(eq(projectImages.siteId, siteId), eq(projectImages.id, id)));
+    return image || undefined;
   }
 
-  async createProduct(product: InsertProduct): Promise<Product> {
-    const [created] = await db.insert(products).values(product).returning();
+  async createProjectImage(siteId: number, projectId: number, image: InsertProjectImage & { imageUrl: string }, actorId?: number): Promise<ProjectImage> {
+    const [created] = await this.db.insert(projectImages).values({ ...image, siteId, projectId }).returning();
+    await this.recordAudit(siteId, "create", "projectImage", created.id, undefined, created, actorId);
     return created;
   }
 
-  async updateProduct(id: number, product: Partial<InsertProduct>): Promise<Product | undefined> {
-    const [updated] = await db
-      .update(products)
-      .set(product)
-      .where(eq(products.id, id))
+  async updateProjectImage(siteId: number, id: number, image: Partial<InsertProjectImage & { imageUrl: string }>, actorId?: number): Promise<ProjectImage | undefined> {
+    const existing = await this.getProjectImage(siteId, id);
+    if (!existing) return undefined;
+
+    const [updated] = await this.db
+      .update(projectImages)
+      .set(image)
+      .where(and(eq(projectImages.siteId, siteId), eq(projectImages.id, id)))
       .returning();
+    await this.recordAudit(siteId, "update", "projectImage", id, existing, updated, actorId);
     return updated || undefined;
   }
 
-  async deleteProduct(id: number): Promise<boolean> {
-    const result = await db.delete(products).where(eq(products.id, id));
-    return (result.rowCount || 0) > 0;
-  }
+  async deleteProjectImage(siteId: number, id: number, actorId?: number): Promise<boolean> {
+    const [deleted] = await this.db
+      .delete(projectImages)
+      .where(and(eq(projectImages.siteId, siteId), eq(projectImages.id, id)))
+      .returning();
+    if (!deleted) return false;
 
-  // Messages
-  async getMessages(): Promise<Message[]> {
-    return await db.select().from(messages).orderBy(messages.createdAt);
+    await this.recordAudit(siteId, "delete", "projectImage", id, deleted, undefined, actorId);
+    return true;
   }
 
-  async getMessage(id: number): Promise<Message | undefined> {
-    const [message] = await db.select().from(messages).where(eq(messages.id, id));
-    return message || undefined;
+  async reorderProjectImages(siteId: number, projectId: number, ids: number[], actorId?: number): Promise<boolean> {
+    const changed = await this.db.transaction(async (tx) => {
+      const existing = await tx
+        .select()
+        .from(projectImages)
+        .where(and(eq(projectImages.siteId, siteId), eq(projectImages.projectId, projectId)))
+        .for("update");
+      if (!sameIds(existing.map((image) => image.id), ids)) return undefined;
+
+      const changed: ProjectImage[] = [];
+      for (const [position, id] of ids.entries()) {
+        const image = existing.find((image) => image.id === id)!;
+        if (image.position === position) continue;
+        await tx.update(projectImages).set({ position }).where(eq(projectImages.id, id));
+        changed.push(image);
+      }
+      return changed;
+    });
+    if (!changed) return false;
+
+    for (const image of changed) {
+      await this.recordAudit(siteId, "update", "projectImage", image.id, image, { ...image, position: ids.indexOf(image.id) }, actorId);
+    }
+    return true;
   }
 
-  async createMessage(message: InsertMessage): Promise<Message> {
-    const [created] = await db.insert(messages).values(message).returning();
-    return created;
+  // Products
+  async getProducts(siteId: number, filters: ProductFilters = {}, options: ListOptions<ProductSortField> = {}): Promise<Product[]> {
+    const query = this.db
+      .select()
+      .from(products)
+      .where(productConditions(siteId, filters))
+      .orderBy(...listOrder(products[options.sort ?? "position"], products.id, options.order))
+      .$dynamic();
+    return await withPage(query, options);
   }
 
-  async markMessageAsRead(id: number): Promise<boolean> {
-    const result = await db
-      .update(messages)
-      .set({ isRead: true })
-      .where(eq(messages.id, id));
-    return (result.rowCount || 0) > 0;
+  async countProducts(siteId: number, filters: ProductFilters = {}): Promise<number> {
+    const [{ total }] = await this.db.select({ total: count() }).from(products).where(productConditions(siteId, filters));
+    return total;
   }
 
-  // Message Replies
-  async getMessageReplies(messageId: number): Promise<MessageReply[]> {
-    return await db
+  async getProduct(siteId: number, id: number): Promise<Product | undefined> {
+    const [product] = await this.db
       .select()
-      .from(messageReplies)
-      .where(eq(messageReplies.messageId, messageId))
-      .orderBy(messageReplies.createdAt);
+      .from(products)
+      .where(and(eq(products.siteId, siteId), eq(products.id, id), isNull(products.deletedAt)));
+    return product || undefined;
   }
 
-  async createMessageReply(reply: InsertMessageReply): Promise<MessageReply> {
-    const [created] = await db.insert(messageReplies).values(reply).returning();
+  async createProduct(siteId: number, product: InsertProduct, actorId?: number): Promise<Product> {
+    const [created] = await this.db.insert(products).values({ ...product, siteId }).returning();
+    await this.recordAudit(siteId, "create", "product", created.id, undefined, created, actorId);
+    await this.recordRevision(siteId, "product", created.id, created, actorId);
     return created;
   }
+
+  async updateProduct(siteId: number, id: number, product: Partial<InsertProduct>, actorId?: number): Promise<Product | undefined> {
+    const existing = await this.getProduct(siteId, id);
+    if (!existing) return undefined;
+
+    const [updated] = await this.db
+      .update(products)
+      .set(product)
+      .where(and(eq(products.siteId, siteId), eq(products.id, id)))
+      .returning();
+    await this.recordAudit(siteId, "update", "product", id, existing, updated, actorId);
+    await this.recordRevision(siteId, "product", id, updated, actorId);
+    return updated || undefined;
+  }
+
+  async deleteProduct(siteId: number, id: number, actorId?: number): Promise<boolean> {
+    const existing = await this.getProduct(siteId, id);
+    if (!existing) return false;
+
+    const [trashed] = await this.db
+      .update(products)
+      .set({ deletedAt: new Date() })
+      .where(and(eq(products.siteId, siteId), eq(products.id, id)))
+      .returning();
+    await this.recordAudit(siteId, "delete", "product", id, existing, trashed, actorId);
+    return true;
+  }
+
+  async reorderProducts(siteId: number, ids: number[], actorId?: number): Promise<boolean> {
+    const changed = await this.db.transaction(async (tx) => {
+      const existing = await tx
+        .select()
+        .from(products)
+        .where(productConditions(siteId, {}))
+        .for("update");
+      if (!sameIds(existing.map((product) => product.id), ids)) return undefined;
+
+      const changed: Product[] = [];
+      for (const [position, id] of ids.entries()) {
+        const product = existing.find((product) => product.id === id)!;
+        if (product.position === position) continue;
+        await tx.update(products).set({ position }).where(and(eq(products.siteId, siteId), eq(products.id, id)));
+        changed.push(product);
+      }
+      return changed;
+    });
+    if (!changed) return false;
+
+    for (const product of changed) {
+      await this.recordAudit(siteId, "update", "product", product.id, product, { ...product, position: ids.indexOf(product.id) }, actorId);
+    }
+    return true;
+  }
+
+  // Product Catalog
+  async getProductCategories(siteId: number): Promise<ProductCategory[]> {
+    return await this.db
+      .select()
+      .from(productCategories)
+      .where(eq(productCategories.siteId, siteId))
+      .orderBy(productCategories.position, productCategories.id);
+  }
+
+  async getProductCategory(siteId: number, id: number): Promise<ProductCategory | undefined> {
+    const [category] = await this.db
+      .select()
+      .from(productCategories)
+      .where(and(eq(productCategories.siteId, siteId), eq(productCategories.id, id)));
+    return category || undefined;
+  }
+
+  async getProductCategoryBySlug(siteId: number, slug: string): Promise<ProductCategory | undefined> {
+    const [category] = await this.db
+      .select()
+      .from(productCategories)
+      .where(and(eq(productCategories.siteId, siteId), eq(productCategories.slug, slug)));
+    return category || undefined;
+  }
+
+  async createProductCategory(siteId: number, category: InsertProductCategory, actorId?: number): Promise<ProductCategory> {
+    const [created] = await this.db.insert(productCategories).values({ ...category, siteId }).returning();
+    await this.recordAudit(siteId, "create", "productCategory", created.id, undefined, created, actorId);
+    return created;
+  }
+
+  async updateProductCategory(siteId: number, id: number, category: Partial<InsertProductCategory>, actorId?: number): Promise<ProductCategory | undefined> {
+    const existing = await this.getProductCategory(siteId, id);
+    if (!existing) return undefined;
+
+    const [updated] = await this.db
+      .update(productCategories)
+      .set(category)
+      .where(and(eq(productCategories.siteId, siteId), eq(productCategories.id, id)))
+      .returning();
+    await this.recordAudit(siteId, "update", "productCategory", id, existing, updated, actorId);
+    return updated || undefined;
+  }
+
+  async deleteProductCategory(siteId: number, id: number, actorId?: number): Promise<boolean> {
+    const [deleted] = await this.db
+      .delete(productCategories)
+      .where(and(eq(productCategories.siteId, siteId), eq(productCategories.id, id)))
+      .returning();
+    if (!deleted) return false;
+
+    await this.recordAudit(siteId, "delete", "productCategory", id, deleted, undefined, actorId);
+    return true;
+  }
+
+  async getProductVariants(siteId: number, productId?: number): Promise<ProductVariant[]> {
+    const conditions = [eq(productVariants.siteId, siteId)];
+    if (productId !== undefined) conditions.push(eq(productVariants.productId, productId));
+
+    return await this.db
+      .select()
+      .from(productVariants)
+      .where(and(...conditions))
+      .orderBy(productVariants.productId, productVariants.position, productVariants.id);
+  }
+
+  async getProductVariant(siteId: number, id: number): Promise<ProductVariant | undefined> {
+    const [variant] = await this.db
+      .select()
+      .from(productVariants)
+      .where(and(eq(productVariants.siteId, siteId), eq(productVariants.id, id)));
+    return variant || undefined;
+  }
+
+  async createProductVariant(siteId: number, productId: number, variant: InsertProductVariant, actorId?: number): Promise<ProductVariant> {
+    const [created] = await this.db.insert(productVariants).values({ ...variant, siteId, productId }).returning();
+    await this.recordAudit(siteId, "create", "productVariant", created.id, undefined, created, actorId);
+    return created;
+  }
+
+  async updateProductVariant(siteId: number, id: number, variant: Partial<InsertProductVariant>, actorId?: number): Promise<ProductVariant | undefined> {
+    const existing = await this.getProductVariant(siteId, id);
+    if (!existing) return undefined;
+
+    const [updated] = await this.db
+      .update(productVariants)
+      .set(variant)
+      .where(and(eq(productVariants.siteId, siteId), eq(productVariants.id, id)))
+      .returning();
+    await this.recordAudit(siteId, "update", "productVariant", id, existing, updated, actorId);
+    return updated || undefined;
+  }
+
+  async deleteProductVariant(siteId: number, id: number, actorId?: number): Promise<boolean> {
+    const [deleted] = await this.db
+      .delete(productVariants)
+      .where(and(eq(productVariants.siteId, siteId), eq(productVariants.id, id)))
+      .returning();
+    if (!deleted) return false;
+
+    await this.recordAudit(siteId, "delete", "productVariant", id, deleted, undefined, actorId);
+    return true;
+  }
+
+  async isSkuTaken(siteId: number, sku: string, exclude: { productId?: number; variantId?: number } = {}): Promise<boolean> {
+    const [product] = await this.db
+      .select({ id: products.id })
+      .from(products)
+      .where(and(eq(products.siteId, siteId), eq(products.sku, sku)));
+    if (product && product.id !== exclude.productId) return true;
+
+    const [variant] = await this.db
+      .select({ id: productVariants.id })
+      .from(productVariants)
+      .where(and(eq(productVariants.siteId, siteId), eq(productVariants.sku, sku)));
+    return !!variant && variant.id !== exclude.variantId;
+  }
+
+  // Carts
+  async getCartByToken(siteId: number, token: string): Promise<Cart | undefined> {
+    const [cart] = await this.db
+      .select()
+      .from(carts)
+      .where(and(eq(carts.siteId, siteId), eq(carts.token, token)));
+    return cart || undefined;
+  }
+
+  async createCart(siteId: number, token: string): Promise<Cart> {
+    const [created] = await this.db.insert(carts).values({ siteId, token }).returning();
+    return created;
+  }
+
+  async getCartItems(siteId: number, cartId: number): Promise<CartItem[]> {
+    const rows = await this.db
+      .select({ item: cartItems })
+      .from(cartItems)
+      .innerJoin(carts, eq(carts.id, cartItems.cartId))
+      .where(and(eq(carts.siteId, siteId), eq(cartItems.cartId, cartId)))
+      .orderBy(cartItems.createdAt, cartItems.id);
+    return rows.map((row) => row.item);
+  }
+
+  async setCartItem(siteId: number, cartId: number, item: CartItemInput): Promise<CartItem | undefined> {
+    const variantId = item.variantId ?? null;
+    const existing = (await this.getCartItems(siteId, cartId))
+      .find((row) => row.productId === item.productId && row.variantId === variantId);
+    await this.db.update(carts).set({ updatedAt: new Date() }).where(eq(carts.id, cartId));
+
+    if (item.quantity === 0) {
+      if (existing) await this.db.delete(cartItems).where(eq(cartItems.id, existing.id));
+      return undefined;
+    }
+    if (existing) {
+      const [updated] = await this.db
+        .update(cartItems)
+        .set({ quantity: item.quantity })
+        .where(eq(cartItems.id, existing.id))
+        .returning();
+      return updated;
+    }
+    const [created] = await this.db
+      .insert(cartItems)
+      .values({ cartId, productId: item.productId, variantId, quantity: item.quantity })
+      .returning();
+    return created;
+  }
+
+  async clearCart(siteId: number, cartId: number): Promise<void> {
+    const cart = this.db.select({ id: carts.id }).from(carts).where(and(eq(carts.siteId, siteId), eq(carts.id, cartId)));
+    await this.db.delete(cartItems).where(inArray(cartItems.cartId, cart));
+  }
+
+  // Orders
+  async getOrders(siteId: number, filters: OrderFilters = {}): Promise<Order[]> {
+    const conditions = [eq(orders.siteId, siteId)];
+    if (filters.status) conditions.push(eq(orders.status, filters.status));
+
+    return await this.db
+      .select()
+      .from(orders)
+      .where(and(...conditions))
+      .orderBy(desc(orders.createdAt), desc(orders.id));
+  }
+
+  async getOrder(siteId: number, id: number): Promise<Order | undefined> {
+    const [order] = await this.db
+      .select()
+      .from(orders)
+      .where(and(eq(orders.siteId, siteId), eq(orders.id, id)));
+    return order || undefined;
+  }
+
+  async getOrderByReference(siteId: number, reference: string): Promise<Order | undefined> {
+    const [order] = await this.db
+      .select()
+      .from(orders)
+      .where(and(eq(orders.siteId, siteId), eq(orders.reference, reference)));
+    return order || undefined;
+  }
+
+  async getOrderByPayment(siteId: number, provider: string, paymentId: string): Promise<Order | undefined> {
+    const [order] = await this.db
+      .select()
+      .from(orders)
+      .where(and(eq(orders.siteId, siteId), eq(orders.paymentProvider, provider), eq(orders.paymentId, paymentId)));
+    return order || undefined;
+  }
+
+  async getOrderLines(siteId: number, orderId: number): Promise<OrderLine[]> {
+    const rows = await this.db
+      .select({ line: orderLines })
+      .from(orderLines)
+      .innerJoin(orders, eq(orders.id, orderLines.orderId))
+      .where(and(eq(orders.siteId, siteId), eq(orderLines.orderId, orderId)))
+      .orderBy(orderLines.id);
+    return rows.map((row) => row.line);
+  }
+
+  async placeOrder(siteId: number, order: InsertOrder, lines: InsertOrderLine[]): Promise<Order> {
+    const created = await this.db.transaction(async (tx) => {
+      for (const line of lines) {
+        // Only rows that track stock are updated; the stock check in the WHERE clause guards
+        // against two checkouts taking the last item at the same time
+        const [tracked] = line.variantId
+          ? await tx.select({ stock: productVariants.stock }).from(productVariants).where(eq(productVariants.id, line.variantId))
+          : await tx.select({ stock: products.stock }).from(products).where(eq(products.id, line.productId!));
+        if (!tracked || tracked.stock === null) continue;
+
+        const [updated] = line.variantId
+          ? await tx
+            .update(productVariants)
+            .set({ stock: sql`${productVariants.stock} - ${line.quantity}` })
+            .where(and(eq(productVariants.id, line.variantId), gte(productVariants.stock, line.quantity)))
+            .returning()
+          : await tx
+            .update(products)
+            .set({ stock: sql`${products.stock} - ${line.quantity}` })
+            .where(and(eq(products.id, line.productId!), gte(products.stock, line.quantity)))
+            .returning();
+        if (!updated) throw new InsufficientStockError(line.productId!, line.variantId ?? null);
+      }
+
+      const [inserted] = await tx.insert(orders).values({ ...order, siteId }).returning();
+      if (lines.length > 0) {
+        await tx.insert(orderLines).values(lines.map((line) => ({ ...line, orderId: inserted.id })));
+      }
+      return inserted;
+    });
+    await this.recordAudit(siteId, "create", "order", created.id, undefined, created);
+    return created;
+  }
+
+  async updateOrder(siteId: number, id: number, order: Partial<InsertOrder>, actorId?: number): Promise<Order | undefined> {
+    const existing = await this.getOrder(siteId, id);
+    if (!existing) return undefined;
+
+    const [updated] = await this.db
+      .update(orders)
+      .set({ ...order, updatedAt: new Date() })
+      .where(and(eq(orders.siteId, siteId), eq(orders.id, id)))
+      .returning();
+    await this.recordAudit(siteId, "update", "order", id, existing, updated, actorId);
+    return updated || undefined;
+  }
+
+  async restockOrder(siteId: number, orderId: number): Promise<void> {
+    for (const line of await this.getOrderLines(siteId, orderId)) {
+      if (line.variantId) {
+        await this.db
+          .update(productVariants)
+          .set({ stock: sql`${productVariants.stock} + ${line.quantity}` })
+          .where(and(eq(productVariants.id, line.variantId), isNotNull(productVariants.stock)));
+      } else if (line.productId) {
+        await this.db
+          .update(products)
+          .set({ stock: sql`${products.stock} + ${line.quantity}` })
+          .where(and(eq(products.id, line.productId), isNotNull(products.stock)));
+      }
+    }
+  }
+
+  // Messages
+  async getMessages(siteId: number, filters: MessageFilters = {}, options: ListOptions<MessageSortField> = {}): Promise<Message[]> {
+    const query = this.db
+      .select()
+      .from(messages)
+      .where(messageConditions(siteId, filters))
+      .orderBy(...listOrder(messages[options.sort ?? "createdAt"], messages.id, options.order))
+      .$dynamic();
+    return await withPage(query, options);
+  }
+
+  async countMessages(siteId: number, filters: MessageFilters = {}): Promise<number> {
+    const [{ total }] = await this.db.select({ total: count() }).from(messages).where(messageConditions(siteId, filters));
+    return total;
+  }
+
+  async getMessage(siteId: number, id: number): Promise<Message | undefined> {
+    const [message] = await this.db
+      .select()
+      .from(messages)
+      .where(and(eq(messages.siteId, siteId), eq(messages.id, id), isNull(messages.deletedAt)));
+    return message || undefined;
+  }
+
+  async createMessage(siteId: number, message: InsertMessage, verdict?: MessageSpamVerdict): Promise<Message> {
+    const [created] = await this.db.insert(messages).values({ ...message, ...verdict, siteId }).returning();
+    await this.recordAudit(siteId, "create", "message", created.id, undefined, created);
+    return created;
+  }
+
+  async markMessageAsRead(siteId: number, id: number, actorId?: number): Promise<boolean> {
+    const existing = await this.getMessage(siteId, id);
+    if (!existing) return false;
+
+    const [updated] = await this.db
+      .update(messages)
+      .set({ isRead: true })
+      .where(and(eq(messages.siteId, siteId), eq(messages.id, id)))
+      .returning();
+    await this.recordAudit(siteId, "update", "message", id, existing, updated, actorId);
+    return true;
+  }
+
+  async setMessageSpam(siteId: number, id: number, isSpam: boolean, actorId?: number): Promise<Message | undefined> {
+    const existing = await this.getMessage(siteId, id);
+    if (!existing) return undefined;
+
+    const [updated] = await this.db
+      .update(messages)
+      .set({ isSpam })
+      .where(and(eq(messages.siteId, siteId), eq(messages.id, id)))
+      .returning();
+    await this.recordAudit(siteId, "update", "message", id, existing, updated, actorId);
+    return updated;
+  }
+
+  async deleteMessage(siteId: number, id: number, actorId?: number): Promise<boolean> {
+    const existing = await this.getMessage(siteId, id);
+    if (!existing) return false;
+
+    const [trashed] = await this.db
+      .update(messages)
+      .set({ deletedAt: new Date() })
+      .where(and(eq(messages.siteId, siteId), eq(messages.id, id)))
+      .returning();
+    await this.recordAudit(siteId, "delete", "message", id, existing, trashed, actorId);
+    return true;
+  }
+
+  async getMessageByReplyToken(token: string): Promise<Message | undefined> {
+    const [message] = await this.db
+      .select()
+      .from(messages)
+      .where(and(eq(messages.replyToken, token), isNull(messages.deletedAt)));
+    return message || undefined;
+  }
+
+  async setMessageReplyToken(siteId: number, id: number, token: string): Promise<Message | undefined> {
+    const [updated] = await this.db
+      .update(messages)
+      .set({ replyToken: token })
+      .where(and(eq(messages.siteId, siteId), eq(messages.id, id)))
+      .returning();
+    return updated || undefined;
+  }
+
+  async hasDuplicateMessage(siteId: number, text: string, since: Date): Promise<boolean> {
+    const [duplicate] = await this.db
+      .select({ id: messages.id })
+      .from(messages)
+      .where(and(eq(messages.siteId, siteId), eq(messages.message, text), gte(messages.createdAt, since)))
+      .limit(1);
+    return duplicate !== undefined;
+  }
+  async importMessage(siteId: number, message: ArchivedMessage): Promise<Message> {
+    const { id, replies, ...values } = message;
+    return this.db.transaction(async (tx) => {
+      const [created] = await tx.insert(messages).values({ ...values, siteId }).returning();
+      if (replies.length > 0) {
+        await tx.insert(messageReplies).values(replies.map((reply) => ({ ...reply, messageId: created.id })));
+      }
+      return created;
+    });
+  }
+
+
+  // Message Replies
+  async getMessageReplies(siteId: number, messageId: number): Promise<MessageReply[]> {
+    const rows = await this.db
+      .select({ reply: messageReplies })
+      .from(messageReplies)
+      .innerJoin(messages, eq(messageReplies.messageId, messages.id))
+      .where(and(eq(messages.siteId, siteId), eq(messageReplies.messageId, messageId)))
+      .orderBy(messageReplies.createdAt);
+    return rows.map((row) => row.reply);
+  }
+
+  async createMessageReply(siteId: number, reply: InsertMessageReply, actorId?: number): Promise<MessageReply | undefined> {
+    if (reply.messageId == null || !(await this.getMessage(siteId, reply.messageId))) {
+      return undefined;
+    }
+
+    const [created] = await this.db.insert(messageReplies).values(reply).returning();
+    await this.recordAudit(siteId, "create", "messageReply", created.id, undefined, created, actorId);
+    return created;
+  }
+
+  async updateReplyDelivery(siteId: number, id: number, delivery: Partial<ReplyDelivery>): Promise<MessageReply | undefined> {
+    const siteMessages = this.db.select({ id: messages.id }).from(messages).where(eq(messages.siteId, siteId));
+    const [updated] = await this.db
+      .update(messageReplies)
+      .set(delivery)
+      .where(and(eq(messageReplies.id, id), inArray(messageReplies.messageId, siteMessages)))
+      .returning();
+    return updated || undefined;
+  }
+
+  // Trash
+  async getTrash(siteId: number, filters: TrashFilters = {}): Promise<TrashItem[]> {
+    const items: TrashItem[] = [];
+    const wanted = (type: TrashEntityType) => !filters.type || filters.type === type;
+
+    if (wanted("project")) {
+      const rows = await this.db
+        .select()
+        .from(projects)
+        .where(and(eq(projects.siteId, siteId), trashedBefore(projects.deletedAt, filters.deletedBefore)));
+      items.push(...rows.map((item) => ({ type: "project" as const, id: item.id, title: item.title, deletedAt: item.deletedAt!, item })));
+    }
+    if (wanted("product")) {
+      const rows = await this.db
+        .select()
+        .from(products)
+        .where(and(eq(products.siteId, siteId), trashedBefore(products.deletedAt, filters.deletedBefore)));
+      items.push(...rows.map((item) => ({ type: "product" as const, id: item.id, title: item.title, deletedAt: item.deletedAt!, item })));
+    }
+    if (wanted("message")) {
+      const rows = await this.db
+        .select()
+        .from(messages)
+        .where(and(eq(messages.siteId, siteId), trashedBefore(messages.deletedAt, filters.deletedBefore)));
+      items.push(...rows.map((item) => ({ type: "message" as const, id: item.id, title: item.subject, deletedAt: item.deletedAt!, item })));
+    }
+    return items.sort(byDeletedAt);
+  }
+
+  async restoreFromTrash(siteId: number, type: TrashEntityType, id: number, actorId?: number): Promise<boolean> {
+    const table = trashTables[type];
+    const inTrash = and(eq(table.siteId, siteId), eq(table.id, id), isNotNull(table.deletedAt));
+    const [existing] = await this.db.select().from(table).where(inTrash);
+    if (!existing) return false;
+
+    const [restored] = await this.db.update(table).set({ deletedAt: null }).where(inTrash).returning();
+    await this.recordAudit(siteId, "restore", type, id, existing, restored, actorId);
+    return true;
+  }
+
+  async purgeFromTrash(siteId: number, type: TrashEntityType, id: number, actorId?: number): Promise<boolean> {
+    const table = trashTables[type];
+    const [purged] = await this.db.transaction(async (tx) => {
+      if (type === "message") {
+        const trashed = tx
+          .select({ id: messages.id })
+          .from(messages)
+          .where(and(eq(messages.siteId, siteId), eq(messages.id, id), isNotNull(messages.deletedAt)));
+        await tx.delete(messageReplies).where(inArray(messageReplies.messageId, trashed));
+      }
+      // Variants and cart items of a product cascade; order lines keep their copy of the title and price
+      return await tx
+        .delete(table)
+        .where(and(eq(table.siteId, siteId), eq(table.id, id), isNotNull(table.deletedAt)))
+        .returning();
+    });
+    if (!purged) return false;
+
+    if (type !== "message") await this.deleteTranslationsFor(siteId, type, id);
+    await this.recordAudit(siteId, "purge", type, id, purged, undefined, actorId);
+    return true;
+  }
+
+  // Audit Log
+  async getAuditLogs(filters: AuditLogFilters): Promise<AuditLog[]> {
+    const conditions = [];
+    if (filters.siteId !== undefined) {
+      conditions.push(filters.siteId === null ? isNull(auditLogs.siteId) : eq(auditLogs.siteId, filters.siteId));
+    }
+    if (filters.userId !== undefined) conditions.push(eq(auditLogs.userId, filters.userId));
+    if (filters.action) conditions.push(eq(auditLogs.action, filters.action));
+    if (filters.entityType) conditions.push(eq(auditLogs.entityType, filters.entityType));
+    if (filters.entityId !== undefined) conditions.push(eq(auditLogs.entityId, filters.entityId));
+    if (filters.from) conditions.push(gte(auditLogs.createdAt, filters.from));
+    if (filters.to) conditions.push(lte(auditLogs.createdAt, filters.to));
+
+    return await this.db
+      .select()
+      .from(auditLogs)
+      .where(and(...conditions))
+      .orderBy(desc(auditLogs.createdAt))
+      .limit(filters.limit);
+  }
+
+  // Webhooks
+  async getWebhooks(siteId: number): Promise<Webhook[]> {
+    return await this.db.select().from(webhooks).where(eq(webhooks.siteId, siteId)).orderBy(webhooks.id);
+  }
+
+  async getWebhook(siteId: number, id: number): Promise<Webhook | undefined> {
+    const [webhook] = await this.db
+      .select()
+      .from(webhooks)
+      .where(and(eq(webhooks.siteId, siteId), eq(webhooks.id, id)));
+    return webhook || undefined;
+  }
+
+  async createWebhook(siteId: number, webhook: InsertWebhook & { secret: string }, actorId?: number): Promise<Webhook> {
+    const [created] = await this.db.insert(webhooks).values({ ...webhook, siteId }).returning();
+    await this.recordAudit(siteId, "create", "webhook", created.id, undefined, created, actorId);
+    return created;
+  }
+
+  async updateWebhook(siteId: number, id: number, webhook: Partial<InsertWebhook>, actorId?: number): Promise<Webhook | undefined> {
+    const existing = await this.getWebhook(siteId, id);
+    if (!existing) return undefined;
+
+    const [updated] = await this.db
+      .update(webhooks)
+      .set(webhook)
+      .where(and(eq(webhooks.siteId, siteId), eq(webhooks.id, id)))
+      .returning();
+    await this.recordAudit(siteId, "update", "webhook", id, existing, updated, actorId);
+    return updated;
+  }
+
+  async deleteWebhook(siteId: number, id: number, actorId?: number): Promise<boolean> {
+    const [deleted] = await this.db
+      .delete(webhooks)
+      .where(and(eq(webhooks.siteId, siteId), eq(webhooks.id, id)))
+      .returning();
+    if (!deleted) return false;
+
+    await this.recordAudit(siteId, "delete", "webhook", id, deleted, undefined, actorId);
+    return true;
+  }
+
+  async getWebhookDeliveries(siteId: number, webhookId: number, filters: WebhookDeliveryFilters): Promise<WebhookDelivery[]> {
+    const conditions = [eq(webhookDeliveries.siteId, siteId), eq(webhookDeliveries.webhookId, webhookId)];
+    if (filters.status) conditions.push(eq(webhookDeliveries.status, filters.status));
+
+    return await this.db
+      .select()
+      .from(webhookDeliveries)
+      .where(and(...conditions))
+      .orderBy(desc(webhookDeliveries.createdAt), desc(webhookDeliveries.id))
+      .limit(filters.limit);
+  }
+
+  async getWebhookDelivery(siteId: number, id: number): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await this.db
+      .select()
+      .from(webhookDeliveries)
+      .where(and(eq(webhookDeliveries.siteId, siteId), eq(webhookDeliveries.id, id)));
+    return delivery || undefined;
+  }
+
+  async createWebhookDelivery(siteId: number, delivery: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    const [created] = await this.db.insert(webhookDeliveries).values({ ...delivery, siteId }).returning();
+    return created;
+  }
+
+  async updateWebhookDelivery(id: number, delivery: Partial<InsertWebhookDelivery>): Promise<WebhookDelivery | undefined> {
+    const [updated] = await this.db.update(webhookDeliveries).set(delivery).where(eq(webhookDeliveries.id, id)).returning();
+    return updated || undefined;
+  }
+
+  async getDueWebhookDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]> {
+    return await this.db
+      .select()
+      .from(webhookDeliveries)
+      .where(and(eq(webhookDeliveries.status, "pending"), lte(webhookDeliveries.nextAttemptAt, now)))
+      .orderBy(webhookDeliveries.nextAttemptAt)
+      .limit(limit);
+  }
+
+  // Search
+  // Only published pages and active products are found; projects have no visibility status
+  async searchContent(siteId: number, query: string, options: { config: string; type?: SearchResultType; limit: number }): Promise<SearchHit[]> {
+    const config = sql.raw(`'${options.config}'`);
+    const tsquery = sql`websearch_to_tsquery(${config}, ${query})`;
+    const types: readonly SearchResultType[] = options.type ? [options.type] : searchResultTypes;
+    const vector = sql.raw(documentVector(options.config, "title", "description")); // projects and products
+    const pageVector = sql.raw(documentVector(options.config, "title", pageBodySql));
+
+    const parts: SQL[] = [];
+    if (types.includes("project")) {
+      parts.push(sql`
+        SELECT 'project' AS type, id, title, NULL AS slug,
+          ts_headline(${config}, description, ${tsquery}, ${headlineOptions}) AS snippet,
+          ts_rank(${vector}, ${tsquery}) AS rank
+        FROM projects
+        WHERE site_id = ${siteId} AND deleted_at IS NULL AND ${vector} @@ ${tsquery}`);
+    }
+    if (types.includes("product")) {
+      parts.push(sql`
+        SELECT 'product' AS type, id, title, NULL AS slug,
+          ts_headline(${config}, description, ${tsquery}, ${headlineOptions}) AS snippet,
+          ts_rank(${vector}, ${tsquery}) AS rank
+        FROM products
+        WHERE site_id = ${siteId} AND status = 'active' AND deleted_at IS NULL AND ${vector} @@ ${tsquery}`);
+    }
+    if (types.includes("page")) {
+      parts.push(sql`
+        SELECT 'page' AS type, id, title, slug,
+          ts_headline(${config}, ${sql.raw(pageBodySql)}, ${tsquery}, ${headlineOptions}) AS snippet,
+          ts_rank(${pageVector}, ${tsquery}) AS rank
+        FROM pages
+        WHERE site_id = ${siteId} AND status = 'published' AND ${pageVector} @@ ${tsquery}`);
+    }
+
+    const { rows } = await this.db.execute(sql`
+      ${sql.join(parts, sql` UNION ALL `)}
+      ORDER BY rank DESC, type, id
+      LIMIT ${options.limit}`);
+    return rows as unknown as SearchHit[];
+  }
+
+  // Messages also match on a part of the sender's name or email address
+  async searchMessages(siteId: number, query: string, options: { config: string; limit: number }): Promise<MessageSearchHit[]> {
+    const config = sql.raw(`'${options.config}'`);
+    const tsquery = sql`websearch_to_tsquery(${config}, ${query})`;
+    const messageVector = sql.raw(documentVector(options.config, "subject", "message"));
+    const pattern = containsPattern(query);
+
+    const { rows } = await this.db.execute(sql`
+      SELECT 'message' AS type, id, id AS "messageId", subject, name, email, created_at AS "createdAt",
+        ts_headline(${config}, message, ${tsquery}, ${headlineOptions}) AS snippet,
+        ts_rank(${messageVector}, ${tsquery}) + CASE WHEN name ILIKE ${pattern} ESCAPE '\\' OR email ILIKE ${pattern} ESCAPE '\\' THEN 1 ELSE 0 END AS rank
+      FROM messages
+      WHERE site_id = ${siteId} AND deleted_at IS NULL AND (${messageVector} @@ ${tsquery} OR name ILIKE ${pattern} ESCAPE '\\' OR email ILIKE ${pattern} ESCAPE '\\')
+      UNION ALL
+      SELECT 'reply' AS type, r.id, m.id AS "messageId", m.subject, m.name, m.email, r.created_at AS "createdAt",
+        ts_headline(${config}, r.reply, ${tsquery}, ${headlineOptions}) AS snippet,
+        ts_rank(to_tsvector(${config}, r.reply), ${tsquery}) AS rank
+      FROM message_replies r
+      INNER JOIN messages m ON m.id = r.message_id
+      WHERE m.site_id = ${siteId} AND m.deleted_at IS NULL AND to_tsvector(${config}, r.reply) @@ ${tsquery}
+      ORDER BY rank DESC, "createdAt" DESC
+      LIMIT ${options.limit}`);
+    return rows as unknown as MessageSearchHit[];
+  }
+}
+
+// Builds a full row the way Postgres would: column defaults applied, missing values as null
+function buildRow<T>(table: Table, id: number, values: object): T {
+  const input = values as Record<string, unknown>;
+  const row: Record<string, unknown> = {};
+
+  for (const [key, column] of Object.entries(getTableColumns(table))) {
+    if (input[key] !== undefined) {
+      row[key] = input[key];
+    } else if (key === "id") {
+      row[key] = id;
+    } else if (column.defaultFn) {
+      row[key] = column.defaultFn();
+    } else if (is(column.default, SQL)) {
+      // The only SQL default in the schema is defaultNow()
+      row[key] = new Date();
+    } else {
+      // Clone so rows never share a mutable default such as an empty array
+      row[key] = column.default === undefined ? null : structuredClone(column.default);
+    }
+  }
+  return row as T;
+}
+
+// Applies a partial update the way drizzle's .set() does: undefined values are skipped
+function applyUpdate<T>(row: T, values: object): T {
+  const updated = { ...row } as Record<string, unknown>;
+  for (const [key, value] of Object.entries(values)) {
+    if (value !== undefined) updated[key] = value;
+  }
+  return updated as T;
+}
+
+function byCreatedAt<T extends { id: number; createdAt: Date | null }>(a: T, b: T): number {
+  const diff = (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0);
+  return diff !== 0 ? diff : a.id - b.id;
+}
+
+// Sorts and slices rows the way listOrder and withPage do in SQL (nulls last when ascending)
+function pageOf<T extends { id: number }>(rows: T[], options: ListOptions<string & keyof T>): T[] {
+  const sort = options.sort ?? ("createdAt" as string & keyof T);
+  const direction = options.order === "desc" ? -1 : 1;
+  const compare = (a: T, b: T): number => {
+    const left = a[sort] as unknown, right = b[sort] as unknown;
+    if (left === right || (left == null && right == null)) return 0;
+    if (left == null) return 1;
+    if (right == null) return -1;
+    if (typeof left === "string" && typeof right === "string") return left < right ? -1 : left > right ? 1 : 0;
+    return Number(left) - Number(right);
+  };
+  const sorted = rows.sort((a, b) => direction * (compare(a, b) || a.id - b.id));
+  const offset = options.offset ?? 0;
+  return sorted.slice(offset, options.limit === undefined ? undefined : offset + options.limit);
+}
+
+export class MemStorage implements IStorage {
+  sessionStore: session.Store;
+
+  private users = new Map<number, User>();
+  private sites = new Map<number, Site>();
+  private siteDomains = new Map<number, SiteDomain>();
+  private siteMembers = new Map<number, SiteMember>();
+  private media = new Map<number, Media>();
+  private siteConfigs = new Map<number, SiteConfig>();
+  private siteConfigDrafts = new Map<number, SiteConfigDraft>();
+  private revisions = new Map<number, Revision>();
+  private pages = new Map<number, Page>();
+  private translations = new Map<number, Translation>();
+  private projects = new Map<number, Project>();
+  private projectImages = new Map<number, ProjectImage>();
+  private products = new Map<number, Product>();
+  private productCategories = new Map<number, ProductCategory>();
+  private productVariants = new Map<number, ProductVariant>();
+  private carts = new Map<number, Cart>();
+  private cartItems = new Map<number, CartItem>();
+  private orders = new Map<number, Order>();
+  private orderLines = new Map<number, OrderLine>();
+  private messages = new Map<number, Message>();
+  private messageReplies = new Map<number, MessageReply>();
+  private webhooks = new Map<number, Webhook>();
+  private webhookDeliveries = new Map<number, WebhookDelivery>();
+  private auditLogs = new Map<number, AuditLog>();
+  private nextIds = new Map<Table, number>();
+
+  constructor() {
+    this.sessionStore = new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+    initializeDefaults(this);
+  }
+
+  // Rolls back by restoring a copy of every table, so writes other requests make while the
+  // work runs are undone as well. Good enough for development and tests.
+  async transaction<T>(work: () => Promise<T>): Promise<T> {
+    const tables = Object.values(this).filter((value): value is Map<unknown, unknown> => value instanceof Map);
+    const snapshot = tables.map((rows) => Array.from(rows, ([key, row]) => [key, structuredClone(row)] as const));
+    try {
+      return await work();
+    } catch (error) {
+      tables.forEach((rows, index) => {
+        rows.clear();
+        snapshot[index].forEach(([key, row]) => rows.set(key, row));
+      });
+      throw error;
+    }
+  }
+
+  private insert<T extends { id: number }>(table: Table, rows: Map<number, T>, values: object): T {
+    const id = this.nextIds.get(table) ?? 1;
+    this.nextIds.set(table, id + 1);
+    const row = buildRow<T>(table, id, values);
+    rows.set(row.id, row);
+    return row;
+  }
+
+  // Mirrors the unique constraints Postgres enforces for the DatabaseStorage
+  private assertUnique<T>(rows: Map<number, T>, matches: (row: T) => boolean, constraint: string) {
+    if (Array.from(rows.values()).some(matches)) {
+      throw new Error(`duplicate key value violates unique constraint "${constraint}"`);
+    }
+  }
+
+  private recordAudit(
+    siteId: number | null,
+    action: AuditAction,
+    entityType: string,
+    entityId: number,
+    before: object | undefined,
+    after: object | undefined,
+    actorId?: number,
+  ) {
+    this.insert(auditLogs, this.auditLogs, {
+      siteId,
+      userId: actorId ?? null,
+      action,
+      entityType,
+      entityId,
+      changes: diffRecords(before, after),
+    });
+  }
+
+  private recordRevision(
+    siteId: number,
+    entityType: RevisionEntityType,
+    entityId: number,
+    row: object,
+    actorId?: number,
+  ) {
+    const versions = Array.from(this.revisions.values())
+      .filter((revision) => revision.siteId === siteId && revision.entityType === entityType && revision.entityId === entityId)
+      .map((revision) => revision.version);
+    this.insert(revisions, this.revisions, {
+      siteId,
+      entityType,
+      entityId,
+      version: Math.max(0, ...versions) + 1,
+      data: toRevisionData(row),
+      createdBy: actorId ?? null,
+    });
+  }
+
+  // Users
+  async getUser(id: number): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find((user) => user.username === username);
+  }
+
+  async getUsers(): Promise<User[]> {
+    return Array.from(this.users.values()).sort((a, b) => a.id - b.id);
+  }
+
+  async createUser(insertUser: InsertUser, actorId?: number): Promise<User> {
+    this.assertUnique(this.users, (user) => user.username === insertUser.username, "users_username_unique");
+    const user = this.insert(users, this.users, insertUser);
+    this.recordAudit(null, "create", "user", user.id, undefined, user, actorId);
+    return user;
+  }
+
+  async updateUserPassword(id: number, password: string): Promise<boolean> {
+    const existing = this.users.get(id);
+    if (!existing) return false;
+
+    this.users.set(id, { ...existing, password });
+    return true;
+  }
+
+  async updateUserRole(id: number, role: PlatformRole, actorId?: number): Promise<User | undefined> {
+    const existing = this.users.get(id);
+    if (!existing) return undefined;
+
+    const updated = { ...existing, role };
+    this.users.set(id, updated);
+    this.recordAudit(null, "update", "user", id, existing, updated, actorId);
+    return updated;
+  }
+
+  // Sites
+  async getSites(): Promise<Site[]> {
+    return Array.from(this.sites.values()).sort((a, b) => a.id - b.id);
+  }
+
+  async getSite(id: number): Promise<Site | undefined> {
+    return this.sites.get(id);
+  }
+
+  async getSiteByHostname(hostname: string): Promise<Site | undefined> {
+    const site = Array.from(this.sites.values()).find((site) => site.hostname === hostname);
+    if (site) return site;
+
+    const mapped = Array.from(this.siteDomains.values()).find((domain) => domain.domain === hostname);
+    return mapped ? this.sites.get(mapped.siteId) : undefined;
+  }
+
+  async createSite(site: InsertSite, actorId?: number): Promise<Site> {
+    this.assertUnique(this.sites, (existing) => existing.hostname === site.hostname, "sites_hostname_unique");
+    const created = this.insert(sites, this.sites, site);
+    this.recordAudit(created.id, "create", "site", created.id, undefined, created, actorId);
+    return created;
+  }
+
+  async updateSite(id: number, site: Partial<InsertSite>, actorId?: number): Promise<Site | undefined> {
+    const existing = this.sites.get(id);
+    if (!existing) return undefined;
+
+    if (site.hostname !== undefined) {
+      this.assertUnique(this.sites, (other) => other.id !== id && other.hostname === site.hostname, "sites_hostname_unique");
+    }
+    const updated = applyUpdate(existing, site);
+    this.sites.set(id, updated);
+    this.recordAudit(id, "update", "site", id, existing, updated, actorId);
+    return updated;
+  }
+
+  async deleteSite(id: number, actorId?: number): Promise<boolean> {
+    const existing = this.sites.get(id);
+    if (!existing) return false;
+
+    for (const message of Array.from(this.messages.values())) {
+      if (message.siteId !== id) continue;
+      for (const reply of Array.from(this.messageReplies.values())) {
+        if (reply.messageId === message.id) this.messageReplies.delete(reply.id);
+      }
+    }
+    for (const item of Array.from(this.cartItems.values())) {
+      if (this.carts.get(item.cartId)?.siteId === id) this.cartItems.delete(item.id);
+    }
+    for (const line of Array.from(this.orderLines.values())) {
+      if (this.orders.get(line.orderId)?.siteId === id) this.orderLines.delete(line.id);
+    }
+    for (const rows of [this.siteDomains, this.siteMembers, this.media, this.siteConfigs, this.siteConfigDrafts, this.revisions, this.pages, this.translations, this.projects, this.projectImages, this.products, this.productCategories, this.productVariants, this.carts, this.orders, this.messages, this.webhooks, this.webhookDeliveries] as Map<number, { id: number; siteId: number }>[]) {
+      for (const row of Array.from(rows.values())) {
+        if (row.siteId === id) rows.delete(row.id);
+      }
+    }
+    this.sites.delete(id);
+    this.recordAudit(id, "delete", "site", id, existing, undefined, actorId);
+    return true;
+  }
+
+  async getSiteDomains(siteId: number): Promise<SiteDomain[]> {
+    return Array.from(this.siteDomains.values())
+      .filter((domain) => domain.siteId === siteId)
+      .sort(byCreatedAt);
+  }
+
+  async addSiteDomain(siteId: number, domain: InsertSiteDomain, actorId?: number): Promise<SiteDomain> {
+    this.assertUnique(this.siteDomains, (existing) => existing.domain === domain.domain, "site_domains_domain_unique");
+    const created = this.insert(siteDomains, this.siteDomains, { ...domain, siteId });
+    this.recordAudit(siteId, "create", "siteDomain", created.id, undefined, created, actorId);
+    return created;
+  }
+
+  async removeSiteDomain(siteId: number, id: number, actorId?: number): Promise<boolean> {
+    const existing = this.siteDomains.get(id);
+    if (!existing || existing.siteId !== siteId) return false;
+
+    this.siteDomains.delete(id);
+    this.recordAudit(siteId, "delete", "siteDomain", id, existing, undefined, actorId);
+    return true;
+  }
+  // Site Members
+  async getSiteMembers(siteId: number): Promise<SiteMember[]> {
+    return Array.from(this.siteMembers.values())
+      .filter((member) => member.siteId === siteId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async getSiteMember(siteId: number, userId: number): Promise<SiteMember | undefined> {
+    return Array.from(this.siteMembers.values()).find((member) => member.siteId === siteId && member.userId === userId);
+  }
+
+  async setSiteMember(siteId: number, userId: number, role: UserRole, actorId?: number): Promise<SiteMember> {
+    const existing = await this.getSiteMember(siteId, userId);
+    const member = existing
+      ? { ...existing, role }
+      : this.insert(siteMembers, this.siteMembers, { siteId, userId, role });
+    this.siteMembers.set(member.id, member);
+    this.recordAudit(siteId, existing ? "update" : "create", "siteMember", member.id, existing, member, actorId);
+    return member;
+  }
+
+  async removeSiteMember(siteId: number, userId: number, actorId?: number): Promise<boolean> {
+    const existing = await this.getSiteMember(siteId, userId);
+    if (!existing) return false;
+
+    this.siteMembers.delete(existing.id);
+    this.recordAudit(siteId, "delete", "siteMember", existing.id, existing, undefined, actorId);
+    return true;
+  }
+
+  // Media
+  async getMediaItems(siteId: number, filters: MediaFilters = {}): Promise<Media[]> {
+    const search = filters.search?.toLowerCase();
+    return Array.from(this.media.values())
+      .filter((item) =>
+        item.siteId === siteId &&
+        (!filters.tag || item.tags.includes(filters.tag)) &&
+        (!search ||
+          item.originalName.toLowerCase().includes(search) ||
+          (item.alt ?? "").toLowerCase().includes(search)))
+      .sort((a, b) => byCreatedAt(b, a));
+  }
+
+  async getMediaItem(siteId: number, id: number): Promise<Media | undefined> {
+    const item = this.media.get(id);
+    return item?.siteId === siteId ? item : undefined;
+  }
+
+  async getAllMediaFilenames(): Promise<string[]> {
+    return Array.from(this.media.values())
+      .flatMap((item) => [item.filename, ...item.variants.map((variant) => variant.filename)]);
+  }
+
+  async createMediaItem(siteId: number, item: InsertMedia, actorId?: number): Promise<Media> {
+    const created = this.insert(media, this.media, { ...item, siteId });
+    this.recordAudit(siteId, "create", "media", created.id, undefined, created, actorId);
+    return created;
+  }
+
+  async updateMediaItem(siteId: number, id: number, item: Partial<InsertMedia>, actorId?: number): Promise<Media | undefined> {
+    const existing = await this.getMediaItem(siteId, id);
+    if (!existing) return undefined;
+
+    const updated = applyUpdate(existing, item);
+    this.media.set(id, updated);
+    this.recordAudit(siteId, "update", "media", id, existing, updated, actorId);
+    return updated;
+  }
+
+  async deleteMediaItem(siteId: number, id: number, actorId?: number): Promise<boolean> {
+    const existing = await this.getMediaItem(siteId, id);
+    if (!existing) return false;
+
+    this.media.delete(id);
+    // Mirror the "on delete set null" foreign keys
+    for (const config of Array.from(this.siteConfigs.values())) {
+      if (config.logoMediaId === id) this.siteConfigs.set(config.id, { ...config, logoMediaId: null });
+      if (config.faviconMediaId === id) this.siteConfigs.set(config.id, { ...this.siteConfigs.get(config.id)!, faviconMediaId: null });
+    }
+    for (const rows of [this.projects, this.products] as Map<number, { id: number; imageMediaId: number | null }>[]) {
+      for (const row of Array.from(rows.values())) {
+        if (row.imageMediaId === id) rows.set(row.id, { ...row, imageMediaId: null });
+      }
+    }
+    // and the cascade of gallery images
+    for (const image of Array.from(this.projectImages.values())) {
+      if (image.imageMediaId === id) this.projectImages.delete(image.id);
+    }
+    this.recordAudit(siteId, "delete", "media", id, existing, undefined, actorId);
+    return true;
+  }
+
+  // Site Config
+  async getSiteConfig(siteId: number): Promise<SiteConfig | undefined> {
+    return Array.from(this.siteConfigs.values()).find((config) => config.siteId === siteId);
+  }
+
+  async updateSiteConfig(siteId: number, config: InsertSiteConfig, actorId?: number): Promise<SiteConfig> {
+    const existingConfig = await this.getSiteConfig(siteId);
+
+    if (existingConfig) {
+      const updated = applyUpdate(existingConfig, config);
+      this.siteConfigs.set(updated.id, updated);
+      this.recordAudit(siteId, "update", "siteConfig", updated.id, existingConfig, updated, actorId);
+      this.recordRevision(siteId, "siteConfig", updated.id, updated, actorId);
+      return updated;
+    } else {
+      const created = this.insert(siteConfig, this.siteConfigs, { ...config, siteId });
+      this.recordAudit(siteId, "create", "siteConfig", created.id, undefined, created, actorId);
+      this.recordRevision(siteId, "siteConfig", created.id, created, actorId);
+      return created;
+    }
+  }
+
+  async getSiteConfigDraft(siteId: number): Promise<SiteConfigDraft | undefined> {
+    return Array.from(this.siteConfigDrafts.values()).find((draft) => draft.siteId === siteId);
+  }
+
+  async saveSiteConfigDraft(siteId: number, config: InsertSiteConfig, actorId?: number): Promise<SiteConfigDraft> {
+    const existing = await this.getSiteConfigDraft(siteId);
+
+    if (existing) {
+      const updated = { ...existing, data: config, updatedBy: actorId ?? null, updatedAt: new Date() };
+      this.siteConfigDrafts.set(updated.id, updated);
+      this.recordAudit(siteId, "update", "siteConfigDraft", updated.id, existing, updated, actorId);
+      return updated;
+    } else {
+      const created = this.insert(siteConfigDrafts, this.siteConfigDrafts, { siteId, data: config, updatedBy: actorId ?? null });
+      this.recordAudit(siteId, "create", "siteConfigDraft", created.id, undefined, created, actorId);
+      return created;
+    }
+  }
+
+  async deleteSiteConfigDraft(siteId: number, actorId?: number): Promise<boolean> {
+    const existing = await this.getSiteConfigDraft(siteId);
+    if (!existing) return false;
+
+    this.siteConfigDrafts.delete(existing.id);
+    this.recordAudit(siteId, "delete", "siteConfigDraft", existing.id, existing, undefined, actorId);
+    return true;
+  }
+
+  // Revisions
+  async getRevisions(siteId: number, entityType: RevisionEntityType, entityId: number): Promise<Revision[]> {
+    return Array.from(this.revisions.values())
+      .filter((revision) => revision.siteId === siteId && revision.entityType === entityType && revision.entityId === entityId)
+      .sort((a, b) => b.version - a.version);
+  }
+
+  async getRevision(siteId: number, id: number): Promise<Revision | undefined> {
+    const revision = this.revisions.get(id);
+    return revision?.siteId === siteId ? revision : undefined;
+  }
+
+  // Pages
+  async getPages(siteId: number): Promise<Page[]> {
+    return Array.from(this.pages.values())
+      .filter((page) => page.siteId === siteId)
+      .sort((a, b) => a.navOrder - b.navOrder || a.id - b.id);
+  }
+
+  async getPage(siteId: number, id: number): Promise<Page | undefined> {
+    const page = this.pages.get(id);
+    return page?.siteId === siteId ? page : undefined;
+  }
+
+  async getPageBySlug(siteId: number, slug: string): Promise<Page | undefined> {
+    return Array.from(this.pages.values()).find((page) => page.siteId === siteId && page.slug === slug);
+  }
+
+  async createPage(siteId: number, page: InsertPage, actorId?: number): Promise<Page> {
+    this.assertUnique(this.pages, (existing) => existing.siteId === siteId && existing.slug === page.slug, "pages_site_id_slug_unique");
+    const created = this.insert(pages, this.pages, { ...page, siteId });
+    this.recordAudit(siteId, "create", "page", created.id, undefined, created, actorId);
+    return created;
+  }
+
+  async updatePage(siteId: number, id: number, page: Partial<InsertPage>, actorId?: number): Promise<Page | undefined> {
+    const existing = await this.getPage(siteId, id);
+    if (!existing) return undefined;
+
+    if (page.slug !== undefined) {
+      this.assertUnique(this.pages, (other) => other.id !== id && other.siteId === siteId && other.slug === page.slug, "pages_site_id_slug_unique");
+    }
+    const updated = applyUpdate(existing, { ...page, updatedAt: new Date() });
+    this.pages.set(id, updated);
+    this.recordAudit(siteId, "update", "page", id, existing, updated, actorId);
+    return updated;
+  }
+
+  async deletePage(siteId: number, id: number, actorId?: number): Promise<boolean> {
+    const existing = await this.getPage(siteId, id);
+    if (!existing) return false;
+
+    this.pages.delete(id);
+    this.deleteTranslationsFor(siteId, "page", id);
+    this.recordAudit(siteId, "delete", "page", id, existing, undefined, actorId);
+    return true;
+  }
+
+  async reorderPages(siteId: number, ids: number[], actorId?: number): Promise<boolean> {
+    const existing = await this.getPages(siteId);
+    if (!sameIds(existing.map((page) => page.id), ids)) return false;
+
+    for (const [navOrder, id] of ids.entries()) {
+      const page = this.pages.get(id)!;
+      if (page.navOrder !== navOrder) {
+        const updated = { ...page, navOrder };
+        this.pages.set(id, updated);
+        this.recordAudit(siteId, "update", "page", id, page, updated, actorId);
+      }
+    }
+    return true;
+  }
+
+  // Translations
+  async getTranslations(siteId: number, entityType?: string, entityIds?: number[], locale?: string): Promise<Translation[]> {
+    return Array.from(this.translations.values())
+      .filter((translation) =>
+        translation.siteId === siteId &&
+        (!entityType || translation.entityType === entityType) &&
+        (!entityIds || entityIds.includes(translation.entityId)) &&
+        (!locale || translation.locale === locale))
+      .sort((a, b) =>
+        a.entityType.localeCompare(b.entityType) ||
+        a.entityId - b.entityId ||
+        a.field.localeCompare(b.field) ||
+        a.locale.localeCompare(b.locale));
+  }
+
+  async upsertTranslation(siteId: number, translation: InsertTranslation, actorId?: number): Promise<Translation> {
+    const existing = Array.from(this.translations.values()).find((other) =>
+      other.siteId === siteId &&
+      other.entityType === translation.entityType &&
+      other.entityId === translation.entityId &&
+      other.field === translation.field &&
+      other.locale === translation.locale);
+
+    if (existing) {
+      const updated = { ...existing, value: translation.value, updatedAt: new Date() };
+      this.translations.set(updated.id, updated);
+      this.recordAudit(siteId, "update", "translation", updated.id, existing, updated, actorId);
+      return updated;
+    } else {
+      const created = this.insert(translations, this.translations, { ...translation, siteId });
+      this.recordAudit(siteId, "create", "translation", created.id, undefined, created, actorId);
+      return created;
+    }
+  }
+
+  async deleteTranslation(siteId: number, id: number, actorId?: number): Promise<boolean> {
+    const existing = this.translations.get(id);
+    if (!existing || existing.siteId !== siteId) return false;
+
+    this.translations.delete(id);
+    this.recordAudit(siteId, "delete", "translation", id, existing, undefined, actorId);
+    return true;
+  }
+
+  private deleteTranslationsFor(siteId: number, entityType: string, entityId: number) {
+    for (const translation of Array.from(this.translations.values())) {
+      if (translation.siteId === siteId && translation.entityType === entityType && translation.entityId === entityId) {
+        this.translations.delete(translation.id);
+      }
+    }
+  }
+
+  // Projects
+  async getProjects(siteId: number, filters: ProjectFilters = {}, options: ListOptions<ProjectSortField> = {}): Promise<Project[]> {
+    return pageOf(this.matchingProjects(siteId, filters), { ...options, sort: options.sort ?? "position" });
+  }
+
+  async countProjects(siteId: number, filters: ProjectFilters = {}): Promise<number> {
+    return this.matchingProjects(siteId, filters).length;
+  }
+
+  private matchingProjects(siteId: number, filters: ProjectFilters): Project[] {
+    return Array.from(this.projects.values()).filter((project) =>
+      project.siteId === siteId &&
+      !project.deletedAt &&
+      (!filters.category || project.category === filters.category) &&
+      (!filters.status || project.status === filters.status) &&
+      (filters.featured === undefined || project.featured === filters.featured));
+  }
+
+  async getProject(siteId: number, id: number): Promise<Project | undefined> {
+    const project = this.projects.get(id);
+    return project?.siteId === siteId && !project.deletedAt ? project : undefined;
+  }
+
+  async createProject(siteId: number, project: InsertProject, actorId?: number): Promise<Project> {
+    const created = this.insert(projects, this.projects, { ...project, siteId });
+    this.recordAudit(siteId, "create", "project", created.id, undefined, created, actorId);
+    this.recordRevision(siteId, "project", created.id, created, actorId);
+    return created;
+  }
+
+  async updateProject(siteId: number, id: number, project: Partial<InsertProject>, actorId?: number): Promise<Project | undefined> {
+    const existing = await this.getProject(siteId, id);
+    if (!existing) return undefined;
+
+    const updated = applyUpdate(existing, project);
+    this.projects.set(id, updated);
+    this.recordAudit(siteId, "update", "project", id, existing, updated, actorId);
+    this.recordRevision(siteId, "project", id, updated, actorId);
+    return updated;
+  }
+
+  async deleteProject(siteId: number, id: number, actorId?: number): Promise<boolean> {
+    const existing = await this.getProject(siteId, id);
+    if (!existing) return false;
+
+    const trashed = { ...existing, deletedAt: new Date() };
+    this.projects.set(id, trashed);
+    this.recordAudit(siteId, "delete", "project", id, existing, trashed, actorId);
+    return true;
+  }
+
+  async reorderProjects(siteId: number, ids: number[], actorId?: number): Promise<boolean> {
+    const existing = this.matchingProjects(siteId, {});
+    if (!sameIds(existing.map((project) => project.id), ids)) return false;
+
+    for (const [position, id] of ids.entries()) {
+      const project = this.projects.get(id)!;
+      if (project.position !== position) {
+        const updated = { ...project, position };
+        this.projects.set(id, updated);
+        this.recordAudit(siteId, "update", "project", id, project, updated, actorId);
+      }
+    }
+    return true;
+  }
+
+  // Project Gallery
+  async getProjectImages(siteId: number, projectId: number): Promise<ProjectImage[]> {
+    return Array.from(this.projectImages.values())
+      .filter((image) => image.siteId === siteId && image.projectId === projectId)
+      .sort((a, b) => a.position - b.position || a.id - b.id);
+  }
+
+  async getProjectImage(siteId: number, id: number): Promise<ProjectImage | undefined> {
+    const image = this.projectImages.get(id);
+    return image?.siteId === siteId ? image : undefined;
+  }
+
+  async createProjectImage(siteId: number, projectId: number, image: InsertProjectImage & { imageUrl: string }, actorId?: number): Promise<ProjectImage> {
+    const created = this.insert(projectImages, this.projectImages, { ...image, siteId, projectId });
+    this.recordAudit(siteId, "create", "projectImage", created.id, undefined, created, actorId);
+    return created;
+  }
+
+  async updateProjectImage(siteId: number, id: number, image: Partial<InsertProjectImage & { imageUrl: string }>, actorId?: number): Promise<ProjectImage | undefined> {
+    const existing = await this.getProjectImage(siteId, id);
+    if (!existing) return undefined;
+
+    const updated = applyUpdate(existing, image);
+    this.projectImages.set(id, updated);
+    this.recordAudit(siteId, "update", "projectImage", id, existing, updated, actorId);
+    return updated;
+  }
+
+  async deleteProjectImage(siteId: number, id: number, actorId?: number): Promise<boolean> {
+    const existing = await this.getProjectImage(siteId, id);
+    if (!existing) return false;
+
+    this.projectImages.delete(id);
+    this.recordAudit(siteId, "delete", "projectImage", id, existing, undefined, actorId);
+    return true;
+  }
+
+  async reorderProjectImages(siteId: number, projectId: number, ids: number[], actorId?: number): Promise<boolean> {
+    const existing = await this.getProjectImages(siteId, projectId);
+    if (!sameIds(existing.map((image) => image.id), ids)) return false;
+
+    for (const [position, id] of ids.entries()) {
+      const image = this.projectImages.get(id)!;
+      if (image.position !== position) {
+        const updated = { ...image, position };
+        this.projectImages.set(id, updated);
+        this.recordAudit(siteId, "update", "projectImage", id, image, updated, actorId);
+      }
+    }
+    return true;
+  }
+
+  // Products
+  async getProducts(siteId: number, filters: ProductFilters = {}, options: ListOptions<ProductSortField> = {}): Promise<Product[]> {
+    return pageOf(await this.matchingProducts(siteId, filters), { ...options, sort: options.sort ?? "position" });
+  }
+
+  async countProducts(siteId: number, filters: ProductFilters = {}): Promise<number> {
+    return (await this.matchingProducts(siteId, filters)).length;
+  }
+
+  private async matchingProducts(siteId: number, filters: ProductFilters): Promise<Product[]> {
+    const category = filters.category ? await this.getProductCategoryBySlug(siteId, filters.category) : undefined;
+    return Array.from(this.products.values()).filter((product) =>
+      product.siteId === siteId &&
+      !product.deletedAt &&
+      (!filters.category || (category !== undefined && product.categoryId === category.id)) &&
+      (!filters.status || product.status === filters.status) &&
+      (filters.featured === undefined || product.featured === filters.featured) &&
+      (filters.minPrice === undefined || product.priceAmount >= filters.minPrice) &&
+      (filters.maxPrice === undefined || product.priceAmount <= filters.maxPrice));
+  }
+
+  async getProduct(siteId: number, id: number): Promise<Product | undefined> {
+    const product = this.products.get(id);
+    return product?.siteId === siteId && !product.deletedAt ? product : undefined;
+  }
+
+  async createProduct(siteId: number, product: InsertProduct, actorId?: number): Promise<Product> {
+    if (product.sku) {
+      this.assertUnique(this.products, (existing) => existing.siteId === siteId && existing.sku === product.sku, "products_site_id_sku_unique");
+    }
+    const created = this.insert(products, this.products, { ...product, siteId });
+    this.recordAudit(siteId, "create", "product", created.id, undefined, created, actorId);
+    this.recordRevision(siteId, "product", created.id, created, actorId);
+    return created;
+  }
+
+  async updateProduct(siteId: number, id: number, product: Partial<InsertProduct>, actorId?: number): Promise<Product | undefined> {
+    const existing = await this.getProduct(siteId, id);
+    if (!existing) return undefined;
+
+    if (product.sku) {
+      this.assertUnique(this.products, (other) => other.id !== id && other.siteId === siteId && other.sku === product.sku, "products_site_id_sku_unique");
+    }
+    const updated = applyUpdate(existing, product);
+    this.products.set(id, updated);
+    this.recordAudit(siteId, "update", "product", id, existing, updated, actorId);
+    this.recordRevision(siteId, "product", id, updated, actorId);
+    return updated;
+  }
+
+  async deleteProduct(siteId: number, id: number, actorId?: number): Promise<boolean> {
+    const existing = await this.getProduct(siteId, id);
+    if (!existing) return false;
+
+    const trashed = { ...existing, deletedAt: new Date() };
+    this.products.set(id, trashed);
+    this.recordAudit(siteId, "delete", "product", id, existing, trashed, actorId);
+    return true;
+  }
+
+  async reorderProducts(siteId: number, ids: number[], actorId?: number): Promise<boolean> {
+    const existing = await this.matchingProducts(siteId, {});
+    if (!sameIds(existing.map((product) => product.id), ids)) return false;
+
+    for (const [position, id] of ids.entries()) {
+      const product = this.products.get(id)!;
+      if (product.position !== position) {
+        const updated = { ...product, position };
+        this.products.set(id, updated);
+        this.recordAudit(siteId, "update", "product", id, product, updated, actorId);
+      }
+    }
+    return true;
+  }
+
+  // Product Catalog
+  async getProductCategories(siteId: number): Promise<ProductCategory[]> {
+    return Array.from(this.productCategories.values())
+      .filter((category) => category.siteId === siteId)
+      .sort((a, b) => a.position - b.position || a.id - b.id);
+  }
+
+  async getProductCategory(siteId: number, id: number): Promise<ProductCategory | undefined> {
+    const category = this.productCategories.get(id);
+    return category?.siteId === siteId ? category : undefined;
+  }
+
+  async getProductCategoryBySlug(siteId: number, slug: string): Promise<ProductCategory | undefined> {
+    return Array.from(this.productCategories.values())
+      .find((category) => category.siteId === siteId && category.slug === slug);
+  }
+
+  async createProductCategory(siteId: number, category: InsertProductCategory, actorId?: number): Promise<ProductCategory> {
+    this.assertUnique(this.productCategories, (existing) => existing.siteId === siteId && existing.slug === category.slug, "product_categories_site_id_slug_unique");
+    const created = this.insert(productCategories, this.productCategories, { ...category, siteId });
+    this.recordAudit(siteId, "create", "productCategory", created.id, undefined, created, actorId);
+    return created;
+  }
+
+  async updateProductCategory(siteId: number, id: number, category: Partial<InsertProductCategory>, actorId?: number): Promise<ProductCategory | undefined> {
+    const existing = await this.getProductCategory(siteId, id);
+    if (!existing) return undefined;
+
+    if (category.slug !== undefined) {
+      this.assertUnique(this.productCategories, (other) => other.id !== id && other.siteId === siteId && other.slug === category.slug, "product_categories_site_id_slug_unique");
+    }
+    const updated = applyUpdate(existing, category);
+    this.productCategories.set(id, updated);
+    this.recordAudit(siteId, "update", "productCategory", id, existing, updated, actorId);
+    return updated;
+  }
+
+  async deleteProductCategory(siteId: number, id: number, actorId?: number): Promise<boolean> {
+    const existing = await this.getProductCategory(siteId, id);
+    if (!existing) return false;
+
+    this.productCategories.delete(id);
+    // Mirror the "on delete set null" foreign key
+    for (const product of Array.from(this.products.values())) {
+      if (product.categoryId === id) this.products.set(product.id, { ...product, categoryId: null });
+    }
+    this.recordAudit(siteId, "delete", "productCategory", id, existing, undefined, actorId);
+    return true;
+  }
+
+  async getProductVariants(siteId: number, productId?: number): Promise<ProductVariant[]> {
+    return Array.from(this.productVariants.values())
+      .filter((variant) => variant.siteId === siteId && (productId === undefined || variant.productId === productId))
+      .sort((a, b) => a.productId - b.productId || a.position - b.position || a.id - b.id);
+  }
+
+  async getProductVariant(siteId: number, id: number): Promise<ProductVariant | undefined> {
+    const variant = this.productVariants.get(id);
+    return variant?.siteId === siteId ? variant : undefined;
+  }
+
+  async createProductVariant(siteId: number, productId: number, variant: InsertProductVariant, actorId?: number): Promise<ProductVariant> {
+    if (variant.sku) {
+      this.assertUnique(this.productVariants, (existing) => existing.siteId === siteId && existing.sku === variant.sku, "product_variants_site_id_sku_unique");
+    }
+    const created = this.insert(productVariants, this.productVariants, { ...variant, siteId, productId });
+    this.recordAudit(siteId, "create", "productVariant", created.id, undefined, created, actorId);
+    return created;
+  }
+
+  async updateProductVariant(siteId: number, id: number, variant: Partial<InsertProductVariant>, actorId?: number): Promise<ProductVariant | undefined> {
+    const existing = await this.getProductVariant(siteId, id);
+    if (!existing) return undefined;
+
+    if (variant.sku) {
+      this.assertUnique(this.productVariants, (other) => other.id !== id && other.siteId === siteId && other.sku === variant.sku, "product_variants_site_id_sku_unique");
+    }
+    const updated = applyUpdate(existing, variant);
+    this.productVariants.set(id, updated);
+    this.recordAudit(siteId, "update", "productVariant", id, existing, updated, actorId);
+    return updated;
+  }
+
+  async deleteProductVariant(siteId: number, id: number, actorId?: number): Promise<boolean> {
+    const existing = await this.getProductVariant(siteId, id);
+    if (!existing) return false;
+
+    this.productVariants.delete(id);
+    for (const item of Array.from(this.cartItems.values())) {
+      if (item.variantId === id) this.cartItems.delete(item.id);
+    }
+    for (const line of Array.from(this.orderLines.values())) {
+      if (line.variantId === id) this.orderLines.set(line.id, { ...line, variantId: null });
+    }
+    this.recordAudit(siteId, "delete", "productVariant", id, existing, undefined, actorId);
+    return true;
+  }
+
+  async isSkuTaken(siteId: number, sku: string, exclude: { productId?: number; variantId?: number } = {}): Promise<boolean> {
+    return Array.from(this.products.values()).some((product) =>
+      product.siteId === siteId && product.sku === sku && product.id !== exclude.productId) ||
+      Array.from(this.productVariants.values()).some((variant) =>
+        variant.siteId === siteId && variant.sku === sku && variant.id !== exclude.variantId);
+  }
+
+  // Carts
+  async getCartByToken(siteId: number, token: string): Promise<Cart | undefined> {
+    return Array.from(this.carts.values()).find((cart) => cart.siteId === siteId && cart.token === token);
+  }
+
+  async createCart(siteId: number, token: string): Promise<Cart> {
+    this.assertUnique(this.carts, (existing) => existing.token === token, "carts_token_unique");
+    return this.insert(carts, this.carts, { siteId, token });
+  }
+
+  async getCartItems(siteId: number, cartId: number): Promise<CartItem[]> {
+    if (this.carts.get(cartId)?.siteId !== siteId) return [];
+    return Array.from(this.cartItems.values())
+      .filter((item) => item.cartId === cartId)
+      .sort(byCreatedAt);
+  }
+
+  async setCartItem(siteId: number, cartId: number, item: CartItemInput): Promise<CartItem | undefined> {
+    const variantId = item.variantId ?? null;
+    const existing = (await this.getCartItems(siteId, cartId))
+      .find((row) => row.productId === item.productId && row.variantId === variantId);
+    const cart = this.carts.get(cartId);
+    if (cart) this.carts.set(cartId, { ...cart, updatedAt: new Date() });
+
+    if (item.quantity === 0) {
+      if (existing) this.cartItems.delete(existing.id);
+      return undefined;
+    }
+    if (existing) {
+      const updated = { ...existing, quantity: item.quantity };
+      this.cartItems.set(existing.id, updated);
+      return updated;
+    }
+    return this.insert(cartItems, this.cartItems, { cartId, productId: item.productId, variantId, quantity: item.quantity });
+  }
+
+  async clearCart(siteId: number, cartId: number): Promise<void> {
+    for (const item of await this.getCartItems(siteId, cartId)) {
+      this.cartItems.delete(item.id);
+    }
+  }
+
+  // Orders
+  async getOrders(siteId: number, filters: OrderFilters = {}): Promise<Order[]> {
+    return Array.from(this.orders.values())
+      .filter((order) => order.siteId === siteId && (!filters.status || order.status === filters.status))
+      .sort((a, b) => byCreatedAt(b, a));
+  }
+
+  async getOrder(siteId: number, id: number): Promise<Order | undefined> {
+    const order = this.orders.get(id);
+    return order?.siteId === siteId ? order : undefined;
+  }
+
+  async getOrderByReference(siteId: number, reference: string): Promise<Order | undefined> {
+    return Array.from(this.orders.values()).find((order) => order.siteId === siteId && order.reference === reference);
+  }
+
+  async getOrderByPayment(siteId: number, provider: string, paymentId: string): Promise<Order | undefined> {
+    return Array.from(this.orders.values()).find((order) =>
+      order.siteId === siteId && order.paymentProvider === provider && order.paymentId === paymentId);
+  }
+
+  async getOrderLines(siteId: number, orderId: number): Promise<OrderLine[]> {
+    if (this.orders.get(orderId)?.siteId !== siteId) return [];
+    return Array.from(this.orderLines.values())
+      .filter((line) => line.orderId === orderId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  // The stock row a line draws from: its variant, or the product when it has no variant
+  private stockRow(line: { productId?: number | null; variantId?: number | null }) {
+    return line.variantId
+      ? { rows: this.productVariants as Map<number, { id: number; stock: number | null }>, row: this.productVariants.get(line.variantId) }
+      : { rows: this.products as Map<number, { id: number; stock: number | null }>, row: this.products.get(line.productId!) };
+  }
+
+  async placeOrder(siteId: number, order: InsertOrder, lines: InsertOrderLine[]): Promise<Order> {
+    // Check every line first so a failed checkout leaves the stock untouched
+    for (const line of lines) {
+      const { row } = this.stockRow(line);
+      if (row && row.stock !== null && row.stock < line.quantity) {
+        throw new InsufficientStockError(line.productId!, line.variantId ?? null);
+      }
+    }
+    for (const line of lines) {
+      const { rows, row } = this.stockRow(line);
+      if (row && row.stock !== null) rows.set(row.id, { ...row, stock: row.stock - line.quantity });
+    }
+
+    this.assertUnique(this.orders, (existing) => existing.reference === order.reference, "orders_reference_unique");
+    const created = this.insert(orders, this.orders, { ...order, siteId });
+    for (const line of lines) {
+      this.insert(orderLines, this.orderLines, { ...line, orderId: created.id });
+    }
+    this.recordAudit(siteId, "create", "order", created.id, undefined, created);
+    return created;
+  }
+
+  async updateOrder(siteId: number, id: number, order: Partial<InsertOrder>, actorId?: number): Promise<Order | undefined> {
+    const existing = await this.getOrder(siteId, id);
+    if (!existing) return undefined;
+
+    const updated = applyUpdate(existing, { ...order, updatedAt: new Date() });
+    this.orders.set(id, updated);
+    this.recordAudit(siteId, "update", "order", id, existing, updated, actorId);
+    return updated;
+  }
+
+  async restockOrder(siteId: number, orderId: number): Promise<void> {
+    for (const line of await this.getOrderLines(siteId, orderId)) {
+      if (!line.variantId && !line.productId) continue;
+      const { rows, row } = this.stockRow(line);
+      if (row && row.stock !== null) rows.set(row.id, { ...row, stock: row.stock + line.quantity });
+    }
+  }
+
+  // Messages
+  async getMessages(siteId: number, filters: MessageFilters = {}, options: ListOptions<MessageSortField> = {}): Promise<Message[]> {
+    return pageOf(this.matchingMessages(siteId, filters), options);
+  }
+
+  async countMessages(siteId: number, filters: MessageFilters = {}): Promise<number> {
+    return this.matchingMessages(siteId, filters).length;
+  }
+
+  private matchingMessages(siteId: number, filters: MessageFilters): Message[] {
+    return Array.from(this.messages.values()).filter((message) =>
+      message.siteId === siteId &&
+      !message.deletedAt &&
+      (filters.isRead === undefined || Boolean(message.isRead) === filters.isRead) &&
+      (filters.isSpam === undefined || message.isSpam === filters.isSpam) &&
+      (!filters.from || (message.createdAt && message.createdAt >= filters.from)) &&
+      (!filters.to || (message.createdAt && message.createdAt <= filters.to)));
+  }
+
+  async getMessage(siteId: number, id: number): Promise<Message | undefined> {
+    const message = this.messages.get(id);
+    return message?.siteId === siteId && !message.deletedAt ? message : undefined;
+  }
+
+  async createMessage(siteId: number, message: InsertMessage, verdict?: MessageSpamVerdict): Promise<Message> {
+    const created = this.insert(messages, this.messages, { ...message, ...verdict, siteId });
+    this.recordAudit(siteId, "create", "message", created.id, undefined, created);
+    return created;
+  }
+
+  async markMessageAsRead(siteId: number, id: number, actorId?: number): Promise<boolean> {
+    const existing = await this.getMessage(siteId, id);
+    if (!existing) return false;
+
+    const updated = { ...existing, isRead: true };
+    this.messages.set(id, updated);
+    this.recordAudit(siteId, "update", "message", id, existing, updated, actorId);
+    return true;
+  }
+
+  async setMessageSpam(siteId: number, id: number, isSpam: boolean, actorId?: number): Promise<Message | undefined> {
+    const existing = await this.getMessage(siteId, id);
+    if (!existing) return undefined;
+
+    const updated = { ...existing, isSpam };
+    this.messages.set(id, updated);
+    this.recordAudit(siteId, "update", "message", id, existing, updated, actorId);
+    return updated;
+  }
+
+  async deleteMessage(siteId: number, id: number, actorId?: number): Promise<boolean> {
+    const existing = await this.getMessage(siteId, id);
+    if (!existing) return false;
+
+    const trashed = { ...existing, deletedAt: new Date() };
+    this.messages.set(id, trashed);
+    this.recordAudit(siteId, "delete", "message", id, existing, trashed, actorId);
+    return true;
+  }
+
+  async getMessageByReplyToken(token: string): Promise<Message | undefined> {
+    return Array.from(this.messages.values()).find((message) => message.replyToken === token && !message.deletedAt);
+  }
+
+  async setMessageReplyToken(siteId: number, id: number, token: string): Promise<Message | undefined> {
+    const existing = await this.getMessage(siteId, id);
+    if (!existing) return undefined;
+
+    this.assertUnique(this.messages, (message) => message.replyToken === token, "messages_reply_token_unique");
+    const updated = { ...existing, replyToken: token };
+    this.messages.set(id, updated);
+    return updated;
+  }
+
+  async hasDuplicateMessage(siteId: number, text: string, since: Date): Promise<boolean> {
+    return Array.from(this.messages.values()).some((message) =>
+      message.siteId === siteId && message.message === text && message.createdAt !== null && message.createdAt >= since);
+  }
+  async importMessage(siteId: number, message: ArchivedMessage): Promise<Message> {
+    const { id, replies, ...values } = message;
+    const created = this.insert(messages, this.messages, { ...values, siteId });
+    for (const reply of replies) {
+      this.insert(messageReplies, this.messageReplies, { ...reply, messageId: created.id });
+    }
+    return created;
+  }
+
+
+  // Message Replies
+  async getMessageReplies(siteId: number, messageId: number): Promise<MessageReply[]> {
+    if (!(await this.getMessage(siteId, messageId))) return [];
+
+    return Array.from(this.messageReplies.values())
+      .filter((reply) => reply.messageId === messageId)
+      .sort(byCreatedAt);
+  }
+
+  async createMessageReply(siteId: number, reply: InsertMessageReply, actorId?: number): Promise<MessageReply | undefined> {
+    if (reply.messageId == null || !(await this.getMessage(siteId, reply.messageId))) {
+      return undefined;
+    }
+
+    const created = this.insert(messageReplies, this.messageReplies, reply);
+    this.recordAudit(siteId, "create", "messageReply", created.id, undefined, created, actorId);
+    return created;
+  }
+
+  async updateReplyDelivery(siteId: number, id: number, delivery: Partial<ReplyDelivery>): Promise<MessageReply | undefined> {
+    const existing = this.messageReplies.get(id);
+    if (!existing?.messageId || !(await this.getMessage(siteId, existing.messageId))) return undefined;
+
+    const updated = { ...existing, ...delivery };
+    this.messageReplies.set(id, updated);
+    return updated;
+  }
+
+  // Trash
+  async getTrash(siteId: number, filters: TrashFilters = {}): Promise<TrashItem[]> {
+    const inTrash = (row: { siteId: number; deletedAt: Date | null }) =>
+      row.siteId === siteId && row.deletedAt !== null && (!filters.deletedBefore || row.deletedAt <= filters.deletedBefore);
+    const items: TrashItem[] = [
+      ...Array.from(this.projects.values()).filter(inTrash)
+        .map((item) => ({ type: "project" as const, id: item.id, title: item.title, deletedAt: item.deletedAt!, item })),
+      ...Array.from(this.products.values()).filter(inTrash)
+        .map((item) => ({ type: "product" as const, id: item.id, title: item.title, deletedAt: item.deletedAt!, item })),
+      ...Array.from(this.messages.values()).filter(inTrash)
+        .map((item) => ({ type: "message" as const, id: item.id, title: item.subject, deletedAt: item.deletedAt!, item })),
+    ];
+    return items.filter((item) => !filters.type || item.type === filters.type).sort(byDeletedAt);
+  }
+
+  private trashedRow(siteId: number, type: TrashEntityType, id: number): Project | Product | Message | undefined {
+    const row = (type === "project" ? this.projects : type === "product" ? this.products : this.messages).get(id);
+    return row?.siteId === siteId && row.deletedAt ? row : undefined;
+  }
+
+  async restoreFromTrash(siteId: number, type: TrashEntityType, id: number, actorId?: number): Promise<boolean> {
+    const existing = this.trashedRow(siteId, type, id);
+    if (!existing) return false;
+
+    const restored = { ...existing, deletedAt: null };
+    if (type === "project") this.projects.set(id, restored as Project);
+    else if (type === "product") this.products.set(id, restored as Product);
+    else this.messages.set(id, restored as Message);
+    this.recordAudit(siteId, "restore", type, id, existing, restored, actorId);
+    return true;
+  }
+
+  async purgeFromTrash(siteId: number, type: TrashEntityType, id: number, actorId?: number): Promise<boolean> {
+    const existing = this.trashedRow(siteId, type, id);
+    if (!existing) return false;
+
+    if (type === "project") {
+      this.projects.delete(id);
+      for (const image of Array.from(this.projectImages.values())) {
+        if (image.projectId === id) this.projectImages.delete(image.id);
+      }
+    } else if (type === "product") {
+      this.products.delete(id);
+      for (const variant of Array.from(this.productVariants.values())) {
+        if (variant.productId === id) this.productVariants.delete(variant.id);
+      }
+      // Mirror the cart item cascade and the "on delete set null" keys of order lines
+      for (const item of Array.from(this.cartItems.values())) {
+        if (item.productId === id) this.cartItems.delete(item.id);
+      }
+      for (const line of Array.from(this.orderLines.values())) {
+        if (line.productId === id) this.orderLines.set(line.id, { ...line, productId: null, variantId: null });
+      }
+    } else {
+      this.messages.delete(id);
+      for (const reply of Array.from(this.messageReplies.values())) {
+        if (reply.messageId === id) this.messageReplies.delete(reply.id);
+      }
+    }
+    if (type !== "message") this.deleteTranslationsFor(siteId, type, id);
+    this.recordAudit(siteId, "purge", type, id, existing, undefined, actorId);
+    return true;
+  }
+
+  // Audit Log
+  async getAuditLogs(filters: AuditLogFilters): Promise<AuditLog[]> {
+    return Array.from(this.auditLogs.values())
+      .filter((log) =>
+        (filters.siteId === undefined || log.siteId === filters.siteId) &&
+        (filters.userId === undefined || log.userId === filters.userId) &&
+        (!filters.action || log.action === filters.action) &&
+        (!filters.entityType || log.entityType === filters.entityType) &&
+        (filters.entityId === undefined || log.entityId === filters.entityId) &&
+        (!filters.from || (log.createdAt && log.createdAt >= filters.from)) &&
+        (!filters.to || (log.createdAt && log.createdAt <= filters.to)))
+      .sort((a, b) => byCreatedAt(b, a))
+      .slice(0, filters.limit);
+  }
+
+  // Webhooks
+  async getWebhooks(siteId: number): Promise<Webhook[]> {
+    return Array.from(this.webhooks.values())
+      .filter((webhook) => webhook.siteId === siteId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async getWebhook(siteId: number, id: number): Promise<Webhook | undefined> {
+    const webhook = this.webhooks.get(id);
+    return webhook?.siteId === siteId ? webhook : undefined;
+  }
+
+  async createWebhook(siteId: number, webhook: InsertWebhook & { secret: string }, actorId?: number): Promise<Webhook> {
+    const created = this.insert(webhooks, this.webhooks, { ...webhook, siteId });
+    this.recordAudit(siteId, "create", "webhook", created.id, undefined, created, actorId);
+    return created;
+  }
+
+  async updateWebhook(siteId: number, id: number, webhook: Partial<InsertWebhook>, actorId?: number): Promise<Webhook | undefined> {
+    const existing = await this.getWebhook(siteId, id);
+    if (!existing) return undefined;
+
+    const updated = applyUpdate(existing, webhook);
+    this.webhooks.set(id, updated);
+    this.recordAudit(siteId, "update", "webhook", id, existing, updated, actorId);
+    return updated;
+  }
+
+  async deleteWebhook(siteId: number, id: number, actorId?: number): Promise<boolean> {
+    const existing = await this.getWebhook(siteId, id);
+    if (!existing) return false;
+
+    for (const delivery of Array.from(this.webhookDeliveries.values())) {
+      if (delivery.webhookId === id) this.webhookDeliveries.delete(delivery.id);
+    }
+    this.webhooks.delete(id);
+    this.recordAudit(siteId, "delete", "webhook", id, existing, undefined, actorId);
+    return true;
+  }
+
+  async getWebhookDeliveries(siteId: number, webhookId: number, filters: WebhookDeliveryFilters): Promise<WebhookDelivery[]> {
+    return Array.from(this.webhookDeliveries.values())
+      .filter((delivery) =>
+        delivery.siteId === siteId &&
+        delivery.webhookId === webhookId &&
+        (!filters.status || delivery.status === filters.status))
+      .sort((a, b) => byCreatedAt(b, a))
+      .slice(0, filters.limit);
+  }
+
+  async getWebhookDelivery(siteId: number, id: number): Promise<WebhookDelivery | undefined> {
+    const delivery = this.webhookDeliveries.get(id);
+    return delivery?.siteId === siteId ? delivery : undefined;
+  }
+
+  async createWebhookDelivery(siteId: number, delivery: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    return this.insert(webhookDeliveries, this.webhookDeliveries, { ...delivery, siteId });
+  }
+
+  async updateWebhookDelivery(id: number, delivery: Partial<InsertWebhookDelivery>): Promise<WebhookDelivery | undefined> {
+    const existing = this.webhookDeliveries.get(id);
+    if (!existing) return undefined;
+
+    const updated = applyUpdate(existing, delivery);
+    this.webhookDeliveries.set(id, updated);
+    return updated;
+  }
+
+  async getDueWebhookDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]> {
+    return Array.from(this.webhookDeliveries.values())
+      .filter((delivery) => delivery.status === "pending" && delivery.nextAttemptAt !== null && delivery.nextAttemptAt <= now)
+      .sort((a, b) => a.nextAttemptAt!.getTime() - b.nextAttemptAt!.getTime())
+      .slice(0, limit);
+  }
+
+  // Search
+  async searchContent(siteId: number, query: string, options: { config: string; type?: SearchResultType; limit: number }): Promise<SearchHit[]> {
+    const documents = [
+      ...Array.from(this.projects.values())
+        .filter((project) => project.siteId === siteId && !project.deletedAt)
+        .map((project) => ({ type: "project" as const, id: project.id, title: project.title, slug: null, body: project.description })),
+      ...Array.from(this.products.values())
+        .filter((product) => product.siteId === siteId && product.status === "active" && !product.deletedAt)
+        .map((product) => ({ type: "product" as const, id: product.id, title: product.title, slug: null, body: product.description })),
+      ...Array.from(this.pages.values())
+        .filter((page) => page.siteId === siteId && page.status === "published")
+        .map((page) => ({ type: "page" as const, id: page.id, title: page.title, slug: page.slug, body: pageBodyText(page) })),
+    ];
+
+    return documents
+      .filter((document) => !options.type || document.type === options.type)
+      .map(({ body, ...document }) => ({
+        ...document,
+        snippet: highlightWords(query, body),
+        rank: matchWords(query, `${document.title} ${body}`) + matchWords(query, document.title),
+      }))
+      .filter((hit) => hit.rank > 0)
+      .sort((a, b) => b.rank - a.rank || a.type.localeCompare(b.type) || a.id - b.id)
+      .slice(0, options.limit);
+  }
+
+  async searchMessages(siteId: number, query: string, options: { config: string; limit: number }): Promise<MessageSearchHit[]> {
+    const needle = query.toLowerCase();
+    const hits: MessageSearchHit[] = [];
+    for (const message of Array.from(this.messages.values())) {
+      if (message.siteId !== siteId || message.deletedAt) continue;
+
+      const senderMatches = message.name.toLowerCase().includes(needle) || message.email.toLowerCase().includes(needle);
+      const rank = matchWords(query, `${message.subject} ${message.message}`) + (senderMatches ? 1 : 0);
+      const { id, subject, name, email, createdAt } = message;
+      if (rank > 0) {
+        hits.push({ type: "message", id, messageId: id, subject, name, email, createdAt, snippet: highlightWords(query, message.message), rank });
+      }
+      for (const reply of Array.from(this.messageReplies.values())) {
+        const replyRank = reply.messageId === id ? matchWords(query, reply.reply) : 0;
+        if (replyRank > 0) {
+          hits.push({ type: "reply", id: reply.id, messageId: id, subject, name, email, createdAt: reply.createdAt, snippet: highlightWords(query, reply.reply), rank: replyRank });
+        }
+      }
+    }
+    return hits
+      .sort((a, b) => b.rank - a.rank || (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0))
+      .slice(0, options.limit);
+  }
+}
+
+// STORAGE=memory runs the server without Postgres, e.g. for tests and local development
+function createStorage(): IStorage {
+  return process.env.STORAGE === "memory" ? new MemStorage() : new DatabaseStorage();
 }
 
-export const storage = new DatabaseStorage();
\ No newline at end of file
+export const storage = createStorage();
\ No newline at end of file
@@ -0,0 +1,174 @@
+import { type SiteConfig, type InsertSiteConfig } from "@shared/schema";
+
+export type ThemeColorField = "primaryColor" | "secondaryColor" | "accentColor" | "textColor" | "backgroundColor";
+export type ThemeValues = Record<ThemeColorField, string> & { fontFamily: string };
+
+// The column defaults of siteConfig, also used for stored values that are not valid colours
+export const defaultTheme: ThemeValues = {
+  primaryColor: "#2563eb",
+  secondaryColor: "#1e40af",
+  accentColor: "#059669",
+  textColor: "#1f2937",
+  backgroundColor: "#ffffff",
+  fontFamily: "Inter",
+};
+
+export const themePresets: Record<string, { label: string; theme: ThemeValues }> = {
+  default: { label: "Standaard", theme: defaultTheme },
+  forest: {
+    label: "Bos",
+    theme: { primaryColor: "#166534", secondaryColor: "#14532d", accentColor: "#b45309", textColor: "#1c1917", backgroundColor: "#fafaf9", fontFamily: "Lato" },
+  },
+  terracotta: {
+    label: "Terracotta",
+    theme: { primaryColor: "#c2410c", secondaryColor: "#7c2d12", accentColor: "#0f766e", textColor: "#292524", backgroundColor: "#fffbf5", fontFamily: "Lora" },
+  },
+  midnight: {
+    label: "Middernacht",
+    theme: { primaryColor: "#60a5fa", secondaryColor: "#a78bfa", accentColor: "#34d399", textColor: "#e5e7eb", backgroundColor: "#0f172a", fontFamily: "Montserrat" },
+  },
+  minimal: {
+    label: "Minimaal",
+    theme: { primaryColor: "#111827", secondaryColor: "#374151", accentColor: "#dc2626", textColor: "#111827", backgroundColor: "#ffffff", fontFamily: "system-ui" },
+  },
+};
+
+const serifFonts = ["Merriweather", "Playfair Display", "Lora"];
+
+function isHexColor(value: string | null | undefined): value is string {
+  return !!value && /^#[0-9a-f]{6}$/i.test(value);
+}
+
+export function resolveTheme(config: Partial<SiteConfig | InsertSiteConfig> | undefined): ThemeValues {
+  const pick = (field: ThemeColorField) => (isHexColor(config?.[field]) ? config![field]!.toLowerCase() : defaultTheme[field]);
+  return {
+    primaryColor: pick("primaryColor"),
+    secondaryColor: pick("secondaryColor"),
+    accentColor: pick("accentColor"),
+    textColor: pick("textColor"),
+    backgroundColor: pick("backgroundColor"),
+    fontFamily: config?.fontFamily ?? defaultTheme.fontFamily,
+  };
+}
+
+function toRgb(hex: string): [number, number, number] {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+function toHex(rgb: number[]): string {
+  return `#${rgb.map((channel) => Math.round(channel).toString(16).padStart(2, "0")).join("")}`;
+}
+
+// Mixes a colour with another; weight 0 keeps the colour, 1 gives the other
+function mix(hex: string, other: string, weight: number): string {
+  const from = toRgb(hex);
+  const to = toRgb(other);
+  return toHex(from.map((channel, i) => channel + (to[i] - channel) * weight));
+}
+
+// WCAG 2.x relative luminance and contrast ratio
+function luminance(hex: string): number {
+  const [r, g, b] = toRgb(hex).map((channel) => {
+    const value = channel / 255;
+    return value <= 0.03928 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+export function contrastRatio(first: string, second: string): number {
+  const [light, dark] = [luminance(first), luminance(second)].sort((a, b) => b - a);
+  return (light + 0.05) / (dark + 0.05);
+}
+
+// Text on a coloured button or badge: white or the darkest readable colour
+function foregroundFor(hex: string): string {
+  return contrastRatio(hex, "#ffffff") >= contrastRatio(hex, "#111827") ? "#ffffff" : "#111827";
+}
+
+export interface ThemeIssue {
+  severity: "error" | "warning";
+  fields: ThemeColorField[];
+  ratio: number;
+  message: string;
+}
+
+const normalTextContrast = 4.5; // WCAG AA for body text
+const uiContrast = 3; // WCAG AA for large text, links and controls
+
+// Errors block saving the theme; warnings are shown but allowed
+export function checkThemeContrast(theme: ThemeValues): ThemeIssue[] {
+  const issues: ThemeIssue[] = [];
+  const round = (ratio: number) => Math.round(ratio * 100) / 100;
+
+  const textRatio = contrastRatio(theme.textColor, theme.backgroundColor);
+  if (textRatio < normalTextContrast) {
+    issues.push({
+      severity: "error",
+      fields: ["textColor", "backgroundColor"],
+      ratio: round(textRatio),
+      message: `Text on the background has a contrast of ${round(textRatio)}:1; at least ${normalTextContrast}:1 is needed to be readable`,
+    });
+  }
+
+  for (const field of ["primaryColor", "secondaryColor", "accentColor"] as const) {
+    const color = theme[field];
+    const onBackground = contrastRatio(color, theme.backgroundColor);
+    if (onBackground < uiContrast) {
+      issues.push({
+        severity: "warning",
+        fields: [field, "backgroundColor"],
+        ratio: round(onBackground),
+        message: `Links and buttons in ${color} stand out poorly against the background (${round(onBackground)}:1, ${uiContrast}:1 recommended)`,
+      });
+    }
+    const onColor = contrastRatio(color, foregroundFor(color));
+    if (onColor < normalTextContrast) {
+      issues.push({
+        severity: "warning",
+        fields: [field],
+        ratio: round(onColor),
+        message: `Text on ${color} is hard to read (${round(onColor)}:1, ${normalTextContrast}:1 recommended)`,
+      });
+    }
+  }
+  return issues;
+}
+
+// Tints towards white below 500 and shades towards black above it
+const scale: [number, string, number][] = [
+  [50, "#ffffff", 0.95],
+  [100, "#ffffff", 0.9],
+  [200, "#ffffff", 0.75],
+  [300, "#ffffff", 0.6],
+  [400, "#ffffff", 0.3],
+  [500, "#ffffff", 0],
+  [600, "#000000", 0.15],
+  [700, "#000000", 0.3],
+  [800, "#000000", 0.45],
+  [900, "#000000", 0.6],
+];
+
+function fontStack(font: string): string {
+  if (font === "system-ui") return "system-ui, -apple-system, \"Segoe UI\", Roboto, sans-serif";
+  const name = `"${font.replace(/[^\w \-]/g, "")}"`;
+  return serifFonts.includes(font) ? `${name}, Georgia, serif` : `${name}, system-ui, sans-serif`;
+}
+
+export function buildThemeCss(theme: ThemeValues): string {
+  const lines: string[] = [];
+  for (const [name, field] of [["primary", "primaryColor"], ["secondary", "secondaryColor"], ["accent", "accentColor"]] as const) {
+    const color = theme[field];
+    lines.push(`--color-${name}: ${color};`);
+    for (const [step, towards, weight] of scale) {
+      lines.push(`--color-${name}-${step}: ${mix(color, towards, weight)};`);
+    }
+    lines.push(`--color-${name}-foreground: ${foregroundFor(color)};`);
+  }
+  lines.push(`--color-text: ${theme.textColor};`);
+  lines.push(`--color-text-muted: ${mix(theme.textColor, theme.backgroundColor, 0.35)};`);
+  lines.push(`--color-background: ${theme.backgroundColor};`);
+  lines.push(`--color-border: ${mix(theme.backgroundColor, theme.textColor, 0.15)};`);
+  lines.push(`--font-family: ${fontStack(theme.fontFamily)};`);
+  return `:root {\n${lines.map((line) => `  ${line}`).join("\n")}\n}\n`;
+}
@@ -0,0 +1,46 @@
+import { storage } from "./storage";
+import { log } from "./log";
+import { type Permission } from "./auth";
+import { type TrashEntityType, type TrashItem } from "@shared/schema";
+
+// Who may see, restore and purge each kind of trashed row; the same permission deletes it
+export const trashPermissions: Record<TrashEntityType, Permission> = {
+  project: "content:write",
+  product: "content:write",
+  message: "messages:read",
+};
+
+// Trashed rows are purged TRASH_RETENTION_DAYS after they were deleted; 0 keeps them until purged by hand
+export const trashRetentionDays = parseInt(process.env.TRASH_RETENTION_DAYS || "30", 10);
+
+const day = 24 * 60 * 60 * 1000;
+
+export function purgeDate(item: TrashItem): Date | null {
+  return trashRetentionDays > 0 ? new Date(item.deletedAt.getTime() + trashRetentionDays * day) : null;
+}
+
+// Purges everything that has been in the trash longer than the retention period, for every site
+export async function purgeExpiredTrash(retentionDays: number): Promise<number> {
+  const deletedBefore = new Date(Date.now() - retentionDays * day);
+  let purged = 0;
+  for (const site of await storage.getSites()) {
+    for (const item of await storage.getTrash(site.id, { deletedBefore })) {
+      if (await storage.purgeFromTrash(site.id, item.type, item.id)) purged++;
+    }
+  }
+  return purged;
+}
+
+export function scheduleTrashPurge() {
+  if (trashRetentionDays <= 0) return;
+
+  const timer = setInterval(async () => {
+    try {
+      const purged = await purgeExpiredTrash(trashRetentionDays);
+      if (purged > 0) log(`trash purge removed ${purged} items`);
+    } catch (error) {
+      console.error("Trash purge failed", error);
+    }
+  }, 60 * 60 * 1000);
+  timer.unref();
+}
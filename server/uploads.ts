@@ -0,0 +1,224 @@
+import fs from "fs";
+import path from "path";
+import { Readable } from "stream";
+import {
+  S3Client, GetObjectCommand, PutObjectCommand, DeleteObjectCommand, ListObjectsV2Command, NoSuchKey,
+} from "@aws-sdk/client-s3";
+
+export interface StoredFile {
+  key: string;
+  lastModified: Date;
+}
+
+export interface UploadedFile {
+  body: Readable;
+  contentType?: string;
+  size?: number;
+}
+
+// Where uploaded files live. Keys are flat file names such as "3f2a9c.jpg".
+export interface UploadDriver {
+  readonly name: string;
+  put(key: string, sourcePath: string, contentType: string): Promise<void>;
+  get(key: string): Promise<UploadedFile | undefined>;
+  delete(key: string): Promise<void>;
+  list(): Promise<StoredFile[]>;
+  urlFor(key: string): string;
+}
+
+export const uploadsDir = path.join(process.cwd(), "uploads");
+
+export function isValidUploadKey(key: string): boolean {
+  return /^[\w.-]+$/.test(key) && !key.startsWith(".");
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Finds the upload URLs in rich text (markdown images and links, src and href attributes)
+// that start with one of the bases, and replaces those `rewrite` maps to another URL.
+// Returns undefined when nothing changes.
+export function rewriteUploadUrls(
+  text: string,
+  rewrite: (url: string) => string | undefined,
+  bases: string[] = ["/uploads/"],
+): string | undefined {
+  const pattern = new RegExp(`(?<=^|[\\s"'(=])(?:${Array.from(new Set(bases)).map(escapeRegExp).join("|")})[\\w.-]+`, "g");
+  let changed = false;
+  const rewritten = text.replace(pattern, (url) => {
+    const next = rewrite(url);
+    if (next === undefined || next === url) return url;
+    changed = true;
+    return next;
+  });
+  return changed ? rewritten : undefined;
+}
+
+export class LocalUploadDriver implements UploadDriver {
+  readonly name = "local";
+
+  constructor(private directory: string = uploadsDir) {}
+
+  async put(key: string, sourcePath: string, _contentType: string) {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    await fs.promises.copyFile(sourcePath, path.join(this.directory, key));
+  }
+
+  async get(key: string): Promise<UploadedFile | undefined> {
+    const filePath = path.join(this.directory, key);
+    try {
+      const stats = await fs.promises.stat(filePath);
+      if (!stats.isFile()) return undefined;
+      return { body: fs.createReadStream(filePath), size: stats.size };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+
+  async delete(key: string) {
+    await fs.promises.rm(path.join(this.directory, key), { force: true });
+  }
+
+  async list(): Promise<StoredFile[]> {
+    if (!fs.existsSync(this.directory)) return [];
+
+    const files: StoredFile[] = [];
+    for (const key of await fs.promises.readdir(this.directory)) {
+      const stats = await fs.promises.stat(path.join(this.directory, key));
+      if (stats.isFile()) files.push({ key, lastModified: stats.mtime });
+    }
+    return files;
+  }
+
+  urlFor(key: string) {
+    return `/uploads/${key}`;
+  }
+}
+
+interface S3UploadDriverOptions {
+  bucket: string;
+  region: string;
+  endpoint?: string; // e.g. http://localhost:9000 for MinIO
+  forcePathStyle: boolean;
+  prefix: string; // e.g. "uploads/"; required, the driver lists and cleans up everything under it
+  publicUrl?: string; // serve files from here (bucket website, CDN) instead of through /uploads
+  accessKeyId?: string;
+  secretAccessKey?: string;
+}
+
+export class S3UploadDriver implements UploadDriver {
+  readonly name = "s3";
+  private client: S3Client;
+
+  constructor(private options: S3UploadDriverOptions) {
+    this.client = new S3Client({
+      region: options.region,
+      endpoint: options.endpoint,
+      forcePathStyle: options.forcePathStyle,
+      credentials: options.accessKeyId && options.secretAccessKey
+        ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+        : undefined,
+    });
+  }
+
+  private objectKey(key: string) {
+    return `${this.options.prefix}${key}`;
+  }
+
+  async put(key: string, sourcePath: string, contentType: string) {
+    const stats = await fs.promises.stat(sourcePath);
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.options.bucket,
+      Key: this.objectKey(key),
+      Body: fs.createReadStream(sourcePath),
+      ContentLength: stats.size,
+      ContentType: contentType,
+    }));
+  }
+
+  async get(key: string): Promise<UploadedFile | undefined> {
+    try {
+      const object = await this.client.send(new GetObjectCommand({
+        Bucket: this.options.bucket,
+        Key: this.objectKey(key),
+      }));
+      return {
+        body: object.Body as Readable,
+        contentType: object.ContentType,
+        size: object.ContentLength,
+      };
+    } catch (error) {
+      if (error instanceof NoSuchKey) return undefined;
+      throw error;
+    }
+  }
+
+  async delete(key: string) {
+    await this.client.send(new DeleteObjectCommand({
+      Bucket: this.options.bucket,
+      Key: this.objectKey(key),
+    }));
+  }
+
+  async list(): Promise<StoredFile[]> {
+    // Without a prefix the listing would cover the whole bucket, including objects of others
+    if (!this.options.prefix) {
+      throw new Error("The S3 upload driver only lists files under a prefix; set S3_PREFIX");
+    }
+    const files: StoredFile[] = [];
+    let continuationToken: string | undefined;
+    do {
+      const page = await this.client.send(new ListObjectsV2Command({
+        Bucket: this.options.bucket,
+        Prefix: this.options.prefix,
+        ContinuationToken: continuationToken,
+      }));
+      for (const object of page.Contents ?? []) {
+        if (!object.Key) continue;
+        files.push({
+          key: object.Key.slice(this.options.prefix.length),
+          lastModified: object.LastModified ?? new Date(),
+        });
+      }
+      continuationToken = page.NextContinuationToken;
+    } while (continuationToken);
+    return files;
+  }
+
+  urlFor(key: string) {
+    if (this.options.publicUrl) {
+      return `${this.options.publicUrl.replace(/\/+$/, "")}/${this.objectKey(key)}`;
+    }
+    return `/uploads/${key}`;
+  }
+}
+
+// Picks the driver from UPLOAD_STORAGE ("local" or "s3"); local disk is the default
+export function createUploadDriver(): UploadDriver {
+  if (process.env.UPLOAD_STORAGE !== "s3") {
+    return new LocalUploadDriver();
+  }
+
+  if (!process.env.S3_BUCKET) {
+    throw new Error("S3_BUCKET must be set when UPLOAD_STORAGE=s3");
+  }
+  // The media cleanup removes files under the prefix that nothing refers to, so the uploads
+  // need a folder of their own even in a bucket that holds nothing else
+  if (!process.env.S3_PREFIX) {
+    throw new Error("S3_PREFIX must be set when UPLOAD_STORAGE=s3, e.g. S3_PREFIX=uploads/");
+  }
+  return new S3UploadDriver({
+    bucket: process.env.S3_BUCKET,
+    region: process.env.S3_REGION || "us-east-1",
+    endpoint: process.env.S3_ENDPOINT,
+    forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+    prefix: process.env.S3_PREFIX,
+    publicUrl: process.env.S3_PUBLIC_URL,
+    accessKeyId: process.env.S3_ACCESS_KEY_ID,
+    secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+  });
+}
+
+export const uploads = createUploadDriver();
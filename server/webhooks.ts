@@ -0,0 +1,208 @@
+import { createHmac, randomBytes } from "crypto";
+import { lookup } from "dns/promises";
+import type { LookupAddress } from "dns";
+import http from "http";
+import https from "https";
+import { BlockList, isIP, type LookupFunction } from "net";
+import { storage } from "./storage";
+import { onSiteEvent, type SiteEvent } from "./events";
+import { type WebhookDelivery } from "@shared/schema";
+
+const maxAttempts = 6;
+const retryBaseDelay = 30 * 1000; // doubles after every failed attempt: 30s, 1m, 2m, 4m, 8m
+const requestTimeout = 10 * 1000;
+const retryInterval = 15 * 1000;
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString("hex")}`;
+}
+
+// Addresses a webhook may not reach: loopback, private, link-local, CGNAT and unique-local
+// ranges, so a site owner cannot use deliveries to probe the server's own network
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16], ["172.16.0.0", 12], ["192.168.0.0", 16], ["224.0.0.0", 3]] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [["::", 127], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8]] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+// Hosts listed in WEBHOOK_ALLOWED_HOSTS (comma separated) skip the address check,
+// e.g. a receiver on the internal network
+const allowedHosts = new Set(
+  (process.env.WEBHOOK_ALLOWED_HOSTS ?? "").split(",").map((host) => host.trim().toLowerCase()).filter(Boolean),
+);
+
+function isBlockedAddress(address: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) return blockedAddresses.check(mapped[1], "ipv4");
+  return blockedAddresses.check(address, isIP(address) === 6 ? "ipv6" : "ipv4");
+}
+
+// Resolves the webhook host to the addresses a delivery may connect to, or says why it may
+// not be called. Allowed hosts resolve as usual, so they have no addresses here.
+async function resolveWebhookHost(url: string): Promise<{ addresses?: LookupAddress[]; error?: string }> {
+  const hostname = new URL(url).hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  if (allowedHosts.has(hostname)) return {};
+  let addresses: LookupAddress[];
+  try {
+    addresses = isIP(hostname) ? [{ address: hostname, family: isIP(hostname) }] : await lookup(hostname, { all: true });
+  } catch {
+    return { error: `The host ${hostname} could not be resolved` };
+  }
+  if (addresses.length === 0 || addresses.some((entry) => isBlockedAddress(entry.address))) {
+    return { error: `The host ${hostname} resolves to a private or reserved address` };
+  }
+  return { addresses };
+}
+
+// Returns why the webhook URL may not be called, or undefined when it may.
+// Checked when a webhook is saved and again before every delivery, since DNS can change.
+export async function webhookUrlError(url: string): Promise<string | undefined> {
+  return (await resolveWebhookHost(url)).error;
+}
+
+// Posts to the webhook URL, connecting only to the addresses that were checked: resolving the
+// host again could give another answer. Redirects are not followed.
+function post(url: string, addresses: LookupAddress[] | undefined, headers: Record<string, string>, body: string) {
+  const pinned: LookupFunction | undefined = addresses && ((hostname, options, callback) => {
+    if (options.all) callback(null, addresses);
+    else callback(null, addresses[0].address, addresses[0].family);
+  });
+  return new Promise<{ status: number; body: string }>((resolve, reject) => {
+    const request = (url.startsWith("https:") ? https : http).request(url, {
+      method: "POST",
+      headers: { ...headers, "Content-Length": Buffer.byteLength(body) },
+      lookup: pinned,
+      signal: AbortSignal.timeout(requestTimeout),
+    }, (response) => {
+      let text = "";
+      response.setEncoding("utf8");
+      response.on("data", (chunk: string) => {
+        if (text.length < 2000) text += chunk;
+      });
+      response.on("end", () => resolve({ status: response.statusCode ?? 0, body: text.slice(0, 2000) }));
+      response.on("error", reject);
+    });
+    request.on("error", reject);
+    request.end(body);
+  });
+}
+
+// Receivers recompute the HMAC over "<timestamp>.<body>" with their secret and compare it
+// to the v1 value of the X-Webhook-Signature header: t=<timestamp>,v1=<hex>
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+// Posts a delivery once and records the outcome. Failed deliveries are retried with
+// exponential backoff until they run out of attempts.
+export async function attemptDelivery(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+  const webhook = await storage.getWebhook(delivery.siteId, delivery.webhookId);
+  if (!webhook) {
+    return (await storage.updateWebhookDelivery(delivery.id, { status: "failed", nextAttemptAt: null, error: "The webhook no longer exists" }))!;
+  }
+
+  const { addresses, error: urlError } = await resolveWebhookHost(webhook.url);
+  if (urlError) {
+    return (await storage.updateWebhookDelivery(delivery.id, {
+      status: "failed",
+      attempts: delivery.attempts + 1,
+      nextAttemptAt: null,
+      error: urlError,
+    }))!;
+  }
+
+  const attempts = delivery.attempts + 1;
+  // Pushing the next attempt back keeps the retry loop off a delivery that is in flight
+  await storage.updateWebhookDelivery(delivery.id, { attempts, nextAttemptAt: new Date(Date.now() + 2 * requestTimeout) });
+
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string;
+  try {
+    const response = await post(webhook.url, addresses, {
+      "Content-Type": "application/json",
+      "X-Webhook-Id": delivery.eventId,
+      "X-Webhook-Event": delivery.eventType,
+      "X-Webhook-Signature": `t=${timestamp},v1=${signPayload(webhook.secret, timestamp, body)}`,
+    }, body);
+    responseStatus = response.status;
+    responseBody = response.body;
+    if (response.status >= 200 && response.status < 300) {
+      return (await storage.updateWebhookDelivery(delivery.id, {
+        status: "succeeded",
+        nextAttemptAt: null,
+        responseStatus,
+        responseBody,
+        error: null,
+        deliveredAt: new Date(),
+      }))!;
+    }
+    error = `The endpoint responded with status ${response.status}`;
+  } catch (failure) {
+    error = failure instanceof Error ? failure.message : String(failure);
+  }
+
+  const givingUp = attempts >= maxAttempts;
+  return (await storage.updateWebhookDelivery(delivery.id, {
+    status: givingUp ? "failed" : "pending",
+    nextAttemptAt: givingUp ? null : new Date(Date.now() + retryBaseDelay * 2 ** (attempts - 1)),
+    responseStatus,
+    responseBody,
+    error,
+  }))!;
+}
+
+async function queueDeliveries(event: SiteEvent) {
+  const subscribed = (await storage.getWebhooks(event.siteId))
+    .filter((webhook) => webhook.active && webhook.events.includes(event.type));
+  for (const webhook of subscribed) {
+    const delivery = await storage.createWebhookDelivery(event.siteId, {
+      webhookId: webhook.id,
+      eventId: event.id,
+      eventType: event.type,
+      payload: { ...event },
+      nextAttemptAt: new Date(),
+    });
+    attemptDelivery(delivery).catch((error) => console.error("Webhook delivery failed", error));
+  }
+}
+
+// Sends the same event again as a new delivery, keeping the original in the log
+export async function redeliver(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+  const copy = await storage.createWebhookDelivery(delivery.siteId, {
+    webhookId: delivery.webhookId,
+    eventId: delivery.eventId,
+    eventType: delivery.eventType,
+    payload: delivery.payload,
+    nextAttemptAt: new Date(),
+  });
+  return attemptDelivery(copy);
+}
+
+// Subscribes the webhooks to site events and retries failed deliveries in the background.
+// Pending deliveries are stored, so retries continue after a restart.
+export function scheduleWebhookDeliveries() {
+  onSiteEvent((event) => {
+    queueDeliveries(event).catch((error) => console.error("Queueing webhook deliveries failed", error));
+  });
+
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      for (const delivery of await storage.getDueWebhookDeliveries(new Date(), 20)) {
+        await attemptDelivery(delivery);
+      }
+    } catch (error) {
+      console.error("Retrying webhook deliveries failed", error);
+    } finally {
+      running = false;
+    }
+  }, retryInterval);
+  timer.unref();
+}
@@ -1,15 +1,86 @@
-import { pgTable, text, serial, integer, boolean, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Platform admins manage every site and user; members only get the roles of their site memberships
+export const platformRoles = ["admin", "member"] as const;
+// Roles on a single site, given through site_members
+export const userRoles = ["owner", "editor", "support"] as const;
+
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  role: text("role").notNull().default("member"), // platform role: admin, member
+});
+
+export const sites = pgTable("sites", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  hostname: text("hostname").notNull().unique(),
+  locales: text("locales").array().notNull().default(["nl"]),
+  defaultLocale: text("default_locale").notNull().default("nl"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Custom domains that resolve to a site in addition to its primary hostname
+export const siteDomains = pgTable("site_domains", {
+  id: serial("id").primaryKey(),
+  siteId: integer("site_id").notNull().references(() => sites.id, { onDelete: "cascade" }),
+  domain: text("domain").notNull().unique(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Which users work on which site, and in what role
+export const siteMembers = pgTable("site_members", {
+  id: serial("id").primaryKey(),
+  siteId: integer("site_id").notNull().references(() => sites.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  role: text("role").notNull().default("support"), // owner, editor, support
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  siteUserUnique: unique("site_members_site_id_user_id_unique").on(table.siteId, table.userId),
+}));
+
+// Uploaded files; projects, products and the site logo/favicon reference them by id
+export const imageVariantNames = ["thumbnail", "medium", "large"] as const;
+
+export type ImageVariant = {
+  name: typeof imageVariantNames[number];
+  filename: string;
+  url: string;
+  width: number;
+  height: number;
+  mimeType: string;
+  size: number; // bytes
+};
+
+export const media = pgTable("media", {
+  id: serial("id").primaryKey(),
+  siteId: integer("site_id").notNull().references(() => sites.id, { onDelete: "cascade" }),
+  filename: text("filename").notNull(), // name of the stored file under uploads/
+  originalName: text("original_name").notNull(),
+  mimeType: text("mime_type").notNull(),
+  size: integer("size").notNull(), // bytes
+  url: text("url").notNull(),
+  width: integer("width"),
+  height: integer("height"),
+  variants: jsonb("variants").$type<ImageVariant[]>().notNull().default([]),
+  alt: text("alt"),
+  tags: text("tags").array().notNull().default([]),
+  uploadedBy: integer("uploaded_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Fonts the theme can use; the site loads these, so other names would silently fall back
+export const supportedFonts = [
+  "Inter", "Roboto", "Open Sans", "Lato", "Montserrat", "Poppins", "Nunito", "Source Sans 3",
+  "Merriweather", "Playfair Display", "Lora", "system-ui",
+] as const;
+
 export const siteConfig = pgTable("site_config", {
   id: serial("id").primaryKey(),
+  siteId: integer("site_id").notNull().unique().references(() => sites.id, { onDelete: "cascade" }),
   companyName: text("company_name").notNull(),
   heroTitle: text("hero_title"),
   heroDescription: text("hero_description"),
@@ -18,7 +89,9 @@ export const siteConfig = pgTable("site_config", {
   
   // Design & Branding
   logoUrl: text("logo_url"),
+  logoMediaId: integer("logo_media_id").references(() => media.id, { onDelete: "set null" }),
   faviconUrl: text("favicon_url"),
+  faviconMediaId: integer("favicon_media_id").references(() => media.id, { onDelete: "set null" }),
   primaryColor: text("primary_color").default("#2563eb"),
   secondaryColor: text("secondary_color").default("#1e40af"),
   accentColor: text("accent_color").default("#059669"),
@@ -43,36 +116,169 @@ export const siteConfig = pgTable("site_config", {
   seoKeywords: text("seo_keywords"),
   metaDescription: text("meta_description"),
   metaKeywords: text("meta_keywords"),
+
+  // Listings: how many projects and products can be featured at once
+  featuredProjectsLimit: integer("featured_projects_limit").notNull().default(6),
+  featuredProductsLimit: integer("featured_products_limit").notNull().default(6),
 });
 
 export const projects = pgTable("projects", {
   id: serial("id").primaryKey(),
+  siteId: integer("site_id").notNull().references(() => sites.id, { onDelete: "cascade" }),
   title: text("title").notNull(),
   description: text("description").notNull(),
   category: text("category").notNull(),
   status: text("status").notNull().default("concept"), // concept, progress, completed
   imageUrl: text("image_url"),
+  imageMediaId: integer("image_media_id").references(() => media.id, { onDelete: "set null" }),
+  position: integer("position").notNull().default(0), // manual order in listings, lowest first
+  featured: boolean("featured").notNull().default(false),
+
+  // Case study
+  body: text("body"), // rich content in bodyFormat, rendered by server/rich-text.ts
+  bodyFormat: text("body_format").notNull().default("markdown"), // markdown, html
+  client: text("client"),
+  location: text("location"),
+  year: integer("year"),
+  services: jsonb("services").$type<string[]>().notNull().default([]),
+  clientQuote: text("client_quote"),
+  clientQuoteAuthor: text("client_quote_author"),
+
   createdAt: timestamp("created_at").defaultNow(),
+  deletedAt: timestamp("deleted_at"), // set while the project is in the trash
 });
 
+// The gallery of a project, e.g. before and after photos, in order
+export const projectImages = pgTable("project_images", {
+  id: serial("id").primaryKey(),
+  siteId: integer("site_id").notNull().references(() => sites.id, { onDelete: "cascade" }),
+  projectId: integer("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  imageMediaId: integer("image_media_id").notNull().references(() => media.id, { onDelete: "cascade" }),
+  imageUrl: text("image_url").notNull(),
+  caption: text("caption"),
+  alt: text("alt"),
+  position: integer("position").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const productCategories = pgTable("product_categories", {
+  id: serial("id").primaryKey(),
+  siteId: integer("site_id").notNull().references(() => sites.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  slug: text("slug").notNull(),
+  description: text("description"),
+  position: integer("position").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  siteSlugUnique: unique("product_categories_site_id_slug_unique").on(table.siteId, table.slug),
+}));
+
+// An option customers choose from, e.g. { name: "Maat", values: ["S", "M", "L"] }
+export type ProductOption = { name: string; values: string[] };
+
 export const products = pgTable("products", {
   id: serial("id").primaryKey(),
+  siteId: integer("site_id").notNull().references(() => sites.id, { onDelete: "cascade" }),
   title: text("title").notNull(),
   description: text("description").notNull(),
-  price: text("price").notNull(), // Store as string for display flexibility
+  priceAmount: integer("price_amount").notNull(), // in minor units, e.g. cents
+  currency: text("currency").notNull().default("EUR"), // ISO 4217 code
+  sku: text("sku"),
+  stock: integer("stock"), // null when stock is not tracked; variants keep their own stock
+  categoryId: integer("category_id").references(() => productCategories.id, { onDelete: "set null" }),
+  options: jsonb("options").$type<ProductOption[]>().notNull().default([]),
   imageUrl: text("image_url"),
+  imageMediaId: integer("image_media_id").references(() => media.id, { onDelete: "set null" }),
   status: text("status").notNull().default("active"), // active, inactive
+  position: integer("position").notNull().default(0), // manual order in listings, lowest first
+  featured: boolean("featured").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+  deletedAt: timestamp("deleted_at"), // set while the product is in the trash
+}, (table) => ({
+  siteSkuUnique: unique("products_site_id_sku_unique").on(table.siteId, table.sku),
+}));
+
+// A purchasable combination of option values, priced in the product's currency
+export const productVariants = pgTable("product_variants", {
+  id: serial("id").primaryKey(),
+  siteId: integer("site_id").notNull().references(() => sites.id, { onDelete: "cascade" }),
+  productId: integer("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  sku: text("sku"),
+  optionValues: jsonb("option_values").$type<Record<string, string>>().notNull(), // option name -> value
+  priceAmount: integer("price_amount").notNull(),
+  stock: integer("stock"), // null when stock is not tracked
+  position: integer("position").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  siteSkuUnique: unique("product_variants_site_id_sku_unique").on(table.siteId, table.sku),
+}));
+
+// Anonymous shopping carts, found through the token in the visitor's cart cookie
+export const carts = pgTable("carts", {
+  id: serial("id").primaryKey(),
+  siteId: integer("site_id").notNull().references(() => sites.id, { onDelete: "cascade" }),
+  token: text("token").notNull().unique(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const cartItems = pgTable("cart_items", {
+  id: serial("id").primaryKey(),
+  cartId: integer("cart_id").notNull().references(() => carts.id, { onDelete: "cascade" }),
+  productId: integer("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  variantId: integer("variant_id").references(() => productVariants.id, { onDelete: "cascade" }),
+  quantity: integer("quantity").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const orderStatuses = ["pending", "paid", "fulfilled", "failed", "cancelled", "refunded"] as const;
+
+export const orders = pgTable("orders", {
+  id: serial("id").primaryKey(),
+  siteId: integer("site_id").notNull().references(() => sites.id, { onDelete: "cascade" }),
+  reference: text("reference").notNull().unique(), // shown to the customer
+  status: text("status").notNull().default("pending"), // see orderStatuses
+  customerName: text("customer_name").notNull(),
+  customerEmail: text("customer_email").notNull(),
+  customerPhone: text("customer_phone"),
+  shippingAddress: text("shipping_address"),
+  notes: text("notes"),
+  currency: text("currency").notNull(),
+  totalAmount: integer("total_amount").notNull(), // in minor units
+  paymentProvider: text("payment_provider"),
+  paymentId: text("payment_id"),
   createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Order lines copy the product details so later catalog changes do not alter placed orders
+export const orderLines = pgTable("order_lines", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id").notNull().references(() => orders.id, { onDelete: "cascade" }),
+  productId: integer("product_id").references(() => products.id, { onDelete: "set null" }),
+  variantId: integer("variant_id").references(() => productVariants.id, { onDelete: "set null" }),
+  title: text("title").notNull(),
+  options: jsonb("options").$type<Record<string, string>>().notNull().default({}),
+  sku: text("sku"),
+  unitAmount: integer("unit_amount").notNull(),
+  quantity: integer("quantity").notNull(),
+  totalAmount: integer("total_amount").notNull(),
 });
 
 export const messages = pgTable("messages", {
   id: serial("id").primaryKey(),
+  siteId: integer("site_id").notNull().references(() => sites.id, { onDelete: "cascade" }),
   name: text("name").notNull(),
   email: text("email").notNull(),
   subject: text("subject").notNull(),
   message: text("message").notNull(),
   isRead: boolean("is_read").default(false),
+  isSpam: boolean("is_spam").notNull().default(false),
+  spamScore: integer("spam_score").notNull().default(0),
+  spamReasons: jsonb("spam_reasons").$type<string[]>().notNull().default([]),
+  replyToken: text("reply_token").unique(), // identifies the thread in reply emails, set on the first reply
   createdAt: timestamp("created_at").defaultNow(),
+  deletedAt: timestamp("deleted_at"), // set while the message is in the trash
 });
 
 export const messageReplies = pgTable("message_replies", {
@@ -80,17 +286,249 @@ export const messageReplies = pgTable("message_replies", {
   messageId: integer("message_id").references(() => messages.id),
   reply: text("reply").notNull(),
   isFromAdmin: boolean("is_from_admin").default(true),
+  deliveryStatus: text("delivery_status"), // pending, sent, failed; null for replies received by email
+  deliveryError: text("delivery_error"),
+  deliveredAt: timestamp("delivered_at"),
+  emailMessageId: text("email_message_id"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Page blocks, stored in order as a JSON array on the page
+const blockBaseSchema = z.object({
+  id: z.string().min(1).max(64), // stable client-generated id, used to reorder blocks
+});
+
+export const heroBlockSchema = blockBaseSchema.extend({
+  type: z.literal("hero"),
+  title: z.string().min(1),
+  subtitle: z.string().optional(),
+  imageUrl: z.string().optional(),
+  ctaLabel: z.string().optional(),
+  ctaUrl: z.string().optional(),
+});
+
+export const richTextBlockSchema = blockBaseSchema.extend({
+  type: z.literal("richText"),
+  title: z.string().optional(),
+  content: z.string(),
+});
+
+export const imageBlockSchema = blockBaseSchema.extend({
+  type: z.literal("image"),
+  imageUrl: z.string().min(1),
+  alt: z.string().optional(),
+  caption: z.string().optional(),
+});
+
+export const projectGridBlockSchema = blockBaseSchema.extend({
+  type: z.literal("projectGrid"),
+  title: z.string().optional(),
+  category: z.string().optional(),
+  featured: z.boolean().optional(), // only featured projects
+  limit: z.number().int().min(1).max(100).optional(),
+});
+
+export const productGridBlockSchema = blockBaseSchema.extend({
+  type: z.literal("productGrid"),
+  title: z.string().optional(),
+  featured: z.boolean().optional(), // only featured products
+  limit: z.number().int().min(1).max(100).optional(),
+});
+
+export const contactFormBlockSchema = blockBaseSchema.extend({
+  type: z.literal("contactForm"),
+  title: z.string().optional(),
+  description: z.string().optional(),
+});
+
+export const pageBlockSchema = z.discriminatedUnion("type", [
+  heroBlockSchema,
+  richTextBlockSchema,
+  imageBlockSchema,
+  projectGridBlockSchema,
+  productGridBlockSchema,
+  contactFormBlockSchema,
+]);
+
+export type PageBlock = z.infer<typeof pageBlockSchema>;
+
+export const pages = pgTable("pages", {
+  id: serial("id").primaryKey(),
+  siteId: integer("site_id").notNull().references(() => sites.id, { onDelete: "cascade" }),
+  slug: text("slug").notNull(),
+  title: text("title").notNull(),
+  status: text("status").notNull().default("draft"), // draft, published
+  navOrder: integer("nav_order").notNull().default(0),
+  showInNav: boolean("show_in_nav").notNull().default(true),
+  seoTitle: text("seo_title"),
+  seoDescription: text("seo_description"),
+  blocks: jsonb("blocks").$type<PageBlock[]>().notNull().default([]),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  siteSlugUnique: unique("pages_site_id_slug_unique").on(table.siteId, table.slug),
+}));
+
+// Translated values for text fields; the columns on the entity itself hold the site's default locale
+export const translations = pgTable("translations", {
+  id: serial("id").primaryKey(),
+  siteId: integer("site_id").notNull().references(() => sites.id, { onDelete: "cascade" }),
+  entityType: text("entity_type").notNull(), // siteConfig, project, product, page
+  entityId: integer("entity_id").notNull(),
+  field: text("field").notNull(), // column name, or blocks.<blockId>.<property> for page blocks
+  locale: text("locale").notNull(),
+  value: text("value").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  fieldLocaleUnique: unique("translations_entity_field_locale_unique")
+    .on(table.siteId, table.entityType, table.entityId, table.field, table.locale),
+}));
+
+export const translatableFields = {
+  siteConfig: [
+    "companyName", "heroTitle", "heroDescription", "aboutTitle", "aboutDescription", "address",
+    "siteTitle", "seoDescription", "seoKeywords", "metaDescription", "metaKeywords",
+  ],
+  project: ["title", "description", "body", "clientQuote"],
+  product: ["title", "description"],
+  page: ["title", "seoTitle", "seoDescription"],
+} as const;
+
+export const translatableBlockFields = ["title", "subtitle", "content", "ctaLabel", "alt", "caption", "description"] as const;
+
+export type TranslatableEntityType = keyof typeof translatableFields;
+
+// Unpublished changes to a site's configuration; at most one draft per site
+export const siteConfigDrafts = pgTable("site_config_drafts", {
+  id: serial("id").primaryKey(),
+  siteId: integer("site_id").notNull().unique().references(() => sites.id, { onDelete: "cascade" }),
+  data: jsonb("data").$type<InsertSiteConfig>().notNull(),
+  updatedBy: integer("updated_by").references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Snapshot of a record after every change that went live
+export const revisions = pgTable("revisions", {
+  id: serial("id").primaryKey(),
+  siteId: integer("site_id").notNull().references(() => sites.id, { onDelete: "cascade" }),
+  entityType: text("entity_type").notNull(), // siteConfig, project, product
+  entityId: integer("entity_id").notNull(),
+  version: integer("version").notNull(),
+  data: jsonb("data").$type<Record<string, unknown>>().notNull(),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// "delete" moves projects, products and messages to the trash; "purge" removes them for good
+export const auditActions = ["create", "update", "delete", "restore", "purge"] as const;
+
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+export const auditLogs = pgTable("audit_logs", {
+  id: serial("id").primaryKey(),
+  siteId: integer("site_id"), // null for entries that are not tied to a site, e.g. users
+  userId: integer("user_id").references(() => users.id),
+  action: text("action").notNull(), // one of auditActions
+  entityType: text("entity_type").notNull(), // site, siteConfig, project, product, message, messageReply, user
+  entityId: integer("entity_id"),
+  changes: jsonb("changes").$type<AuditChanges>(),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Events emitted when content or the inbox changes; webhooks subscribe to them
+export const siteEventTypes = [
+  "message.created", "message.read", "message.replied", "message.deleted", "message.restored",
+  "project.created", "project.updated", "project.deleted", "project.restored",
+  "product.created", "product.updated", "product.deleted", "product.restored",
+  "page.created", "page.updated", "page.deleted",
+  "config.published",
+  "order.created", "order.updated",
+] as const;
+
+export const webhooks = pgTable("webhooks", {
+  id: serial("id").primaryKey(),
+  siteId: integer("site_id").notNull().references(() => sites.id, { onDelete: "cascade" }),
+  url: text("url").notNull(),
+  description: text("description"),
+  secret: text("secret").notNull(), // signs the payloads
+  events: text("events").array().notNull().default([]),
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: serial("id").primaryKey(),
+  siteId: integer("site_id").notNull().references(() => sites.id, { onDelete: "cascade" }),
+  webhookId: integer("webhook_id").notNull().references(() => webhooks.id, { onDelete: "cascade" }),
+  eventId: text("event_id").notNull(),
+  eventType: text("event_type").notNull(),
+  payload: jsonb("payload").$type<Record<string, unknown>>().notNull(),
+  status: text("status").notNull().default("pending"), // pending, succeeded, failed
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at"), // null once succeeded or given up
+  responseStatus: integer("response_status"),
+  responseBody: text("response_body"),
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow(),
+  deliveredAt: timestamp("delivered_at"),
+});
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
+  role: true,
+}).extend({
+  role: z.enum(platformRoles).optional(),
+});
+
+// A new account for the current site: the role is the one it gets on that site
+export const createSiteUserSchema = insertUserSchema.omit({ role: true }).extend({
+  role: z.enum(userRoles),
+});
+
+export const siteMemberSchema = z.object({
+  username: z.string().min(1),
+  role: z.enum(userRoles),
+});
+
+const slugSchema = z.string().regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, "Slugs may only contain lowercase letters, digits and dashes");
+
+const hostnameSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .regex(/^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)(\.[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)*$/, "Invalid hostname");
+
+const localeSchema = z.string().regex(/^[a-z]{2}(-[A-Z]{2})?$/, "Invalid locale");
+
+// #rgb or #rrggbb, stored as lowercase #rrggbb
+const hexColorSchema = z
+  .string()
+  .trim()
+  .regex(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i, "Use a hex colour such as #2563eb")
+  .transform((color) => (color.length === 4 ? `#${color[1]}${color[1]}${color[2]}${color[2]}${color[3]}${color[3]}` : color).toLowerCase());
+
+export const insertSiteSchema = createInsertSchema(sites).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  hostname: hostnameSchema,
+  locales: z.array(localeSchema).min(1).optional(),
+  defaultLocale: localeSchema.optional(),
+});
+
+export const insertSiteDomainSchema = createInsertSchema(siteDomains).omit({
+  id: true,
+  siteId: true,
+  createdAt: true,
+}).extend({
+  domain: hostnameSchema,
 });
 
 export const insertSiteConfigSchema = createInsertSchema(siteConfig).omit({
   id: true,
+  siteId: true,
 }).extend({
   heroTitle: z.string().optional(),
   heroDescription: z.string().optional(),
@@ -99,13 +537,15 @@ export const insertSiteConfigSchema = createInsertSchema(siteConfig).omit({
   
   // Design & Branding
   logoUrl: z.string().optional(),
+  logoMediaId: z.number().int().positive().nullable().optional(),
   faviconUrl: z.string().optional(),
-  primaryColor: z.string().optional(),
-  secondaryColor: z.string().optional(),
-  accentColor: z.string().optional(),
-  textColor: z.string().optional(),
-  backgroundColor: z.string().optional(),
-  fontFamily: z.string().optional(),
+  faviconMediaId: z.number().int().positive().nullable().optional(),
+  primaryColor: hexColorSchema.optional(),
+  secondaryColor: hexColorSchema.optional(),
+  accentColor: hexColorSchema.optional(),
+  textColor: hexColorSchema.optional(),
+  backgroundColor: hexColorSchema.optional(),
+  fontFamily: z.enum(supportedFonts).optional(),
   
   // Contact Info
   email: z.string().optional(),
@@ -124,44 +564,512 @@ export const insertSiteConfigSchema = createInsertSchema(siteConfig).omit({
   seoKeywords: z.string().optional(),
   metaDescription: z.string().optional(),
   metaKeywords: z.string().optional(),
+
+  // Listings
+  featuredProjectsLimit: z.number().int().min(1).max(100).optional(),
+  featuredProductsLimit: z.number().int().min(1).max(100).optional(),
+});
+
+export const applyThemePresetSchema = z.object({
+  preset: z.string().min(1),
+});
+
+export const insertMediaSchema = createInsertSchema(media).omit({
+  id: true,
+  siteId: true,
+  createdAt: true,
+}).extend({
+  tags: z.array(z.string()).optional(),
+  variants: z.array(z.custom<ImageVariant>()).optional(),
+});
+
+export const updateMediaSchema = z.object({
+  alt: z.string().nullable().optional(),
+  tags: z.array(z.string().trim().min(1)).optional(),
 });
 
+export const sortOrders = ["asc", "desc"] as const;
+
+// Offset pagination and sorting shared by the list endpoints; each endpoint whitelists its sort fields
+function listOptionsSchema<T extends readonly [string, ...string[]]>(sortFields: T) {
+  return z.object({
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+    offset: z.coerce.number().int().min(0).default(0),
+    sort: z.enum(sortFields).default(sortFields[0]),
+    order: z.enum(sortOrders).default("asc"),
+  });
+}
+
+export const mediaFiltersSchema = z.object({
+  tag: z.string().optional(),
+  search: z.string().optional(),
+});
+
+export const richTextFormats = ["markdown", "html"] as const;
+
+// Checkboxes in multipart forms arrive as "true" or "false"
+const formBoolean = z.preprocess((value) => (value === "true" ? true : value === "false" ? false : value), z.boolean());
+
+// Multipart form fields arrive as strings, hence the coercion
 export const insertProjectSchema = createInsertSchema(projects).omit({
   id: true,
+  siteId: true,
+  createdAt: true,
+  deletedAt: true,
+}).extend({
+  imageMediaId: z.coerce.number().int().positive().optional(),
+  position: z.coerce.number().int().nonnegative().optional(),
+  featured: formBoolean.optional(),
+  bodyFormat: z.enum(richTextFormats).optional(),
+  body: z.string().max(100_000).nullable().optional(),
+  year: z.coerce.number().int().min(1800).max(2200).nullable().optional(),
+  services: jsonField(z.array(z.string().trim().min(1).max(100)).max(30)).optional(),
+});
+
+// Gallery images added with a project: captions in the order of the uploaded files
+export const projectGalleryUploadSchema = z.object({
+  galleryCaptions: jsonField(z.array(z.string().max(500)).max(20)).optional(),
+});
+
+// Gallery images come from an upload or from the media library
+export const insertProjectImageSchema = createInsertSchema(projectImages).omit({
+  id: true,
+  siteId: true,
+  projectId: true,
+  imageUrl: true,
+  createdAt: true,
+}).extend({
+  imageMediaId: z.coerce.number().int().positive(),
+  caption: z.string().max(500).nullable().optional(),
+  alt: z.string().max(500).nullable().optional(),
+  position: z.coerce.number().int().nonnegative().optional(),
+});
+
+export const updateProjectImageSchema = insertProjectImageSchema.pick({ caption: true, alt: true });
+
+export const projectFiltersSchema = z.object({
+  category: z.string().optional(),
+  status: z.string().optional(),
+  featured: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+});
+
+// The first field is the default: the manual order
+export const projectSortFields = ["position", "createdAt", "title", "category", "status"] as const;
+export const projectListQuerySchema = projectFiltersSchema.merge(listOptionsSchema(projectSortFields));
+
+// Multipart forms send structured fields as JSON strings
+function jsonField<T extends z.ZodTypeAny>(schema: T) {
+  return z.preprocess((value) => {
+    if (typeof value !== "string") return value;
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }, schema);
+}
+
+const productOptionSchema = z.object({
+  name: z.string().trim().min(1),
+  values: z.array(z.string().trim().min(1)).min(1),
+});
+
+export const insertProductCategorySchema = createInsertSchema(productCategories).omit({
+  id: true,
+  siteId: true,
   createdAt: true,
+}).extend({
+  slug: slugSchema,
 });
 
 export const insertProductSchema = createInsertSchema(products).omit({
   id: true,
+  siteId: true,
   createdAt: true,
+  deletedAt: true,
+}).extend({
+  priceAmount: z.coerce.number().int().nonnegative(),
+  currency: z.string().regex(/^[A-Z]{3}$/, "Use an ISO 4217 currency code such as EUR").optional(),
+  sku: z.string().trim().min(1).nullable().optional(),
+  stock: z.coerce.number().int().nonnegative().nullable().optional(),
+  categoryId: z.coerce.number().int().positive().nullable().optional(),
+  options: jsonField(z.array(productOptionSchema).refine(
+    (options) => new Set(options.map((option) => option.name)).size === options.length,
+    "Option names must be unique",
+  )).optional(),
+  imageMediaId: z.coerce.number().int().positive().optional(),
+  position: z.coerce.number().int().nonnegative().optional(),
+  featured: formBoolean.optional(),
+});
+
+export const productFiltersSchema = z.object({
+  category: z.string().optional(), // category slug
+  status: z.string().optional(),
+  featured: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+  minPrice: z.coerce.number().int().nonnegative().optional(), // in minor units
+  maxPrice: z.coerce.number().int().nonnegative().optional(),
+});
+
+export const productSortFields = ["position", "createdAt", "title", "priceAmount"] as const;
+export const productListQuerySchema = productFiltersSchema.merge(listOptionsSchema(productSortFields));
+
+export const insertProductVariantSchema = createInsertSchema(productVariants).omit({
+  id: true,
+  siteId: true,
+  productId: true,
+  createdAt: true,
+}).extend({
+  sku: z.string().trim().min(1).nullable().optional(),
+  optionValues: z.record(z.string().trim().min(1)),
+  priceAmount: z.number().int().nonnegative(),
+  stock: z.number().int().nonnegative().nullable().optional(),
+});
+
+export const cartItemSchema = z.object({
+  productId: z.number().int().positive(),
+  variantId: z.number().int().positive().nullable().optional(),
+  quantity: z.number().int().min(0).max(999), // 0 removes the item
+});
+
+export const checkoutSchema = z.object({
+  customerName: z.string().trim().min(1),
+  customerEmail: z.string().trim().email(),
+  customerPhone: z.string().trim().optional(),
+  shippingAddress: z.string().trim().optional(),
+  notes: z.string().trim().optional(),
+  // The total the visitor saw; checkout is refused when the server's total differs
+  expectedTotalAmount: z.number().int().nonnegative().optional(),
+});
+
+export const updateOrderStatusSchema = z.object({
+  status: z.enum(orderStatuses),
+});
+
+export const orderFiltersSchema = z.object({
+  status: z.enum(orderStatuses).optional(),
 });
 
 export const insertMessageSchema = createInsertSchema(messages).omit({
   id: true,
+  siteId: true,
   isRead: true,
+  isSpam: true,
+  spamScore: true,
+  spamReasons: true,
+  replyToken: true,
   createdAt: true,
+  deletedAt: true,
+});
+
+// What the public contact form posts: the message plus the bot traps, see server/spam.ts
+export const messageSubmissionSchema = insertMessageSchema.extend({
+  website: z.string().optional(), // honeypot, hidden from people
+  formToken: z.string().optional(),
 });
 
+export const updateMessageSpamSchema = z.object({
+  isSpam: z.boolean(),
+});
+
+export const messageFiltersSchema = z.object({
+  isRead: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+  isSpam: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+export const messageSortFields = ["createdAt", "name", "email", "subject"] as const;
+export const messageListQuerySchema = messageFiltersSchema.merge(listOptionsSchema(messageSortFields));
+
 export const insertMessageReplySchema = createInsertSchema(messageReplies).omit({
+  id: true,
+  deliveryStatus: true,
+  deliveryError: true,
+  deliveredAt: true,
+  emailMessageId: true,
+  createdAt: true,
+});
+
+// A reply received by email, as posted by the mail-forwarding service
+export const inboundEmailSchema = z.object({
+  from: z.string().min(1),
+  to: z.string().min(1),
+  subject: z.string().optional(),
+  text: z.string(),
+  inReplyTo: z.string().optional(),
+  references: z.string().optional(),
+});
+
+export const insertPageSchema = createInsertSchema(pages).omit({
+  id: true,
+  siteId: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  slug: slugSchema,
+  status: z.enum(["draft", "published"]).optional(),
+  blocks: z.array(pageBlockSchema).refine(
+    (blocks) => new Set(blocks.map((block) => block.id)).size === blocks.length,
+    "Block ids must be unique within a page",
+  ).optional(),
+});
+
+export const insertTranslationSchema = createInsertSchema(translations).omit({
+  id: true,
+  siteId: true,
+  updatedAt: true,
+}).extend({
+  entityType: z.enum(["siteConfig", "project", "product", "page"]),
+  locale: localeSchema,
+});
+
+export const translationFiltersSchema = z.object({
+  entityType: z.enum(["siteConfig", "project", "product", "page"]).optional(),
+  entityId: z.coerce.number().int().optional(),
+  locale: localeSchema.optional(),
+});
+
+export const reorderSchema = z.object({
+  ids: z.array(z.number().int()).min(1),
+});
+
+export const reorderBlocksSchema = z.object({
+  blockIds: z.array(z.string()).min(1),
+});
+
+export const insertAuditLogSchema = createInsertSchema(auditLogs).omit({
   id: true,
   createdAt: true,
 });
 
+export const auditLogFiltersSchema = z.object({
+  siteId: z.coerce.number().int().optional(),
+  userId: z.coerce.number().int().optional(),
+  action: z.enum(auditActions).optional(),
+  entityType: z.string().optional(),
+  entityId: z.coerce.number().int().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+export const insertWebhookSchema = createInsertSchema(webhooks).omit({
+  id: true,
+  siteId: true,
+  secret: true,
+  createdAt: true,
+}).extend({
+  url: z.string().url().refine((url) => /^https?:\/\//.test(url), "Only http and https URLs are supported"),
+  events: z.array(z.enum(siteEventTypes)).min(1),
+});
+
+export const webhookDeliveryFiltersSchema = z.object({
+  status: z.enum(["pending", "succeeded", "failed"]).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+// Portable backup of one site: this JSON plus the upload files it names. Records keep
+// their original ids so references between them can be remapped on import.
+export const siteArchiveFormat = "websitebuilder-site";
+export const siteArchiveVersion = 1;
+
+const archivedId = z.number().int().positive();
+const uploadKeySchema = z.string().regex(/^[\w-][\w.-]*$/, "Invalid upload file name");
+
+export const archivedMessageSchema = insertMessageSchema.extend({
+  id: archivedId,
+  isRead: z.boolean(),
+  isSpam: z.boolean(),
+  spamScore: z.number().int(),
+  spamReasons: z.array(z.string()),
+  createdAt: z.coerce.date(),
+  replies: z.array(insertMessageReplySchema.omit({ messageId: true }).extend({
+    deliveryStatus: z.enum(["pending", "sent", "failed"]).optional(),
+    deliveredAt: z.coerce.date().optional(),
+    createdAt: z.coerce.date(),
+  })),
+});
+
+export const siteArchiveSchema = z.object({
+  format: z.literal(siteArchiveFormat),
+  version: z.number().int(),
+  exportedAt: z.string(),
+  site: insertSiteSchema.pick({ name: true, hostname: true, locales: true, defaultLocale: true }),
+  siteConfig: insertSiteConfigSchema.extend({ id: archivedId }).optional(),
+  media: z.array(insertMediaSchema.omit({ uploadedBy: true }).extend({
+    id: archivedId,
+    filename: uploadKeySchema,
+    variants: z.array(z.object({
+      name: z.enum(imageVariantNames),
+      filename: uploadKeySchema,
+      url: z.string(),
+      width: z.number().int(),
+      height: z.number().int(),
+      mimeType: z.string(),
+      size: z.number().int(),
+    })),
+  })),
+  productCategories: z.array(insertProductCategorySchema.extend({ id: archivedId })),
+  products: z.array(insertProductSchema.extend({ id: archivedId })),
+  productVariants: z.array(insertProductVariantSchema.extend({ id: archivedId, productId: archivedId })),
+  projects: z.array(insertProjectSchema.extend({ id: archivedId })),
+  projectImages: z.array(insertProjectImageSchema.extend({ id: archivedId, projectId: archivedId })).default([]), // added after version 1
+  pages: z.array(insertPageSchema.extend({ id: archivedId })),
+  translations: z.array(insertTranslationSchema),
+  messages: z.array(archivedMessageSchema),
+});
+
+export const siteImportQuerySchema = z.object({
+  dryRun: z.enum(["true", "false"]).default("false").transform((value) => value === "true"),
+});
+
+export const searchResultTypes = ["project", "product", "page"] as const;
+
+export const searchQuerySchema = z.object({
+  q: z.string().trim().min(2).max(200),
+  type: z.enum(searchResultTypes).optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+export const messageSearchQuerySchema = searchQuerySchema.pick({ q: true, limit: true });
+
+export const trashEntityTypes = ["project", "product", "message"] as const;
+
+export const trashFiltersSchema = z.object({
+  type: z.enum(trashEntityTypes).optional(),
+});
+
 // Types
+export type UserRole = typeof userRoles[number];
+export type PlatformRole = typeof platformRoles[number];
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 
+export type AuditAction = typeof auditActions[number];
+export type AuditLog = typeof auditLogs.$inferSelect;
+export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
+// siteId null selects the entries that belong to no site, such as user accounts
+export type AuditLogFilters = Omit<z.infer<typeof auditLogFiltersSchema>, "siteId"> & { siteId?: number | null };
+
+export type SiteEventType = typeof siteEventTypes[number];
+export type Webhook = typeof webhooks.$inferSelect;
+export type InsertWebhook = z.infer<typeof insertWebhookSchema>;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = Omit<typeof webhookDeliveries.$inferInsert, "id" | "siteId" | "createdAt">;
+export type WebhookDeliveryFilters = z.infer<typeof webhookDeliveryFiltersSchema>;
+
+export type SiteArchive = z.infer<typeof siteArchiveSchema>;
+export type ArchivedMessage = z.infer<typeof archivedMessageSchema>;
+
+export type SortOrder = typeof sortOrders[number];
+export interface ListOptions<F extends string> {
+  limit?: number; // all rows when omitted
+  offset?: number;
+  sort?: F;
+  order?: SortOrder;
+}
+export interface Paginated<T> {
+  items: T[];
+  total: number; // matching rows across all pages
+  limit: number;
+  offset: number;
+}
+
+export type Site = typeof sites.$inferSelect;
+export type InsertSite = z.infer<typeof insertSiteSchema>;
+
+export type SiteDomain = typeof siteDomains.$inferSelect;
+export type SiteMember = typeof siteMembers.$inferSelect;
+export type InsertSiteDomain = z.infer<typeof insertSiteDomainSchema>;
+
+export type Media = typeof media.$inferSelect;
+export type InsertMedia = z.infer<typeof insertMediaSchema>;
+export type UpdateMedia = z.infer<typeof updateMediaSchema>;
+export type MediaFilters = z.infer<typeof mediaFiltersSchema>;
+
 export type SiteConfig = typeof siteConfig.$inferSelect;
 export type InsertSiteConfig = z.infer<typeof insertSiteConfigSchema>;
 
+export type Page = typeof pages.$inferSelect;
+export type InsertPage = z.infer<typeof insertPageSchema>;
+
+export type Translation = typeof translations.$inferSelect;
+export type InsertTranslation = z.infer<typeof insertTranslationSchema>;
+
+export type SiteConfigDraft = typeof siteConfigDrafts.$inferSelect;
+
+export type RevisionEntityType = "siteConfig" | "project" | "product";
+export type Revision = typeof revisions.$inferSelect;
+
 export type Project = typeof projects.$inferSelect;
 export type InsertProject = z.infer<typeof insertProjectSchema>;
+export type ProjectFilters = z.infer<typeof projectFiltersSchema>;
+export type ProjectSortField = typeof projectSortFields[number];
+export type ProjectImage = typeof projectImages.$inferSelect;
+export type InsertProjectImage = z.infer<typeof insertProjectImageSchema>;
+export type RichTextFormat = typeof richTextFormats[number];
 
 export type Product = typeof products.$inferSelect;
 export type InsertProduct = z.infer<typeof insertProductSchema>;
+export type ProductFilters = z.infer<typeof productFiltersSchema>;
+export type ProductSortField = typeof productSortFields[number];
+
+export type ProductCategory = typeof productCategories.$inferSelect;
+export type InsertProductCategory = z.infer<typeof insertProductCategorySchema>;
+
+export type ProductVariant = typeof productVariants.$inferSelect;
+export type InsertProductVariant = z.infer<typeof insertProductVariantSchema>;
+
+export type Cart = typeof carts.$inferSelect;
+export type CartItem = typeof cartItems.$inferSelect;
+export type CartItemInput = z.infer<typeof cartItemSchema>;
+export type CheckoutInput = z.infer<typeof checkoutSchema>;
+
+export type OrderStatus = typeof orderStatuses[number];
+export type Order = typeof orders.$inferSelect;
+export type InsertOrder = Omit<typeof orders.$inferInsert, "id" | "siteId" | "createdAt" | "updatedAt">;
+export type OrderLine = typeof orderLines.$inferSelect;
+export type InsertOrderLine = Omit<typeof orderLines.$inferInsert, "id" | "orderId">;
+export type OrderFilters = z.infer<typeof orderFiltersSchema>;
 
 export type Message = typeof messages.$inferSelect;
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
+export type MessageSpamVerdict = Pick<Message, "isSpam" | "spamScore" | "spamReasons">;
+export type MessageFilters = z.infer<typeof messageFiltersSchema>;
+export type MessageSortField = typeof messageSortFields[number];
 
 export type MessageReply = typeof messageReplies.$inferSelect;
 export type InsertMessageReply = z.infer<typeof insertMessageReplySchema>;
+export type ReplyDelivery = Pick<MessageReply, "deliveryStatus" | "deliveryError" | "deliveredAt" | "emailMessageId">;
+export type InboundEmail = z.infer<typeof inboundEmailSchema>;
+
+export type SearchResultType = typeof searchResultTypes[number];
+// Snippets from storage mark matches with control characters, see server/search.ts
+export interface SearchHit {
+  type: SearchResultType;
+  id: number;
+  title: string;
+  slug: string | null; // pages only
+  snippet: string;
+  rank: number;
+}
+export type SearchResult = Omit<SearchHit, "slug"> & { url: string };
+export interface MessageSearchHit {
+  type: "message" | "reply";
+  id: number;
+  messageId: number;
+  subject: string;
+  name: string;
+  email: string;
+  snippet: string;
+  rank: number;
+  createdAt: Date | null;
+}
+
+export type TrashEntityType = typeof trashEntityTypes[number];
+export type TrashFilters = z.infer<typeof trashFiltersSchema> & { deletedBefore?: Date };
+// A soft-deleted row with what the admin needs to recognise it; title is the subject for messages
+export type TrashItem =
+  | { type: "project"; id: number; title: string; deletedAt: Date; item: Project }
+  | { type: "product"; id: number; title: string; deletedAt: Date; item: Product }
+  | { type: "message"; id: number; title: string; deletedAt: Date; item: Message };